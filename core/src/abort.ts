@@ -0,0 +1,68 @@
+// React Native's fetch polyfill rejects with a plain object-like error, so match on the name.
+export const isAbortError = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError'
+
+export const createAbortError = () => {
+  const error = new Error('The request was cancelled.')
+  error.name = 'AbortError'
+  return error
+}
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw createAbortError()
+  }
+}
+
+export interface SharedRequest<T> {
+  join: (signal?: AbortSignal) => Promise<T>
+  // The underlying request, for observing the outcome without counting as a caller.
+  promise: Promise<T>
+  // Aborted once every caller has given up; owners should stop handing the request out.
+  signal: AbortSignal
+}
+
+/**
+ * Lets several callers wait on one in-flight request while cancelling independently. The
+ * underlying request is only aborted after every caller that joined with a signal has aborted;
+ * a caller without a signal keeps it alive.
+ */
+export const shareRequest = <T>(load: (signal: AbortSignal) => Promise<T>): SharedRequest<T> => {
+  const controller = new AbortController()
+  const request = load(controller.signal)
+  let waiting = 0
+  let settled = false
+
+  void request
+    .catch(() => undefined)
+    .finally(() => {
+      settled = true
+    })
+
+  const join = (signal?: AbortSignal): Promise<T> => {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError())
+    }
+    waiting += 1
+    if (!signal) {
+      return request
+    }
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        waiting -= 1
+        if (waiting === 0 && !settled) {
+          controller.abort()
+        }
+        reject(createAbortError())
+      }
+      signal.addEventListener('abort', onAbort, { once: true })
+      void request
+        .then(resolve, reject)
+        .finally(() => {
+          signal.removeEventListener('abort', onAbort)
+        })
+    })
+  }
+
+  return { join, promise: request, signal: controller.signal }
+}
@@ -0,0 +1,126 @@
+import type { OptimisticDailyOutlook, OptimisticForecast, OptimisticHourlyOutlook } from './types'
+
+export type ComparisonMetric = 'dryness' | 'sun' | 'comfort'
+
+export const COMPARISON_METRICS: ComparisonMetric[] = ['dryness', 'sun', 'comfort']
+
+// Around 70°F; comfort scores fall off by five points per degree away from it.
+const COMFORT_TARGET_C = 21
+const COMFORT_POINTS_PER_DEGREE = 5
+
+// One place's share of a comparison day. Either series may be missing for a given place.
+export interface ComparisonCell {
+  day?: OptimisticDailyOutlook
+  hours: OptimisticHourlyOutlook[]
+  // 0–100, higher is better; null when the place has no data for that metric on that day.
+  scores: Record<ComparisonMetric, number | null>
+}
+
+export interface ComparisonDay {
+  // The calendar date (YYYY-MM-DD) in each place's own time zone.
+  dateKey: string
+  date: Date
+  // One cell per compared forecast, in the order the forecasts were passed.
+  cells: ComparisonCell[]
+  // Indexes of the places that win each metric. Ties share the win; empty when nobody stands out.
+  winners: Record<ComparisonMetric, number[]>
+}
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+// Outlook dates are pre-shifted by the place's UTC offset, so their UTC fields read as local time.
+const toDateKey = (date: Date) => date.toISOString().slice(0, 10)
+
+const scoreDryness = (day: OptimisticDailyOutlook | undefined, hours: OptimisticHourlyOutlook[]) => {
+  const dailyChance = day?.precipitationChancePercent
+  if (typeof dailyChance === 'number') {
+    return 100 - dailyChance
+  }
+  const chances = hours
+    .map((hour) => hour.precipitationChancePercent)
+    .filter((chance): chance is number => chance !== null)
+  return chances.length ? 100 - Math.max(...chances) : null
+}
+
+// The daily counterpart of the `clouds` highlight: the share of sky left open.
+const scoreSun = (day: OptimisticDailyOutlook | undefined) =>
+  day?.cloudCoverPercent === undefined ? null : 100 - day.cloudCoverPercent
+
+const scoreComfort = (day: OptimisticDailyOutlook | undefined, hours: OptimisticHourlyOutlook[]) => {
+  const temperature = day ? day.dayAverage : hours.length ? average(hours.map((hour) => hour.feelsLike)) : null
+  if (temperature === null) {
+    return null
+  }
+  return Math.max(0, Math.round(100 - Math.abs(temperature - COMFORT_TARGET_C) * COMFORT_POINTS_PER_DEGREE))
+}
+
+const pickWinners = (cells: ComparisonCell[], metric: ComparisonMetric) => {
+  const scored = cells.flatMap((cell, index) => {
+    const score = cell.scores[metric]
+    return score === null ? [] : [{ index, score: Math.round(score) }]
+  })
+  if (scored.length < 2) {
+    return []
+  }
+  const best = Math.max(...scored.map(({ score }) => score))
+  const winners = scored.filter(({ score }) => score === best).map(({ index }) => index)
+  return winners.length === scored.length ? [] : winners
+}
+
+/**
+ * Lines up the daily and hourly outlooks of several forecasts by local calendar date and marks
+ * which place wins each day on dryness, sun and comfort. Days only some places cover are kept,
+ * with empty cells for the rest.
+ */
+export const buildComparison = (forecasts: OptimisticForecast[]): ComparisonDay[] => {
+  const dates = new Map<string, Date>()
+  const daysByPlace = forecasts.map((forecast) => {
+    const days = new Map<string, OptimisticDailyOutlook>()
+    forecast.extendedOutlook?.days.forEach((day) => {
+      const key = toDateKey(day.date)
+      days.set(key, day)
+      if (!dates.has(key)) {
+        dates.set(key, day.date)
+      }
+    })
+    return days
+  })
+  const hoursByPlace = forecasts.map((forecast) => {
+    const hours = new Map<string, OptimisticHourlyOutlook[]>()
+    forecast.hourlyOutlook?.forEach((hour) => {
+      const key = toDateKey(hour.time)
+      hours.set(key, [...(hours.get(key) ?? []), hour])
+      if (!dates.has(key)) {
+        dates.set(key, new Date(`${key}T12:00:00Z`))
+      }
+    })
+    return hours
+  })
+
+  return [...dates.keys()].sort().map((dateKey) => {
+    const cells = forecasts.map((_, index): ComparisonCell => {
+      const day = daysByPlace[index].get(dateKey)
+      const hours = hoursByPlace[index].get(dateKey) ?? []
+      return {
+        day,
+        hours,
+        scores: {
+          dryness: scoreDryness(day, hours),
+          sun: scoreSun(day),
+          comfort: scoreComfort(day, hours),
+        },
+      }
+    })
+
+    return {
+      dateKey,
+      date: dates.get(dateKey) ?? new Date(`${dateKey}T12:00:00Z`),
+      cells,
+      winners: {
+        dryness: pickWinners(cells, 'dryness'),
+        sun: pickWinners(cells, 'sun'),
+        comfort: pickWinners(cells, 'comfort'),
+      },
+    }
+  })
+}
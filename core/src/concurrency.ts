@@ -0,0 +1,32 @@
+import { throwIfAborted } from './abort'
+
+/**
+ * Runs `task` over `items` in list order with at most `limit` tasks in flight. Each outcome
+ * settles on its own, so one failure neither stops nor fails the rest. Once `signal` aborts, no
+ * further tasks start and the call rejects with an AbortError.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: readonly T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<PromiseSettledResult<R>[]> => {
+  const results: PromiseSettledResult<R>[] = []
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next
+      next += 1
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index], index) }
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason }
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker))
+  throwIfAborted(signal)
+  return results
+}
@@ -0,0 +1,212 @@
+import type { Coordinates } from './types'
+
+export type CoordinateQuery =
+  | { kind: 'coordinates'; coords: Coordinates }
+  // Short plus codes ("QHFJ+X6 San Francisco") only make sense next to the locality they drop.
+  | { kind: 'short-plus-code'; code: string; locality: string }
+
+const HEMISPHERES = 'NSEW'
+const NUMBER = '[-+]?\\d+(?:\\.\\d+)?'
+
+// One axis in decimal degrees, degrees and decimal minutes, or degrees-minutes-seconds:
+// `37.77`, `37°46.5'`, `37° 46' 30"`.
+const angle = (name: string) => [
+  `(?<${name}Deg>${NUMBER})\\s*(?<${name}Mark>[°º])?\\s*`,
+  `(?:(?<${name}Min>\\d+(?:\\.\\d+)?)\\s*['′]\\s*`,
+  `(?:(?<${name}Sec>\\d+(?:\\.\\d+)?)\\s*(?:["″]|'')\\s*)?)?`,
+].join('')
+
+// The hemisphere goes either before ("N 37°") or after ("37°N"), never both, so "N 37° W 122°"
+// cannot hand its "W" to the wrong axis.
+const component = (name: string) =>
+  `(?:(?<${name}Before>[${HEMISPHERES}])\\s*${angle(`${name}Prefixed`)}|${angle(name)}(?<${name}After>[${HEMISPHERES}])?)`
+
+const DEGREES_PATTERN = new RegExp(
+  `^${component('first')}(?:\\s*[,;/]\\s*|\\s+|(?=[-+${HEMISPHERES}]))${component('second')}$`,
+  'i',
+)
+const GEO_URI_PATTERN = new RegExp(`^geo:\\s*(?<lat>${NUMBER}),(?<lon>${NUMBER})(?:,${NUMBER})?(?:[;?].*)?$`, 'i')
+
+const PLUS_ALPHABET = '23456789CFGHJMPQRVWX'
+const PLUS_BASE = PLUS_ALPHABET.length
+const PAIR_RESOLUTIONS = [20, 1, 0.05, 0.0025, 0.000125]
+const GRID_ROWS = 5
+const GRID_COLUMNS = 4
+// Eight digits before the "+", either all significant or padded with zeros ("849V0000+").
+const FULL_PLUS_CODE = new RegExp(
+  `^(?:[${PLUS_ALPHABET}]{8}\\+[${PLUS_ALPHABET}]{2,}|(?=[${PLUS_ALPHABET}0]{8}\\+$)(?:[${PLUS_ALPHABET}]{2}){1,3}0+\\+)$`,
+  'i',
+)
+const SHORT_PLUS_CODE = new RegExp(
+  `^(?<code>(?:[${PLUS_ALPHABET}]{2}){1,3}\\+[${PLUS_ALPHABET}]{2,})[\\s,]+(?<locality>\\D.*)$`,
+  'i',
+)
+
+interface Axis {
+  degrees: number
+  minutes?: string
+  seconds?: string
+  mark?: string
+  hemisphere?: string
+}
+
+const readAxis = (groups: Record<string, string | undefined>, name: string): Axis => {
+  const before = groups[`${name}Before`]
+  const key = before === undefined ? name : `${name}Prefixed`
+  return {
+    degrees: Number(groups[`${key}Deg`]),
+    minutes: groups[`${key}Min`],
+    seconds: groups[`${key}Sec`],
+    mark: groups[`${key}Mark`],
+    hemisphere: (before ?? groups[`${name}After`])?.toUpperCase(),
+  }
+}
+
+const toDecimal = ({ degrees, minutes, seconds, hemisphere }: Axis) => {
+  if (minutes !== undefined && (!Number.isInteger(degrees) || Number(minutes) >= 60)) {
+    return null
+  }
+  if (seconds !== undefined && (!Number.isInteger(Number(minutes)) || Number(seconds) >= 60)) {
+    return null
+  }
+  const magnitude = Math.abs(degrees) + Number(minutes ?? 0) / 60 + Number(seconds ?? 0) / 3600
+  const negative = hemisphere === 'S' || hemisphere === 'W' || (!hemisphere && degrees < 0)
+  return negative ? -magnitude : magnitude
+}
+
+const hasMarkers = ({ minutes, mark, hemisphere }: Axis) => Boolean(hemisphere ?? mark ?? minutes)
+
+const isLatitudeHemisphere = (hemisphere?: string) => hemisphere === 'N' || hemisphere === 'S'
+
+const inRange = ({ lat, lon }: Coordinates) => Math.abs(lat) <= 90 && Math.abs(lon) <= 180
+
+const parseDegrees = (query: string): Coordinates | null => {
+  const groups = DEGREES_PATTERN.exec(query)?.groups
+  if (!groups) {
+    return null
+  }
+  const first = readAxis(groups, 'first')
+  const second = readAxis(groups, 'second')
+  // Bare numbers need decimals, so house numbers and postal codes never read as coordinates.
+  if (!hasMarkers(first) && !hasMarkers(second) && (query.match(/\./g) ?? []).length < 2) {
+    return null
+  }
+  // "122°W 37°N" names its axes, so the order can be swapped.
+  const swapped = isLatitudeHemisphere(second.hemisphere) && !isLatitudeHemisphere(first.hemisphere)
+  if (!swapped && first.hemisphere && !isLatitudeHemisphere(first.hemisphere)) {
+    return null
+  }
+  const [lat, lon] = (swapped ? [second, first] : [first, second]).map(toDecimal)
+  if (lat === null || lon === null) {
+    return null
+  }
+  const coords = { lat, lon }
+  return inRange(coords) ? coords : null
+}
+
+const parseGeoUri = (query: string): Coordinates | null => {
+  const groups = GEO_URI_PATTERN.exec(query)?.groups
+  if (!groups) {
+    return null
+  }
+  const coords = { lat: Number(groups.lat), lon: Number(groups.lon) }
+  return inRange(coords) ? coords : null
+}
+
+const digitValue = (digit: string) => PLUS_ALPHABET.indexOf(digit)
+
+// Centre of the area a full Open Location Code describes.
+const decodePlusCode = (code: string): Coordinates | null => {
+  const digits = code.toUpperCase().replace('+', '').replace(/0+$/, '')
+  if (digitValue(digits[0]) * PAIR_RESOLUTIONS[0] >= 180 || digitValue(digits[1]) * PAIR_RESOLUTIONS[0] >= 360) {
+    return null
+  }
+
+  let lat = -90
+  let lon = -180
+  let latSize = PAIR_RESOLUTIONS[0]
+  let lonSize = PAIR_RESOLUTIONS[0]
+  for (let index = 0; index < Math.min(digits.length, 10); index += 2) {
+    latSize = PAIR_RESOLUTIONS[index / 2]
+    lonSize = latSize
+    lat += digitValue(digits[index]) * latSize
+    lon += digitValue(digits[index + 1]) * lonSize
+  }
+  for (const digit of digits.slice(10)) {
+    latSize /= GRID_ROWS
+    lonSize /= GRID_COLUMNS
+    lat += Math.floor(digitValue(digit) / GRID_COLUMNS) * latSize
+    lon += (digitValue(digit) % GRID_COLUMNS) * lonSize
+  }
+  return { lat: lat + latSize / 2, lon: lon + lonSize / 2 }
+}
+
+// Leading pairs of the full code for a point, used to complete short codes.
+const encodePlusCodePrefix = ({ lat, lon }: Coordinates, length: number) => {
+  let latValue = Math.min(Math.max(lat, -90), 90 - 1e-9) + 90
+  let lonValue = ((((lon + 180) % 360) + 360) % 360)
+  let prefix = ''
+  for (let index = 0; index < length / 2; index += 1) {
+    const resolution = PAIR_RESOLUTIONS[index]
+    const latDigit = Math.floor(latValue / resolution)
+    const lonDigit = Math.floor(lonValue / resolution)
+    latValue -= latDigit * resolution
+    lonValue -= lonDigit * resolution
+    prefix += PLUS_ALPHABET[latDigit] + PLUS_ALPHABET[lonDigit]
+  }
+  return prefix
+}
+
+/**
+ * Completes a short plus code with the leading digits of a nearby reference point (usually the
+ * geocoded locality), then shifts by one cell when that lands on the far side of a cell edge.
+ */
+export const recoverPlusCode = (shortCode: string, reference: Coordinates): Coordinates | null => {
+  const code = shortCode.toUpperCase()
+  const missing = 8 - code.indexOf('+')
+  const decoded = decodePlusCode(encodePlusCodePrefix(reference, missing) + code)
+  if (!decoded) {
+    return null
+  }
+  const resolution = PLUS_BASE ** (2 - missing / 2)
+  const half = resolution / 2
+  let { lat, lon } = decoded
+  if (reference.lat + half < lat && lat - resolution >= -90) {
+    lat -= resolution
+  } else if (reference.lat - half > lat && lat + resolution <= 90) {
+    lat += resolution
+  }
+  if (reference.lon + half < lon) {
+    lon -= resolution
+  } else if (reference.lon - half > lon) {
+    lon += resolution
+  }
+  return { lat, lon: ((((lon + 180) % 360) + 360) % 360) - 180 }
+}
+
+/**
+ * Recognises coordinates typed into the search box: decimal degrees ("37.77,-122.42"), degrees
+ * with minutes and seconds, `geo:` URIs and plus codes. Returns `null` for anything else.
+ */
+export const parseCoordinateQuery = (query: string): CoordinateQuery | null => {
+  const trimmed = query.trim()
+  const compact = trimmed.replace(/\s+/g, '')
+  if (FULL_PLUS_CODE.test(compact)) {
+    const coords = decodePlusCode(compact)
+    return coords && { kind: 'coordinates', coords }
+  }
+  const shortCode = SHORT_PLUS_CODE.exec(trimmed)?.groups
+  if (shortCode) {
+    return { kind: 'short-plus-code', code: shortCode.code, locality: shortCode.locality.trim() }
+  }
+  const coords = parseGeoUri(trimmed) ?? parseDegrees(trimmed)
+  return coords && { kind: 'coordinates', coords }
+}
+
+const roundCoordinate = (value: number) => String(Number(value.toFixed(5)))
+
+/** "37.77, -122.42": parses back to the same point, so it works as a suggestion's search value. */
+export const formatCoordinates = ({ lat, lon }: Coordinates) => {
+  const withDecimal = (value: string) => (value.includes('.') ? value : `${value}.0`)
+  return `${withDecimal(roundCoordinate(lat))}, ${withDecimal(roundCoordinate(lon))}`
+}
@@ -0,0 +1,114 @@
+import type { DataIssue } from './types'
+import { isWeatherServiceError } from './errors'
+import type { WeatherErrorKind } from './errors'
+
+const DEFAULT_RATE_LIMIT_RETRY_SECONDS = 30
+
+// The proxy's key, which hosts name as their `keyLocation` when calls go through `docker/proxy`.
+export const PROXY_KEY_LOCATION = 'OPENWEATHER_API_KEY on the proxy server'
+
+export interface WeatherErrorNotice {
+  kind: WeatherErrorKind | 'unknown'
+  title: string
+  message: string
+  // Seconds until an automatic retry is worth attempting; only set for rate limits.
+  retryInSeconds?: number
+}
+
+interface DescribeWeatherErrorOptions {
+  // Where this host reads its API key from, e.g. "VITE_OPENWEATHER_API_KEY in .env.local".
+  keyLocation: string
+  fallbackMessage?: string
+}
+
+/**
+ * Turns a service failure into the recovery copy both apps show. Each kind keeps the bright-side
+ * tone and points at the next step; hosts add the matching control (retry timer, settings hint,
+ * offline banner).
+ */
+export const describeWeatherError = (
+  error: unknown,
+  { keyLocation, fallbackMessage = 'Unable to load the forecast right now.' }: DescribeWeatherErrorOptions,
+): WeatherErrorNotice => {
+  if (!isWeatherServiceError(error)) {
+    return {
+      kind: 'unknown',
+      title: 'Something went sideways',
+      message: error instanceof Error ? error.message : fallbackMessage,
+    }
+  }
+
+  switch (error.kind) {
+    case 'auth':
+      // Dropping a client-side key switches the app to Open-Meteo; dropping the proxy's does not.
+      return {
+        kind: error.kind,
+        title: 'Let’s get your key sorted',
+        message: keyLocation === PROXY_KEY_LOCATION
+          ? `${error.source} didn’t accept the API key. Check ${keyLocation} and restart the proxy.`
+          : `${error.source} didn’t accept the API key. Check ${keyLocation}, or remove it to use the free Open-Meteo forecast meanwhile.`,
+      }
+    case 'rate-limited':
+      return {
+        kind: error.kind,
+        title: 'Catching our breath',
+        message: 'We’ve asked for a lot of sunshine lately. Your forecast will load again in a moment.',
+        retryInSeconds: error.retryAfterSeconds ?? DEFAULT_RATE_LIMIT_RETRY_SECONDS,
+      }
+    case 'not-found':
+      return {
+        kind: error.kind,
+        title: 'Couldn’t place that one',
+        message: error.message,
+      }
+    case 'network':
+      return {
+        kind: error.kind,
+        title: 'You’re offline',
+        message: 'Your forecast will be right here once the connection is back.',
+      }
+    case 'malformed-response':
+      return {
+        kind: error.kind,
+        title: 'The forecast got scrambled',
+        message: `${error.source} sent something we couldn’t read. Another try usually sorts it out.`,
+      }
+    case 'server':
+      return {
+        kind: error.kind,
+        title: 'The weather service is having a moment',
+        message: `${error.source} is busy right now. Give it another try shortly.`,
+      }
+  }
+}
+
+const READING_LABELS: Record<string, string> = {
+  'main.pressure': 'pressure',
+  'main.humidity': 'humidity',
+  'clouds.all': 'cloud cover',
+  'wind.speed': 'wind speed',
+  visibility: 'visibility',
+  pop: 'rain chance',
+}
+
+// "list[3].main.humidity" -> "humidity"
+const readingName = (field: string) => {
+  const reading = field.replace(/^\w+\[\d+\]\./, '')
+  return READING_LABELS[reading] ?? reading
+}
+
+/**
+ * One-line note for a forecast built from a repaired payload, naming the readings that went
+ * missing. `undefined` when nothing was lost on the way in.
+ */
+export const describeDataIssues = (issues: DataIssue[] | undefined): string | undefined => {
+  if (!issues?.length) {
+    return undefined
+  }
+  const missing = Array.from(new Set(
+    issues.filter((issue) => issue.resolution === 'missing').map((issue) => readingName(issue.field)),
+  ))
+  return missing.length
+    ? `A few readings (${missing.join(', ')}) didn’t come through, so some highlights are sitting this one out.`
+    : 'Part of the forecast arrived a little scrambled, so we tidied it up and kept the bright spots.'
+}
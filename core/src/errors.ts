@@ -0,0 +1,102 @@
+export type WeatherErrorKind =
+  | 'auth'
+  | 'rate-limited'
+  | 'not-found'
+  | 'network'
+  | 'malformed-response'
+  | 'server'
+
+export interface WeatherServiceError extends Error {
+  name: 'WeatherServiceError'
+  kind: WeatherErrorKind
+  // Which upstream failed, e.g. "OpenWeather" or "National Weather Service".
+  source: string
+  status?: number
+  // From the `Retry-After` header on rate-limited responses, when the upstream sends one.
+  retryAfterSeconds?: number
+  // Raw upstream response text, kept for logs rather than for display.
+  detail?: string
+}
+
+interface WeatherErrorInit {
+  source?: string
+  status?: number
+  retryAfterSeconds?: number
+  detail?: string
+  cause?: unknown
+}
+
+export const createWeatherError = (
+  kind: WeatherErrorKind,
+  message: string,
+  { source = 'Weather service', status, retryAfterSeconds, detail, cause }: WeatherErrorInit = {},
+): WeatherServiceError =>
+  Object.assign(new Error(message), {
+    name: 'WeatherServiceError' as const,
+    kind,
+    source,
+    status,
+    retryAfterSeconds,
+    detail,
+    cause,
+  })
+
+export const isWeatherServiceError = (error: unknown): error is WeatherServiceError =>
+  error instanceof Error && error.name === 'WeatherServiceError' && 'kind' in error
+
+// `Retry-After` is either a delay in seconds or an HTTP date.
+const parseRetryAfter = (value: string | null, now: number) => {
+  if (!value) {
+    return undefined
+  }
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, Math.round(seconds))
+  }
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.round((date - now) / 1000))
+}
+
+const kindForStatus = (status: number): WeatherErrorKind => {
+  if (status === 401 || status === 403) {
+    return 'auth'
+  }
+  if (status === 429) {
+    return 'rate-limited'
+  }
+  if (status === 404) {
+    return 'not-found'
+  }
+  return 'server'
+}
+
+const MESSAGES: Record<WeatherErrorKind, (source: string) => string> = {
+  auth: (source) => `${source} rejected the API key.`,
+  'rate-limited': (source) => `${source} is rate limiting requests.`,
+  'not-found': (source) => `${source} has no data for that request.`,
+  network: (source) => `Could not reach ${source}.`,
+  'malformed-response': (source) => `${source} sent a response we could not read.`,
+  server: (source) => `${source} is having trouble right now.`,
+}
+
+export const createHttpError = (
+  source: string,
+  status: number,
+  detail: string,
+  retryAfter: string | null = null,
+  now = Date.now(),
+) => {
+  const kind = kindForStatus(status)
+  return createWeatherError(kind, `${MESSAGES[kind](source)} (${status})`, {
+    source,
+    status,
+    detail,
+    retryAfterSeconds: kind === 'rate-limited' ? parseRetryAfter(retryAfter, now) : undefined,
+  })
+}
+
+export const createNetworkError = (source: string, cause: unknown) =>
+  createWeatherError('network', MESSAGES.network(source), { source, cause })
+
+export const createMalformedResponseError = (source: string, cause: unknown) =>
+  createWeatherError('malformed-response', MESSAGES['malformed-response'](source), { source, cause })
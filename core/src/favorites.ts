@@ -0,0 +1,53 @@
+import type { FavoriteLocation, GeoLocation } from './types'
+import { isGeoLocation, isSamePlace } from './geocoding'
+
+const isFavorite = (value: unknown): value is FavoriteLocation => {
+  const favorite = value as Partial<FavoriteLocation> | null
+  return typeof favorite?.id === 'string'
+    && typeof favorite.nickname === 'string'
+    && typeof favorite.addedAt === 'number'
+    && isGeoLocation(favorite.location)
+}
+
+/** Favorites from stored JSON, dropping anything that is not a well-formed entry. */
+export const parseFavorites = (raw: string | null | undefined): FavoriteLocation[] => {
+  const parsed = raw ? (JSON.parse(raw) as unknown) : []
+  return Array.isArray(parsed) ? parsed.filter(isFavorite) : []
+}
+
+/** The favorite pinned for `location`, if any, allowing for providers placing it slightly differently. */
+export const findFavorite = (favorites: FavoriteLocation[], location: GeoLocation) =>
+  favorites.find((favorite) => isSamePlace(favorite.location, location))
+
+/** Appends `favorite` unless its place is already pinned. A blank nickname falls back to the place name. */
+export const addFavorite = (favorites: FavoriteLocation[], favorite: FavoriteLocation) => {
+  if (findFavorite(favorites, favorite.location)) {
+    return favorites
+  }
+  const nickname = favorite.nickname.trim() || favorite.location.name
+  return [...favorites, { ...favorite, nickname }]
+}
+
+/** Renames a favorite; a blank nickname leaves it as it was. */
+export const renameFavorite = (favorites: FavoriteLocation[], id: string, nickname: string) => {
+  const trimmed = nickname.trim()
+  return trimmed
+    ? favorites.map((favorite) => (favorite.id === id ? { ...favorite, nickname: trimmed } : favorite))
+    : favorites
+}
+
+/** Moves a favorite `offset` places along the list, stopping at either end. */
+export const moveFavorite = (favorites: FavoriteLocation[], id: string, offset: number) => {
+  const from = favorites.findIndex((favorite) => favorite.id === id)
+  const to = Math.min(favorites.length - 1, Math.max(0, from + offset))
+  if (from === -1 || from === to) {
+    return favorites
+  }
+  const reordered = [...favorites]
+  const [moved] = reordered.splice(from, 1)
+  reordered.splice(to, 0, moved)
+  return reordered
+}
+
+export const removeFavorite = (favorites: FavoriteLocation[], id: string) =>
+  favorites.filter((favorite) => favorite.id !== id)
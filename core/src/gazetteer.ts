@@ -0,0 +1,141 @@
+import type { GeoLocation } from './types'
+import {
+  AU_STATE_CODE_TO_NAME,
+  CA_PROVINCE_CODE_TO_NAME,
+  DEFAULT_HOME_COUNTRY,
+  US_STATE_CODE_TO_NAME,
+  countryDisplayName,
+  isSamePlace,
+  parseCountryCode,
+} from './geocoding'
+import type { LocationPreferences } from './geocoding'
+import { GAZETTEER_RECORDS } from './gazetteerData'
+import { foldPlaceName, placeNameTokens, placeNameVariants } from './placeNames'
+
+export interface GazetteerSearchOptions extends LocationPreferences {
+  limit?: number
+}
+
+export interface Gazetteer {
+  // Places whose name starts with the text before the first comma, narrowed by any region or
+  // country typed after it ("Portland, OR", "London, UK").
+  search: (query: string, options?: GazetteerSearchOptions) => GeoLocation[]
+  // The bundled entry for a place found elsewhere, e.g. by the geocoding API, if it is the same place.
+  find: (location: GeoLocation) => GeoLocation | undefined
+}
+
+interface GazetteerEntry {
+  key: string
+  regionCode?: string
+  place: GeoLocation
+}
+
+const REGION_CODE_TO_NAME = new Map<string, Map<string, string>>([
+  ['US', US_STATE_CODE_TO_NAME],
+  ['CA', CA_PROVINCE_CODE_TO_NAME],
+  ['AU', AU_STATE_CODE_TO_NAME],
+])
+
+const DEFAULT_SEARCH_LIMIT = 5
+// In powers of ten: a home-country place ranks like one thirty times its size abroad.
+const HOME_COUNTRY_WEIGHT = 1.5
+
+// One entry per spelling, so "St. Louis" is found by typing "st l" as well as "saint l".
+const parseRecord = (record: string): GazetteerEntry[] => {
+  const [name, region, country, population, lat, lon] = record.split('|')
+  const regionName = REGION_CODE_TO_NAME.get(country)?.get(region)
+  const place: GeoLocation = { name, lat: Number(lat), lon: Number(lon), country, population: Number(population) }
+  const state = regionName ?? region
+  if (state) {
+    place.state = state
+  }
+  const regionCode = regionName ? region : undefined
+  return placeNameVariants(name).map((key) => ({ key, regionCode, place }))
+}
+
+// Index of the first entry whose key sorts at or after `key`.
+const lowerBound = (entries: GazetteerEntry[], key: string) => {
+  let low = 0
+  let high = entries.length
+  while (low < high) {
+    const middle = (low + high) >> 1
+    if (entries[middle].key < key) {
+      low = middle + 1
+    } else {
+      high = middle
+    }
+  }
+  return low
+}
+
+// Orders rank tuples element by element, like a sort on several columns.
+const compareRanks = (a: number[], b: number[]) => {
+  const position = a.findIndex((value, index) => value !== b[index])
+  return position === -1 ? 0 : a[position] - b[position]
+}
+
+// A qualifier may still be half typed, so "Portland, O" already narrows to Oregon.
+const matchesQualifier = ({ regionCode, place }: GazetteerEntry, qualifier: string) =>
+  parseCountryCode(qualifier) === place.country
+  || [regionCode, place.state, place.country, countryDisplayName(place.country)].some(
+    (text) => text !== undefined && foldPlaceName(text).startsWith(qualifier),
+  )
+
+/**
+ * Prefix index over `name|region|country|population|lat|lon` records. Searching needs no network,
+ * so suggestions can show on the first keystroke; exact names come first, home-country places
+ * win exact ties, and population orders the rest.
+ */
+export const createGazetteer = (records: string): Gazetteer => {
+  const entries = records
+    .split('\n')
+    .map((record) => record.trim())
+    .filter(Boolean)
+    .flatMap(parseRecord)
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+
+  const search = (
+    query: string,
+    { homeCountry = DEFAULT_HOME_COUNTRY, limit = DEFAULT_SEARCH_LIMIT }: GazetteerSearchOptions = {},
+  ) => {
+    const [namePart, ...qualifierParts] = query.split(',')
+    const prefix = foldPlaceName(namePart)
+    if (!prefix) {
+      return []
+    }
+    const qualifiers = qualifierParts.map(foldPlaceName).filter(Boolean)
+    const home = homeCountry.toUpperCase()
+
+    const ranked: { place: GeoLocation; rank: number[] }[] = []
+    const seen = new Set<GeoLocation>()
+    for (let index = lowerBound(entries, prefix); entries[index]?.key.startsWith(prefix); index += 1) {
+      const entry = entries[index]
+      if (seen.has(entry.place) || !qualifiers.every((qualifier) => matchesQualifier(entry, qualifier))) {
+        continue
+      }
+      seen.add(entry.place)
+      const exact = entry.key === prefix ? 1 : 0
+      const isHome = entry.place.country === home ? 1 : 0
+      const size = Math.log10(entry.place.population ?? 1) + isHome * HOME_COUNTRY_WEIGHT
+      ranked.push({ place: entry.place, rank: [exact, exact * isHome, size] })
+    }
+
+    ranked.sort((a, b) => compareRanks(b.rank, a.rank))
+    return ranked.slice(0, limit).map(({ place }) => place)
+  }
+
+  const find = (location: GeoLocation) => {
+    const key = placeNameTokens(location.name).join(' ')
+    for (let index = lowerBound(entries, key); entries[index]?.key === key; index += 1) {
+      const { place } = entries[index]
+      if (isSamePlace(place, location)) {
+        return place
+      }
+    }
+    return undefined
+  }
+
+  return { search, find }
+}
+
+export const bundledGazetteer = createGazetteer(GAZETTEER_RECORDS)
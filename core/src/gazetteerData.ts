@@ -0,0 +1,366 @@
+// Populated places for offline autocomplete, one per line: name|region|country|population|lat|lon.
+// US, Canadian and Australian regions are postal abbreviations and expand to their full names;
+// elsewhere the region is written out, or left empty for city-states.
+export const GAZETTEER_RECORDS = `
+New York|NY|US|8336817|40.7128|-74.0060
+Los Angeles|CA|US|3898747|34.0522|-118.2437
+Chicago|IL|US|2746388|41.8781|-87.6298
+Houston|TX|US|2304580|29.7604|-95.3698
+Phoenix|AZ|US|1608139|33.4484|-112.0740
+Philadelphia|PA|US|1603797|39.9526|-75.1652
+San Antonio|TX|US|1434625|29.4241|-98.4936
+San Diego|CA|US|1386932|32.7157|-117.1611
+Dallas|TX|US|1304379|32.7767|-96.7970
+San Jose|CA|US|1013240|37.3382|-121.8863
+Austin|TX|US|961855|30.2672|-97.7431
+Jacksonville|FL|US|949611|30.3322|-81.6557
+Fort Worth|TX|US|918915|32.7555|-97.3308
+Columbus|OH|US|905748|39.9612|-82.9988
+Indianapolis|IN|US|887642|39.7684|-86.1581
+Charlotte|NC|US|874579|35.2271|-80.8431
+San Francisco|CA|US|873965|37.7749|-122.4194
+Seattle|WA|US|737015|47.6062|-122.3321
+Denver|CO|US|715522|39.7392|-104.9903
+Washington|DC|US|689545|38.9072|-77.0369
+Nashville|TN|US|689447|36.1627|-86.7816
+Oklahoma City|OK|US|681054|35.4676|-97.5164
+El Paso|TX|US|678815|31.7619|-106.4850
+Boston|MA|US|675647|42.3601|-71.0589
+Portland|OR|US|652503|45.5152|-122.6784
+Las Vegas|NV|US|641903|36.1699|-115.1398
+Detroit|MI|US|639111|42.3314|-83.0458
+Memphis|TN|US|633104|35.1495|-90.0490
+Louisville|KY|US|617638|38.2527|-85.7585
+Baltimore|MD|US|585708|39.2904|-76.6122
+Milwaukee|WI|US|577222|43.0389|-87.9065
+Albuquerque|NM|US|564559|35.0844|-106.6504
+Tucson|AZ|US|542629|32.2226|-110.9747
+Fresno|CA|US|542107|36.7378|-119.7871
+Sacramento|CA|US|524943|38.5816|-121.4944
+Kansas City|MO|US|508090|39.0997|-94.5786
+Mesa|AZ|US|504258|33.4152|-111.8315
+Atlanta|GA|US|498715|33.7490|-84.3880
+Omaha|NE|US|486051|41.2565|-95.9345
+Colorado Springs|CO|US|478961|38.8339|-104.8214
+Raleigh|NC|US|467665|35.7796|-78.6382
+Long Beach|CA|US|466742|33.7701|-118.1937
+Virginia Beach|VA|US|459470|36.8529|-75.9780
+Miami|FL|US|442241|25.7617|-80.1918
+Oakland|CA|US|440646|37.8044|-122.2712
+Minneapolis|MN|US|429954|44.9778|-93.2650
+Tulsa|OK|US|413066|36.1540|-95.9928
+Bakersfield|CA|US|403455|35.3733|-119.0187
+Wichita|KS|US|397532|37.6872|-97.3301
+Arlington|TX|US|394266|32.7357|-97.1081
+Aurora|CO|US|386261|39.7294|-104.8319
+Tampa|FL|US|384959|27.9506|-82.4572
+New Orleans|LA|US|383997|29.9511|-90.0715
+Cleveland|OH|US|372624|41.4993|-81.6944
+Honolulu|HI|US|350964|21.3069|-157.8583
+Anaheim|CA|US|346824|33.8366|-117.9143
+Lexington|KY|US|322570|38.0406|-84.5037
+Stockton|CA|US|320804|37.9577|-121.2908
+Corpus Christi|TX|US|317863|27.8006|-97.3964
+Henderson|NV|US|317610|36.0395|-114.9817
+Riverside|CA|US|314998|33.9533|-117.3962
+Newark|NJ|US|311549|40.7357|-74.1724
+Saint Paul|MN|US|311527|44.9537|-93.0900
+Santa Ana|CA|US|310227|33.7455|-117.8677
+Cincinnati|OH|US|309317|39.1031|-84.5120
+Irvine|CA|US|307670|33.6846|-117.8265
+Orlando|FL|US|307573|28.5383|-81.3792
+Pittsburgh|PA|US|302971|40.4406|-79.9959
+St. Louis|MO|US|301578|38.6270|-90.1994
+Greensboro|NC|US|299035|36.0726|-79.7920
+Jersey City|NJ|US|292449|40.7178|-74.0431
+Anchorage|AK|US|291247|61.2181|-149.9003
+Lincoln|NE|US|291082|40.8136|-96.7026
+Plano|TX|US|285494|33.0198|-96.6989
+Durham|NC|US|283506|35.9940|-78.8986
+Buffalo|NY|US|278349|42.8864|-78.8784
+Chandler|AZ|US|275987|33.3062|-111.8413
+Chula Vista|CA|US|275487|32.6401|-117.0842
+Toledo|OH|US|270871|41.6528|-83.5379
+Madison|WI|US|269840|43.0731|-89.4012
+Gilbert|AZ|US|267918|33.3528|-111.7890
+Reno|NV|US|264165|39.5296|-119.8138
+Fort Wayne|IN|US|263886|41.0793|-85.1394
+North Las Vegas|NV|US|262527|36.1989|-115.1175
+St. Petersburg|FL|US|258308|27.7676|-82.6403
+Lubbock|TX|US|257141|33.5779|-101.8552
+Irving|TX|US|256684|32.8140|-96.9489
+Laredo|TX|US|255205|27.5306|-99.4803
+Winston-Salem|NC|US|249545|36.0999|-80.2442
+Chesapeake|VA|US|249422|36.7682|-76.2875
+Glendale|AZ|US|248325|33.5387|-112.1860
+Garland|TX|US|246018|32.9126|-96.6389
+Scottsdale|AZ|US|241361|33.4942|-111.9261
+Norfolk|VA|US|238005|36.8508|-76.2859
+Boise|ID|US|235684|43.6150|-116.2023
+Fremont|CA|US|230504|37.5485|-121.9886
+Spokane|WA|US|228989|47.6588|-117.4260
+Santa Clarita|CA|US|228673|34.3917|-118.5426
+Baton Rouge|LA|US|227470|30.4515|-91.1871
+Richmond|VA|US|226610|37.5407|-77.4360
+Hialeah|FL|US|223109|25.8576|-80.2781
+San Bernardino|CA|US|222101|34.1083|-117.2898
+Tacoma|WA|US|219346|47.2529|-122.4443
+Modesto|CA|US|218464|37.6391|-120.9969
+Huntsville|AL|US|215006|34.7304|-86.5861
+Des Moines|IA|US|214133|41.5868|-93.6250
+Yonkers|NY|US|211569|40.9312|-73.8988
+Rochester|NY|US|211328|43.1566|-77.6088
+Fayetteville|NC|US|208501|35.0527|-78.8784
+Columbus|GA|US|206922|32.4610|-84.9877
+Worcester|MA|US|206518|42.2626|-71.8023
+Little Rock|AR|US|202591|34.7465|-92.2896
+Augusta|GA|US|202081|33.4735|-82.0105
+Birmingham|AL|US|200733|33.5186|-86.8104
+Montgomery|AL|US|200603|32.3792|-86.3077
+Amarillo|TX|US|200393|35.2220|-101.8313
+Salt Lake City|UT|US|199723|40.7608|-111.8910
+Grand Rapids|MI|US|198917|42.9634|-85.6681
+Overland Park|KS|US|197238|38.9822|-94.6708
+Glendale|CA|US|196543|34.1425|-118.2551
+Tallahassee|FL|US|196169|30.4383|-84.2807
+Sioux Falls|SD|US|192517|43.5446|-96.7311
+Providence|RI|US|190934|41.8240|-71.4128
+Vancouver|WA|US|190915|45.6387|-122.6615
+Knoxville|TN|US|190740|35.9606|-83.9207
+Akron|OH|US|190469|41.0814|-81.5190
+Fort Lauderdale|FL|US|182760|26.1224|-80.1373
+Chattanooga|TN|US|181099|35.0456|-85.3097
+Tempe|AZ|US|180587|33.4255|-111.9400
+Eugene|OR|US|176654|44.0521|-123.0868
+Salem|OR|US|175535|44.9429|-123.0351
+Fort Collins|CO|US|169810|40.5853|-105.0844
+Springfield|MO|US|169176|37.2090|-93.2923
+Springfield|MA|US|155929|42.1015|-72.5898
+Sunnyvale|CA|US|155805|37.3688|-122.0363
+Jackson|MS|US|153701|32.2988|-90.1848
+Charleston|SC|US|150227|32.7765|-79.9311
+Syracuse|NY|US|148620|43.0481|-76.1474
+Savannah|GA|US|147780|32.0809|-81.0912
+Pasadena|CA|US|138699|34.1478|-118.1445
+Dayton|OH|US|137644|39.7589|-84.1916
+Columbia|SC|US|136632|34.0007|-81.0348
+New Haven|CT|US|134023|41.3083|-72.9279
+Fargo|ND|US|125990|46.8772|-96.7898
+Berkeley|CA|US|124321|37.8716|-122.2727
+Ann Arbor|MI|US|123851|42.2808|-83.7430
+Hartford|CT|US|121054|41.7658|-72.6734
+Cambridge|MA|US|118403|42.3736|-71.1097
+Evansville|IN|US|117298|37.9716|-87.5711
+Billings|MT|US|117116|45.7833|-108.5007
+Manchester|NH|US|115644|42.9956|-71.4548
+Provo|UT|US|115162|40.2338|-111.6585
+Springfield|IL|US|114394|39.7817|-89.6501
+Boulder|CO|US|108250|40.0150|-105.2705
+Green Bay|WI|US|107395|44.5133|-88.0133
+Albany|NY|US|99224|42.6526|-73.7562
+Asheville|NC|US|94589|35.5951|-82.5515
+Santa Barbara|CA|US|88665|34.4208|-119.6982
+Santa Fe|NM|US|87505|35.6870|-105.9378
+Duluth|MN|US|86697|46.7867|-92.1005
+Miami Beach|FL|US|82890|25.7907|-80.1300
+Mountain View|CA|US|82376|37.3861|-122.0839
+Flagstaff|AZ|US|76831|35.1983|-111.6513
+Rapid City|SD|US|74703|44.0805|-103.2310
+Missoula|MT|US|73489|46.8721|-113.9940
+Bowling Green|KY|US|72294|36.9685|-86.4808
+Wilmington|DE|US|70898|39.7391|-75.5398
+Palo Alto|CA|US|68572|37.4419|-122.1430
+Portland|ME|US|68408|43.6591|-70.2568
+Cheyenne|WY|US|65132|41.1400|-104.8202
+Bozeman|MT|US|53293|45.6770|-111.0429
+Charleston|WV|US|48864|38.3498|-81.6326
+Burlington|VT|US|44743|44.4759|-73.2121
+Palm Springs|CA|US|44575|33.8303|-116.5453
+Juneau|AK|US|32255|58.3019|-134.4197
+Key West|FL|US|26444|24.5551|-81.7800
+Paris|TX|US|24476|33.6609|-95.5555
+London|KY|US|7900|37.1290|-84.0833
+San Juan||PR|342259|18.4655|-66.1057
+Toronto|ON|CA|2794356|43.6532|-79.3832
+Montreal|QC|CA|1762949|45.5017|-73.5673
+Calgary|AB|CA|1306784|51.0447|-114.0719
+Ottawa|ON|CA|1017449|45.4215|-75.6972
+Edmonton|AB|CA|1010899|53.5461|-113.4938
+Winnipeg|MB|CA|749607|49.8951|-97.1384
+Mississauga|ON|CA|717961|43.5890|-79.6441
+Vancouver|BC|CA|662248|49.2827|-123.1207
+Brampton|ON|CA|656480|43.7315|-79.7624
+Hamilton|ON|CA|569353|43.2557|-79.8711
+Surrey|BC|CA|568322|49.1913|-122.8490
+Quebec City|QC|CA|549459|46.8139|-71.2080
+Halifax|NS|CA|439819|44.6488|-63.5752
+London|ON|CA|422324|42.9849|-81.2453
+Saskatoon|SK|CA|266141|52.1332|-106.6700
+Windsor|ON|CA|229660|42.3149|-83.0364
+Regina|SK|CA|226404|50.4452|-104.6189
+Kelowna|BC|CA|144576|49.8880|-119.4960
+Kingston|ON|CA|132485|44.2312|-76.4860
+St. John's|NL|CA|110525|47.5615|-52.7126
+Victoria|BC|CA|91867|48.4284|-123.3656
+Fredericton|NB|CA|63116|45.9636|-66.6431
+Charlottetown|PE|CA|38809|46.2382|-63.1311
+Stratford|ON|CA|33232|43.3701|-80.9822
+Sydney|NS|CA|29904|46.1368|-60.1942
+Whitehorse|YT|CA|28201|60.7212|-135.0568
+Yellowknife|NT|CA|20340|62.4540|-114.3718
+Iqaluit|NU|CA|7429|63.7467|-68.5170
+Sydney|NSW|AU|5312163|-33.8688|151.2093
+Melbourne|VIC|AU|5078193|-37.8136|144.9631
+Brisbane|QLD|AU|2560720|-27.4698|153.0251
+Perth|WA|AU|2085973|-31.9505|115.8605
+Adelaide|SA|AU|1376601|-34.9285|138.6007
+Gold Coast|QLD|AU|709495|-28.0167|153.4000
+Canberra|ACT|AU|431380|-35.2809|149.1300
+Newcastle|NSW|AU|322278|-32.9283|151.7817
+Geelong|VIC|AU|268277|-38.1499|144.3617
+Hobart|TAS|AU|247068|-42.8821|147.3272
+Cairns|QLD|AU|153952|-16.9186|145.7781
+Darwin|NT|AU|147255|-12.4634|130.8456
+Auckland|Auckland|NZ|1657200|-36.8485|174.7633
+Christchurch|Canterbury|NZ|381500|-43.5321|172.6362
+Wellington|Wellington|NZ|215400|-41.2865|174.7762
+London|England|GB|8982000|51.5074|-0.1278
+Birmingham|England|GB|1144900|52.4862|-1.8904
+Leeds|England|GB|793139|53.8008|-1.5491
+Glasgow|Scotland|GB|635640|55.8642|-4.2518
+Sheffield|England|GB|584853|53.3811|-1.4701
+Manchester|England|GB|552858|53.4808|-2.2426
+Edinburgh|Scotland|GB|524930|55.9533|-3.1883
+Liverpool|England|GB|498042|53.4084|-2.9916
+Bristol|England|GB|463400|51.4545|-2.5879
+Cardiff|Wales|GB|362756|51.4816|-3.1791
+Leicester|England|GB|354224|52.6369|-1.1398
+Belfast|Northern Ireland|GB|345418|54.5973|-5.9301
+Nottingham|England|GB|321500|52.9548|-1.1581
+Newcastle upon Tyne|England|GB|300196|54.9783|-1.6178
+Brighton|England|GB|229700|50.8225|-0.1372
+York|England|GB|210618|53.9600|-1.0873
+Aberdeen|Scotland|GB|198590|57.1497|-2.0943
+Oxford|England|GB|152450|51.7520|-1.2577
+Cambridge|England|GB|145700|52.2053|0.1218
+Stratford-upon-Avon|England|GB|30495|52.1917|-1.7073
+Dublin|Leinster|IE|592713|53.3498|-6.2603
+Cork|Munster|IE|222526|51.8985|-8.4756
+Reykjavik|Capital Region|IS|131136|64.1466|-21.9426
+Paris|Île-de-France|FR|2148271|48.8566|2.3522
+Marseille|Provence-Alpes-Côte d'Azur|FR|870018|43.2965|5.3698
+Lyon|Auvergne-Rhône-Alpes|FR|516092|45.7640|4.8357
+Toulouse|Occitanie|FR|493465|43.6047|1.4442
+Nice|Provence-Alpes-Côte d'Azur|FR|342669|43.7102|7.2620
+Bordeaux|Nouvelle-Aquitaine|FR|257068|44.8378|-0.5792
+Berlin|Berlin|DE|3664088|52.5200|13.4050
+Hamburg|Hamburg|DE|1852478|53.5511|9.9937
+Munich|Bavaria|DE|1488202|48.1351|11.5820
+Cologne|North Rhine-Westphalia|DE|1083498|50.9375|6.9603
+Frankfurt am Main|Hesse|DE|764104|50.1109|8.6821
+Stuttgart|Baden-Württemberg|DE|630305|48.7758|9.1829
+Düsseldorf|North Rhine-Westphalia|DE|620523|51.2277|6.7735
+Amsterdam|North Holland|NL|872680|52.3676|4.9041
+Rotterdam|South Holland|NL|651446|51.9244|4.4777
+The Hague|South Holland|NL|545838|52.0705|4.3007
+Brussels|Brussels-Capital|BE|1208542|50.8503|4.3517
+Antwerp|Flanders|BE|529247|51.2194|4.4025
+Vienna|Vienna|AT|1911191|48.2082|16.3738
+Zurich|Zurich|CH|421878|47.3769|8.5417
+Geneva|Geneva|CH|203856|46.2044|6.1432
+Madrid|Community of Madrid|ES|3305408|40.4168|-3.7038
+Barcelona|Catalonia|ES|1636193|41.3874|2.1686
+Valencia|Valencian Community|ES|792492|39.4699|-0.3763
+Seville|Andalusia|ES|684234|37.3891|-5.9845
+Málaga|Andalusia|ES|577405|36.7213|-4.4214
+Lisbon|Lisbon|PT|545923|38.7223|-9.1393
+Porto|Porto|PT|231800|41.1579|-8.6291
+Rome|Lazio|IT|2761632|41.9028|12.4964
+Milan|Lombardy|IT|1371498|45.4642|9.1900
+Naples|Campania|IT|914758|40.8518|14.2681
+Turin|Piedmont|IT|848885|45.0703|7.6869
+Florence|Tuscany|IT|367150|43.7696|11.2558
+Venice|Veneto|IT|258685|45.4408|12.3155
+Copenhagen|Capital Region|DK|644431|55.6761|12.5683
+Stockholm|Stockholm|SE|975904|59.3293|18.0686
+Gothenburg|Västra Götaland|SE|583056|57.7089|11.9746
+Oslo|Oslo|NO|697010|59.9139|10.7522
+Helsinki|Uusimaa|FI|656920|60.1699|24.9384
+Warsaw|Masovia|PL|1793579|52.2297|21.0122
+Kraków|Lesser Poland|PL|779115|50.0647|19.9450
+Prague|Prague|CZ|1335084|50.0755|14.4378
+Budapest|Budapest|HU|1752286|47.4979|19.0402
+Bucharest|Bucharest|RO|1883425|44.4268|26.1025
+Sofia|Sofia City|BG|1241675|42.6977|23.3219
+Belgrade|Belgrade|RS|1166763|44.7866|20.4489
+Zagreb|Zagreb|HR|767131|45.8150|15.9819
+Athens|Attica|GR|664046|37.9838|23.7275
+Istanbul|Istanbul|TR|15462452|41.0082|28.9784
+Ankara|Ankara|TR|5663322|39.9334|32.8597
+Kyiv|Kyiv|UA|2962180|50.4501|30.5234
+Moscow|Moscow|RU|12506468|55.7558|37.6173
+Saint Petersburg|Saint Petersburg|RU|5384342|59.9311|30.3609
+Tokyo|Tokyo|JP|13960000|35.6762|139.6503
+Yokohama|Kanagawa|JP|3748781|35.4437|139.6380
+Osaka|Osaka|JP|2691185|34.6937|135.5023
+Sapporo|Hokkaido|JP|1973395|43.0618|141.3545
+Kyoto|Kyoto|JP|1475183|35.0116|135.7681
+Seoul|Seoul|KR|9776000|37.5665|126.9780
+Busan|Busan|KR|3429000|35.1796|129.0756
+Shanghai|Shanghai|CN|24870000|31.2304|121.4737
+Beijing|Beijing|CN|21540000|39.9042|116.4074
+Chengdu|Sichuan|CN|16330000|30.5728|104.0668
+Guangzhou|Guangdong|CN|15300000|23.1291|113.2644
+Shenzhen|Guangdong|CN|12530000|22.5431|114.0579
+Hong Kong||HK|7482500|22.3193|114.1694
+Taipei|Taipei|TW|2646204|25.0330|121.5654
+Manila|Metro Manila|PH|1846513|14.5995|120.9842
+Ho Chi Minh City|Ho Chi Minh City|VN|8993082|10.8231|106.6297
+Hanoi|Hanoi|VN|8053663|21.0278|105.8342
+Bangkok|Bangkok|TH|10539000|13.7563|100.5018
+Kuala Lumpur|Kuala Lumpur|MY|1808000|3.1390|101.6869
+Singapore||SG|5685800|1.3521|103.8198
+Jakarta|Jakarta|ID|10562088|-6.2088|106.8456
+Mumbai|Maharashtra|IN|12442373|19.0760|72.8777
+Delhi|Delhi|IN|11034555|28.7041|77.1025
+Bengaluru|Karnataka|IN|8443675|12.9716|77.5946
+Hyderabad|Telangana|IN|6809970|17.3850|78.4867
+Chennai|Tamil Nadu|IN|4646732|13.0827|80.2707
+Kolkata|West Bengal|IN|4496694|22.5726|88.3639
+Karachi|Sindh|PK|14910352|24.8607|67.0011
+Lahore|Punjab|PK|11126285|31.5204|74.3587
+Dhaka|Dhaka|BD|8906039|23.8103|90.4125
+Tehran|Tehran|IR|8693706|35.6892|51.3890
+Riyadh|Riyadh|SA|7676654|24.7136|46.6753
+Dubai|Dubai|AE|3331420|25.2048|55.2708
+Abu Dhabi|Abu Dhabi|AE|1483000|24.4539|54.3773
+Doha|Doha|QA|956457|25.2854|51.5310
+Jerusalem|Jerusalem|IL|936425|31.7683|35.2137
+Tel Aviv|Tel Aviv|IL|460613|32.0853|34.7818
+Cairo|Cairo|EG|9539673|30.0444|31.2357
+Lagos|Lagos|NG|8048430|6.5244|3.3792
+Johannesburg|Gauteng|ZA|5635127|-26.2041|28.0473
+Cape Town|Western Cape|ZA|4618000|-33.9249|18.4241
+Nairobi|Nairobi|KE|4397073|-1.2921|36.8219
+Addis Ababa|Addis Ababa|ET|3384569|9.0300|38.7400
+Casablanca|Casablanca-Settat|MA|3359818|33.5731|-7.5898
+Marrakesh|Marrakesh-Safi|MA|928850|31.6295|-7.9811
+Accra|Greater Accra|GH|2291352|5.6037|-0.1870
+Mexico City|Mexico City|MX|9209944|19.4326|-99.1332
+Guadalajara|Jalisco|MX|1385629|20.6597|-103.3496
+Monterrey|Nuevo León|MX|1142994|25.6866|-100.3161
+Cancún|Quintana Roo|MX|888797|21.1619|-86.8515
+Havana|Havana|CU|2130081|23.1136|-82.3666
+Panama City|Panamá|PA|880691|8.9824|-79.5199
+San José|San José|CR|342188|9.9281|-84.0907
+São Paulo|São Paulo|BR|12325232|-23.5505|-46.6333
+Rio de Janeiro|Rio de Janeiro|BR|6747815|-22.9068|-43.1729
+Brasília|Federal District|BR|3055149|-15.7975|-47.8919
+Lima|Lima|PE|9751717|-12.0464|-77.0428
+Bogotá|Bogotá|CO|7412566|4.7110|-74.0721
+Santiago|Santiago Metropolitan|CL|6257516|-33.4489|-70.6693
+Buenos Aires|Buenos Aires|AR|3075646|-34.6037|-58.3816
+Quito|Pichincha|EC|2011388|-0.1807|-78.4678
+Caracas|Capital District|VE|1943901|10.4806|-66.9036
+Montevideo|Montevideo|UY|1319108|-34.9011|-56.1645
+`
@@ -0,0 +1,389 @@
+import type { GeoLocation, LocationSuggestion } from './types'
+import { foldPlaceName, matchNameTokens, placeNameTokens } from './placeNames'
+
+const regionDisplayNames = typeof Intl !== 'undefined' && 'DisplayNames' in Intl
+  ? new Intl.DisplayNames(['en'], { type: 'region' })
+  : null
+
+export const US_STATE_CODE_TO_NAME = new Map<string, string>([
+  ['AL', 'Alabama'],
+  ['AK', 'Alaska'],
+  ['AZ', 'Arizona'],
+  ['AR', 'Arkansas'],
+  ['CA', 'California'],
+  ['CO', 'Colorado'],
+  ['CT', 'Connecticut'],
+  ['DE', 'Delaware'],
+  ['FL', 'Florida'],
+  ['GA', 'Georgia'],
+  ['HI', 'Hawaii'],
+  ['ID', 'Idaho'],
+  ['IL', 'Illinois'],
+  ['IN', 'Indiana'],
+  ['IA', 'Iowa'],
+  ['KS', 'Kansas'],
+  ['KY', 'Kentucky'],
+  ['LA', 'Louisiana'],
+  ['ME', 'Maine'],
+  ['MD', 'Maryland'],
+  ['MA', 'Massachusetts'],
+  ['MI', 'Michigan'],
+  ['MN', 'Minnesota'],
+  ['MS', 'Mississippi'],
+  ['MO', 'Missouri'],
+  ['MT', 'Montana'],
+  ['NE', 'Nebraska'],
+  ['NV', 'Nevada'],
+  ['NH', 'New Hampshire'],
+  ['NJ', 'New Jersey'],
+  ['NM', 'New Mexico'],
+  ['NY', 'New York'],
+  ['NC', 'North Carolina'],
+  ['ND', 'North Dakota'],
+  ['OH', 'Ohio'],
+  ['OK', 'Oklahoma'],
+  ['OR', 'Oregon'],
+  ['PA', 'Pennsylvania'],
+  ['RI', 'Rhode Island'],
+  ['SC', 'South Carolina'],
+  ['SD', 'South Dakota'],
+  ['TN', 'Tennessee'],
+  ['TX', 'Texas'],
+  ['UT', 'Utah'],
+  ['VT', 'Vermont'],
+  ['VA', 'Virginia'],
+  ['WA', 'Washington'],
+  ['WV', 'West Virginia'],
+  ['WI', 'Wisconsin'],
+  ['WY', 'Wyoming'],
+  ['DC', 'District of Columbia'],
+])
+
+export const CA_PROVINCE_CODE_TO_NAME = new Map<string, string>([
+  ['AB', 'Alberta'],
+  ['BC', 'British Columbia'],
+  ['MB', 'Manitoba'],
+  ['NB', 'New Brunswick'],
+  ['NL', 'Newfoundland and Labrador'],
+  ['NS', 'Nova Scotia'],
+  ['NT', 'Northwest Territories'],
+  ['NU', 'Nunavut'],
+  ['ON', 'Ontario'],
+  ['PE', 'Prince Edward Island'],
+  ['QC', 'Quebec'],
+  ['SK', 'Saskatchewan'],
+  ['YT', 'Yukon'],
+])
+
+export const AU_STATE_CODE_TO_NAME = new Map<string, string>([
+  ['ACT', 'Australian Capital Territory'],
+  ['NSW', 'New South Wales'],
+  ['NT', 'Northern Territory'],
+  ['QLD', 'Queensland'],
+  ['SA', 'South Australia'],
+  ['TAS', 'Tasmania'],
+  ['VIC', 'Victoria'],
+  ['WA', 'Western Australia'],
+])
+
+const invertRegionCodes = (codes: Map<string, string>) =>
+  new Map<string, string>(Array.from(codes.entries()).map(([code, name]) => [name.toLowerCase(), code]))
+
+export const US_STATE_NAME_TO_CODE = invertRegionCodes(US_STATE_CODE_TO_NAME)
+
+// Countries whose first-level regions are usually written as postal abbreviations.
+const REGION_NAME_TO_CODE = new Map<string, Map<string, string>>([
+  ['US', US_STATE_NAME_TO_CODE],
+  ['CA', invertRegionCodes(CA_PROVINCE_CODE_TO_NAME)],
+  ['AU', invertRegionCodes(AU_STATE_CODE_TO_NAME)],
+])
+
+const KNOWN_REGION_CODES = new Set(
+  Array.from(REGION_NAME_TO_CODE.values()).flatMap((names) => Array.from(names.values())),
+)
+
+// Common names that are not ISO 3166 codes.
+const COUNTRY_ALIASES = new Map<string, string>([
+  ['uk', 'GB'],
+  ['usa', 'US'],
+])
+
+export const DEFAULT_HOME_COUNTRY = 'US'
+
+const COUNTRY_CODE_PATTERN = /^[A-Za-z]{2}$/
+
+export interface LocationPreferences {
+  // ISO 3166 code of the country the user mostly searches in; same-name places there rank first.
+  homeCountry?: string
+}
+
+/**
+ * Picks the home country from an explicit setting, then the region of a locale such as
+ * `en-GB`, then `DEFAULT_HOME_COUNTRY`.
+ */
+export const resolveHomeCountry = (configured?: string, locale?: string): string => {
+  const candidate = configured?.trim()
+  if (candidate && COUNTRY_CODE_PATTERN.test(candidate)) {
+    return candidate.toUpperCase()
+  }
+  const localeRegion = locale?.split(/[-_]/).slice(1).find((part) => COUNTRY_CODE_PATTERN.test(part))
+  return localeRegion?.toUpperCase() ?? DEFAULT_HOME_COUNTRY
+}
+
+/** English name of a country code, e.g. "France" for `FR`, where the runtime knows it. */
+export const countryDisplayName = (code: string): string | undefined => regionDisplayNames?.of(code)
+
+/** Reads a two-letter country code or a common alias such as "UK"; anything else is `undefined`. */
+export const parseCountryCode = (text: string): string | undefined => {
+  const normalized = text.trim().toLowerCase()
+  const alias = COUNTRY_ALIASES.get(normalized)
+  if (alias) {
+    return alias
+  }
+  if (!COUNTRY_CODE_PATTERN.test(normalized)) {
+    return undefined
+  }
+  const code = normalized.toUpperCase()
+  // Display names echo unknown codes back, which filters out look-alikes such as "NY".
+  return countryDisplayName(code) === code ? undefined : code
+}
+
+const splitWords = (text: string) => foldPlaceName(text).split(' ').filter(Boolean)
+
+// Postal abbreviation where the country has them ("Ontario" -> "ON"), otherwise nothing.
+const regionCodeFor = (location: GeoLocation) => {
+  const state = location.state?.trim()
+  if (!state) {
+    return undefined
+  }
+  const code = REGION_NAME_TO_CODE.get(location.country.toUpperCase())?.get(state.toLowerCase())
+  return code ?? (state.length === 2 ? state.toUpperCase() : undefined)
+}
+
+export interface LocationMatch {
+  location: GeoLocation
+  // How fully the query describes this place, from 0 (nothing in common) to 1 (every typed word
+  // accounted for by its name, region or country). Independent of the other options.
+  confidence: number
+  // Ranking points, which also count hints, the home country and population. Only comparable
+  // between matches from the same ranking.
+  score: number
+}
+
+const HOME_COUNTRY_BONUS = 20
+const COUNTRY_MATCH_BONUS = 40
+const COUNTRY_MISMATCH_PENALTY = 20
+const REGION_MATCH_BONUS = 25
+const REGION_MISMATCH_PENALTY = 15
+// Most confidence a place can lose to typed words it does not account for.
+const UNEXPLAINED_WORDS_WEIGHT = 0.4
+// Runners-up this close to the winner are too close to call. A region, country or home-country
+// hint settles a tie outright; population alone does not.
+const AMBIGUITY_MARGIN = 10
+
+// Leans towards the larger of two same-name places: a city of a million gains 6 over a village of
+// a thousand, which never outweighs the home country.
+const populationBonus = (population?: number) =>
+  population ? Math.max(0, Math.log10(population) - 3) * 2 : 0
+
+/**
+ * Ranks geocoding results for a query, best first. Words of each place's name pair up with the
+ * typed words (see `matchNameTokens`), a region or country in the query lifts the places it
+ * names above the rest, and the home country and population settle what remains. Ties keep the
+ * provider's order.
+ */
+export const rankLocationMatches = (
+  query: string,
+  options: GeoLocation[],
+  { homeCountry = DEFAULT_HOME_COUNTRY }: LocationPreferences = {},
+): LocationMatch[] => {
+  const home = homeCountry.toUpperCase()
+  const paddedQuery = ` ${splitWords(query).join(' ')} `
+  const containsPhrase = (phrase: string) => {
+    const words = splitWords(phrase)
+    return words.length > 0 && paddedQuery.includes(` ${words.join(' ')} `)
+  }
+
+  // Short codes double as ordinary words ("on", "in", "am"), so only the qualifier after the
+  // first comma is read for them: "London, ON" or "Paris, TX".
+  const commaIndex = query.indexOf(',')
+  const qualifierCodes = new Set(
+    commaIndex === -1 ? [] : splitWords(query.slice(commaIndex + 1)).map((word) => word.toUpperCase()),
+  )
+
+  const countryAliases = (code: string) =>
+    Array.from(COUNTRY_ALIASES).filter(([, aliasCode]) => aliasCode === code).map(([alias]) => alias)
+
+  const matchesCountryFromOption = (countryCode: string) => {
+    const code = countryCode.toUpperCase()
+    if (qualifierCodes.has(code)) {
+      return true
+    }
+    if (countryAliases(code).some(containsPhrase)) {
+      return true
+    }
+    const countryName = countryDisplayName(code)
+    return countryName ? containsPhrase(countryName) : false
+  }
+
+  const hasCountryHints = options.some((option) => matchesCountryFromOption(option.country))
+
+  const matchesRegionFromOption = (option: GeoLocation) => {
+    if (!option.state) {
+      return false
+    }
+    const code = regionCodeFor(option)
+    return (code !== undefined && qualifierCodes.has(code)) || containsPhrase(option.state)
+  }
+
+  const hasRegionHints = Array.from(qualifierCodes).some((code) => KNOWN_REGION_CODES.has(code))
+    || Array.from(REGION_NAME_TO_CODE.values()).some((names) => Array.from(names.keys()).some(containsPhrase))
+    || options.some(matchesRegionFromOption)
+
+  // With a comma, only the words before it can spell the name; without one, any word can.
+  const nameTokens = placeNameTokens(commaIndex === -1 ? query : query.slice(0, commaIndex))
+  const nameTokenCount = nameTokens.length
+  const typedTokens = commaIndex === -1 ? nameTokens : [...nameTokens, ...splitWords(query.slice(commaIndex + 1))]
+  const typedLength = typedTokens.reduce((sum, token) => sum + token.length, 0)
+
+  // Typed words a place's region or country accounts for; codes only count after the comma.
+  const explainsToken = (option: GeoLocation, token: string, inQualifier: boolean) => {
+    const country = option.country.toUpperCase()
+    const regionWords = splitWords(option.state ?? '')
+    const countryWords = [...splitWords(countryDisplayName(country) ?? ''), ...countryAliases(country)]
+    if (regionWords.includes(token) || countryWords.includes(token)) {
+      return true
+    }
+    return inQualifier && (token === country.toLowerCase() || token === regionCodeFor(option)?.toLowerCase())
+  }
+
+  const scored = options.map((option, index) => {
+    const { score: nameScore, used } = matchNameTokens(nameTokens, option.name)
+    const unexplainedLength = typedTokens.reduce(
+      (sum, token, position) =>
+        used.has(position) || explainsToken(option, token, position >= nameTokenCount) ? sum : sum + token.length,
+      0,
+    )
+    const coverage = typedLength ? 1 - unexplainedLength / typedLength : 0
+    const confidence = nameScore * (1 - UNEXPLAINED_WORDS_WEIGHT * (1 - coverage))
+
+    let score = confidence * 100
+    if (matchesCountryFromOption(option.country)) {
+      score += COUNTRY_MATCH_BONUS
+    } else if (hasCountryHints) {
+      score -= COUNTRY_MISMATCH_PENALTY
+    }
+    if (matchesRegionFromOption(option)) {
+      score += REGION_MATCH_BONUS
+    } else if (hasRegionHints) {
+      score -= REGION_MISMATCH_PENALTY
+    }
+    if (option.country.toUpperCase() === home) {
+      score += HOME_COUNTRY_BONUS
+    }
+    score += populationBonus(option.population)
+
+    return { location: option, confidence, score, index }
+  })
+
+  scored.sort((a, b) => (a.score === b.score ? a.index - b.index : b.score - a.score))
+  return scored.map(({ location, confidence, score }) => ({ location, confidence, score }))
+}
+
+/**
+ * The winner of a ranking plus every distinct place scoring within `AMBIGUITY_MARGIN` of it. More
+ * than one entry means the query could reasonably mean any of them ("Springfield", "Portland").
+ */
+export const findCloseMatches = (matches: LocationMatch[]): LocationMatch[] => {
+  const [best] = matches
+  if (!best) {
+    return []
+  }
+  const close: LocationMatch[] = []
+  matches.forEach((match) => {
+    const isDuplicate = close.some((kept) => isSamePlace(kept.location, match.location))
+    if (best.score - match.score <= AMBIGUITY_MARGIN && !isDuplicate) {
+      close.push(match)
+    }
+  })
+  return close
+}
+
+export const pickBestMatch = (
+  query: string,
+  options: GeoLocation[],
+  preferences: LocationPreferences = {},
+): GeoLocation | null => rankLocationMatches(query, options, preferences)[0]?.location ?? null
+
+/** Whether stored JSON still has the shape of a `GeoLocation`. */
+export const isGeoLocation = (value: unknown): value is GeoLocation => {
+  const location = value as Partial<GeoLocation> | null
+  return typeof location?.name === 'string'
+    && typeof location.lat === 'number'
+    && typeof location.lon === 'number'
+    && typeof location.country === 'string'
+}
+
+// Geocoders disagree on a town's centre by a few kilometres at most.
+const SAME_PLACE_DEGREES = 0.25
+
+/** Whether two results name the same town, allowing for providers placing its centre differently. */
+export const isSamePlace = (a: GeoLocation, b: GeoLocation) =>
+  placeNameTokens(a.name).join(' ') === placeNameTokens(b.name).join(' ')
+  && a.country.toUpperCase() === b.country.toUpperCase()
+  && Math.abs(a.lat - b.lat) <= SAME_PLACE_DEGREES
+  && Math.abs(a.lon - b.lon) <= SAME_PLACE_DEGREES
+
+const buildLocationKey = (location: GeoLocation) => [
+  location.name.trim().toLowerCase(),
+  location.state?.trim().toLowerCase() ?? '',
+  location.country.trim().toUpperCase(),
+  location.lat,
+  location.lon,
+].join('|')
+
+export const dedupeLocations = (locations: GeoLocation[]): GeoLocation[] => {
+  const seen = new Set<string>()
+  return locations.filter((location) => {
+    const key = buildLocationKey(location)
+
+    if (seen.has(key)) {
+      return false
+    }
+
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * "City, REGION" for places in the home country and "City, REGION, CC" elsewhere, e.g.
+ * "Louisville, KY" or "Toronto, ON, CA". Regions without a known abbreviation keep their name.
+ */
+export const formatLocationLabel = (
+  location: GeoLocation,
+  { homeCountry = DEFAULT_HOME_COUNTRY }: LocationPreferences = {},
+): string => {
+  const parts = [location.name]
+  const region = regionCodeFor(location) ?? location.state?.trim()
+  if (region && region !== location.name) {
+    parts.push(region)
+  }
+  const country = location.country.trim().toUpperCase()
+  if (country && country !== homeCountry.toUpperCase()) {
+    parts.push(country)
+  }
+  return parts.join(', ')
+}
+
+export const dedupeSuggestions = (items: LocationSuggestion[]): LocationSuggestion[] => {
+  const seen = new Set<string>()
+  return items.filter((item) => {
+    const key = buildLocationKey(item.location)
+    if (seen.has(key)) {
+      return false
+    }
+    seen.add(key)
+    return true
+  })
+}
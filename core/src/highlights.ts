@@ -0,0 +1,272 @@
+import type { ForecastEntry, OptimisticHighlight } from './types'
+
+const average = (values: number[]) => {
+  if (!values.length) {
+    return 0
+  }
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+const toMiles = (meters: number) => meters / 1609.34
+const toKilometers = (meters: number) => meters / 1000
+const metersPerSecondToKph = (mps: number) => mps * 3.6
+
+export const buildSkySummary = (entry: Pick<ForecastEntry, 'weather' | 'clouds'>): string => {
+  const primary = entry.weather?.[0]
+  const condition = primary?.main ?? 'Clear'
+  const cloudiness = entry.clouds?.all ?? 0
+
+  switch (condition) {
+    case 'Clear':
+      return 'Sun-forward skies and bright horizons on deck.'
+    case 'Clouds':
+      return cloudiness > 70
+        ? 'Soft, filtered daylight keeps the vibe relaxed.'
+        : 'Blue sky breaks trade places with playful clouds.'
+    case 'Rain':
+    case 'Drizzle':
+      return 'Nature is topping off the reservoirs—perfect excuse for a cozy plan.'
+    case 'Thunderstorm':
+      return 'Electric skies bring drama—front-row seats from indoors highly encouraged.'
+    case 'Snow':
+      return 'Fresh flakes incoming—ideal backdrop for quiet walks and winter photos.'
+    case 'Mist':
+    case 'Fog':
+    case 'Haze':
+      return 'Dreamy mist sets the scene—time to embrace the cinematic atmosphere.'
+    default:
+      return 'Atmosphere is mixing things up—a great day to follow your curiosity.'
+  }
+}
+
+export const craftHighlights = (
+  horizon: ForecastEntry[],
+  units: 'metric' | 'imperial',
+  timezoneOffsetSeconds: number,
+): OptimisticHighlight[] => {
+  if (!horizon.length) {
+    return []
+  }
+
+  const normalizedPopValues = horizon.map((entry) => {
+    const value = entry.pop ?? 0
+    if (Number.isNaN(value)) {
+      return 0
+    }
+    return Math.min(Math.max(value, 0), 1)
+  })
+
+  const popsWithData = horizon
+    .map((entry) => entry.pop)
+    .filter((pop): pop is number => typeof pop === 'number' && !Number.isNaN(pop))
+
+  const wetBlocks = horizon.filter((entry) => {
+    const precipitationVolume = (entry.rain?.['3h'] ?? 0) + (entry.snow?.['3h'] ?? 0)
+    const wetWeather = entry.weather.some((condition) =>
+      ['Rain', 'Drizzle', 'Thunderstorm', 'Snow'].includes(condition.main),
+    )
+    const highPop = (entry.pop ?? 0) >= 0.4
+    return precipitationVolume > 0 || wetWeather || highPop
+  }).length
+
+  const avgPopValue = normalizedPopValues.length ? average(normalizedPopValues) : 0
+  const dryShareFromPop = 1 - avgPopValue
+  const wetPenalty = 1 - wetBlocks / horizon.length
+  let drynessRatio = dryShareFromPop * Math.max(wetPenalty, 0)
+  drynessRatio = Math.max(0, Math.min(1, drynessRatio))
+  const avgDryness = Math.round(drynessRatio * 100)
+  const rainChancePercent = Math.round((1 - drynessRatio) * 100)
+  const first = horizon[0]
+
+  // Repaired payloads may lack some readings; the highlights built from them are skipped.
+  const cloudCovers = horizon
+    .map((entry) => entry.clouds?.all)
+    .filter((cover): cover is number => typeof cover === 'number')
+  const cloudOpenings = Math.round(average(cloudCovers.map((cover) => 100 - cover)))
+  const avgCloudCover = Math.round(average(cloudCovers))
+  const humidity = first.main.humidity
+  const feelsGap = first.main.feels_like - first.main.temp
+  const visibilityMeters = first.visibility
+  const windSpeed = first.wind?.speed
+  const gust = first.wind?.gust
+
+  const isMetric = units === 'metric'
+  const visibilityUnits = isMetric ? 'km' : 'mi'
+  const windUnits = isMetric ? 'km/h' : 'mph'
+  const gustValue = gust ? (isMetric ? metersPerSecondToKph(gust) : gust) : undefined
+  const unitsSuffix = units === 'metric' ? '°C' : '°F'
+  const feelsOffset = Math.round(feelsGap)
+  const feelsOffsetDisplay = `${Math.abs(feelsOffset)}${unitsSuffix}`
+  const feelsSignedDisplay = feelsOffset === 0
+    ? `0${unitsSuffix}`
+    : `${feelsOffset > 0 ? '+' : ''}${feelsOffset}${unitsSuffix}`
+
+  const highlights: OptimisticHighlight[] = []
+
+  highlights.push(
+    avgDryness >= 55
+      ? {
+          id: 'dryness',
+          title: 'Dry Skies Bias',
+          takeaway: `${avgDryness}% odds you stay splash-free.`,
+          detail: avgDryness === 100
+            ? 'Skies look bone-dry—perfect excuse to plan something outside.'
+            : 'Still, a pocket umbrella doubles as a sunshade—win-win.',
+          heroStatValue: `${avgDryness}%`,
+          heroStatLabel: 'Dry skies odds',
+          metricLabel: 'Rain chance',
+          metricValue: `${rainChancePercent}%`,
+        }
+      : {
+          id: 'refresh',
+          title: 'Sky Refills Incoming',
+          takeaway: `${avgDryness}% dry-window potential between the refills.`,
+          detail: popsWithData.length
+            ? `Rain chances near ${rainChancePercent}% mean the plants win—use the ${avgDryness}% dry breaks for fresh air or errand dashes.`
+            : 'Radar hints at on-and-off showers—embrace indoor cozy time and watch for quick clearing moments.',
+          heroStatValue: `${avgDryness}%`,
+          heroStatLabel: 'Dry window odds',
+          metricLabel: 'Rain chance',
+          metricValue: `${rainChancePercent}%`,
+        },
+  )
+
+  if (cloudCovers.length) {
+    highlights.push({
+      id: 'clouds',
+      title: 'Face Melt Factor',
+      takeaway: `${cloudOpenings}% odds the sun shows up so hard your face melts (in the best way).`,
+      detail: 'Cue the SPF and the grin—the sky’s ready for full-send sunshine sessions.',
+      heroStatValue: `${cloudOpenings}%`,
+      heroStatLabel: 'Sun splash',
+      metricLabel: 'Avg cloud cover',
+      metricValue: `${avgCloudCover}%`,
+    })
+  }
+
+  if (Math.abs(feelsGap) <= 1.5) {
+    highlights.push({
+      id: 'feels-like',
+      title: 'Comfort Index',
+      takeaway: 'Feels-like temps match the actual read—no wardrobe curveballs.',
+      heroStatValue: feelsOffsetDisplay,
+      heroStatLabel: 'Feels diff',
+      metricLabel: 'Feels difference',
+      metricValue: feelsSignedDisplay,
+    })
+  } else if (feelsGap < 0) {
+    highlights.push({
+      id: 'cooler',
+      title: 'Built-In Breeze',
+      takeaway: `Feels about ${Math.abs(feelsOffset)}° cooler than the thermometer—prime for active plans.`,
+      heroStatValue: feelsOffsetDisplay,
+      heroStatLabel: 'Feels cooler',
+      metricLabel: 'Feels difference',
+      metricValue: feelsSignedDisplay,
+    })
+  } else {
+    highlights.push({
+      id: 'warmer',
+      title: 'Cozy Warmth',
+      takeaway: `Feels around ${feelsOffset}° warmer—nature's heated blanket.`,
+      heroStatValue: feelsOffsetDisplay,
+      heroStatLabel: 'Feels warmer',
+      metricLabel: 'Feels difference',
+      metricValue: feelsSignedDisplay,
+    })
+  }
+
+  if (humidity !== undefined) {
+    highlights.push(
+      humidity <= 60
+        ? {
+            id: 'humidity',
+            title: 'Ideal Hair Day',
+            takeaway: `${humidity}% humidity keeps frizz in check and comfort high.`,
+            heroStatValue: `${humidity}%`,
+            heroStatLabel: 'Humidity',
+            metricLabel: 'Humidity',
+            metricValue: `${humidity}%`,
+          }
+        : {
+            id: 'hydration',
+            title: 'Humidity Bonus',
+            takeaway: `${humidity}% humidity means houseplants and skin stay happily hydrated.`,
+            heroStatValue: `${humidity}%`,
+            heroStatLabel: 'Humidity',
+            metricLabel: 'Humidity',
+            metricValue: `${humidity}%`,
+          },
+    )
+  }
+
+  if (visibilityMeters !== undefined) {
+    const visibilityValue = isMetric ? toKilometers(visibilityMeters) : toMiles(visibilityMeters)
+    const visibilityDisplay = `${visibilityValue.toFixed(1)} ${visibilityUnits}`
+
+    if (visibilityMeters >= 8000) {
+      highlights.push({
+        id: 'visibility',
+        title: 'Long-Range Views',
+        takeaway: `Visibility stretches roughly ${visibilityDisplay}—panorama time!`,
+        heroStatValue: visibilityDisplay,
+        heroStatLabel: 'Visibility',
+        metricLabel: 'Visibility',
+        metricValue: visibilityDisplay,
+      })
+    } else {
+      const nextSunset = new Date((horizon[0].dt + timezoneOffsetSeconds) * 1000)
+      highlights.push({
+        id: 'cozy-views',
+        title: 'Cozy Vibes',
+        takeaway: 'Soft-focus air invites slow moments and window-watching.',
+        detail: `Queue up a playlist and enjoy the diffused light toward ${nextSunset.toLocaleTimeString([], {
+          hour: 'numeric',
+          minute: '2-digit',
+        })}.`,
+        heroStatValue: visibilityDisplay,
+        heroStatLabel: 'Visibility',
+        metricLabel: 'Visibility',
+        metricValue: visibilityDisplay,
+      })
+    }
+  }
+
+  if (windSpeed !== undefined) {
+    const windValue = isMetric ? metersPerSecondToKph(windSpeed) : windSpeed
+    const gentleBreezeThreshold = isMetric ? 25 : 15.5
+    const breezy = windValue <= gentleBreezeThreshold
+
+    highlights.push(
+      breezy
+        ? {
+            id: 'breeze',
+            title: 'Friendly Breeze',
+            takeaway: `${windValue.toFixed(1)} ${windUnits} winds keep the air feeling fresh.`,
+            detail: 'Perfect kite or sail training weather.',
+            heroStatValue: `${windValue.toFixed(1)} ${windUnits}`,
+            heroStatLabel: 'Wind speed',
+            metricLabel: gustValue ? 'Wind / gust' : 'Wind speed',
+            metricValue: gustValue
+              ? `${windValue.toFixed(1)} / ${gustValue.toFixed(1)} ${windUnits}`
+              : `${windValue.toFixed(1)} ${windUnits}`,
+          }
+        : {
+            id: 'wind-energy',
+            title: 'Wind Energy Mode',
+            takeaway: `${windValue.toFixed(1)} ${windUnits} winds—renewable energy fans, rejoice!`,
+            detail: gustValue
+              ? `Gusts near ${gustValue.toFixed(1)} ${windUnits}. Secure loose items then enjoy the drama.`
+              : 'Secure patio furniture, then lean into the dynamic skies.',
+            heroStatValue: `${windValue.toFixed(1)} ${windUnits}`,
+            heroStatLabel: 'Wind speed',
+            metricLabel: gustValue ? 'Wind / gust' : 'Wind speed',
+            metricValue: gustValue
+              ? `${windValue.toFixed(1)} / ${gustValue.toFixed(1)} ${windUnits}`
+              : `${windValue.toFixed(1)} ${windUnits}`,
+          },
+    )
+  }
+
+  return highlights
+}
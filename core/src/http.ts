@@ -0,0 +1,30 @@
+import { isAbortError } from './abort'
+import { createHttpError, createMalformedResponseError, createNetworkError } from './errors'
+
+export interface FetchJsonOptions {
+  source?: string
+  headers?: Record<string, string>
+  signal?: AbortSignal
+}
+
+export type JsonFetcher = <T>(url: string, options?: FetchJsonOptions) => Promise<T>
+
+// Failures surface as `WeatherServiceError`s (see `errors.ts`); aborts pass through untouched.
+export const fetchJson: JsonFetcher = async <T>(url: string, options: FetchJsonOptions = {}): Promise<T> => {
+  const { source = 'Weather service', headers, signal } = options
+  let response: Response
+  try {
+    response = await fetch(url, { headers, signal })
+  } catch (error) {
+    throw isAbortError(error) ? error : createNetworkError(source, error)
+  }
+  if (!response.ok) {
+    const message = await response.text().catch(() => '')
+    throw createHttpError(source, response.status, message, response.headers.get('Retry-After'))
+  }
+  try {
+    return (await response.json()) as T
+  } catch (error) {
+    throw isAbortError(error) ? error : createMalformedResponseError(source, error)
+  }
+}
@@ -0,0 +1,58 @@
+export type * from './types'
+export { isAbortError } from './abort'
+export { mapWithConcurrency } from './concurrency'
+export { createPlaceForecasts } from './placeForecasts'
+export type { ForecastPlace, PlaceForecastEntries, PlaceForecastEntry, PlaceForecasts } from './placeForecasts'
+export { createWeatherError, isWeatherServiceError } from './errors'
+export type { WeatherErrorKind, WeatherServiceError } from './errors'
+export { PROXY_KEY_LOCATION, describeDataIssues, describeWeatherError } from './errorRecovery'
+export type { WeatherErrorNotice } from './errorRecovery'
+export type { FetchJsonOptions, JsonFetcher } from './http'
+export { fetchJson } from './http'
+export { buildRequestKey } from './requestKey'
+export {
+  DEFAULT_CACHE_POLICIES,
+  RESPONSE_CACHE_STORAGE_KEY,
+  createCachedFetcher,
+} from './responseCache'
+export type { CachePolicy, CacheStorage } from './responseCache'
+export * from './providers'
+export { formatCoordinates, parseCoordinateQuery, recoverPlusCode } from './coordinates'
+export type { CoordinateQuery } from './coordinates'
+export { bundledGazetteer, createGazetteer } from './gazetteer'
+export type { Gazetteer, GazetteerSearchOptions } from './gazetteer'
+export {
+  AU_STATE_CODE_TO_NAME,
+  CA_PROVINCE_CODE_TO_NAME,
+  DEFAULT_HOME_COUNTRY,
+  US_STATE_CODE_TO_NAME,
+  US_STATE_NAME_TO_CODE,
+  findCloseMatches,
+  formatLocationLabel,
+  isSamePlace,
+  rankLocationMatches,
+  resolveHomeCountry,
+} from './geocoding'
+export type { LocationMatch, LocationPreferences } from './geocoding'
+export { foldPlaceName, placeNameTokens } from './placeNames'
+export { PLACE_CHOICES_STORAGE_KEY, createPlaceChoices } from './placeChoices'
+export type { PlaceChoices } from './placeChoices'
+export { distanceKm, rankSuggestions } from './suggestionRanking'
+export {
+  addFavorite,
+  findFavorite,
+  moveFavorite,
+  parseFavorites,
+  removeFavorite,
+  renameFavorite,
+} from './favorites'
+export type { SuggestionContext } from './suggestionRanking'
+export { formatPostalCode, parsePostalCode } from './postalCodes'
+export type { PostalCodeQuery } from './postalCodes'
+export { buildSkySummary, craftHighlights } from './highlights'
+export { buildExtendedOutlook, buildHourlyOutlook, findOutlookToday } from './outlook'
+export { COMPARISON_METRICS, buildComparison } from './comparison'
+export type { ComparisonCell, ComparisonDay, ComparisonMetric } from './comparison'
+export { convertTemperature, formatDistance, presentForecast } from './presentation'
+export { createWeatherService } from './weatherService'
+export type { SuggestionSearchOptions, WeatherServiceConfig, WeatherServiceOptions } from './weatherService'
@@ -0,0 +1,38 @@
+export const TIMED_OUT = Symbol('timed out')
+
+export interface Timed<T> {
+  value: T
+  elapsedMs: number
+}
+
+export const timed = async <T>(request: Promise<T>, now: () => number): Promise<Timed<T>> => {
+  const startedAt = now()
+  const value = await request
+  return { value, elapsedMs: now() - startedAt }
+}
+
+export interface LatencyBudget {
+  // Settles with the request, or `TIMED_OUT` if it is still pending once the budget is spent.
+  race: <T>(request: Promise<T>) => Promise<T | typeof TIMED_OUT>
+  release: () => void
+}
+
+/**
+ * Caps how long optional requests may hold a result back. The budget is spent once `budgetMs`
+ * have passed and `holdUntil` has settled, so nothing is dropped while the caller is still
+ * waiting on its required data anyway. Requests that miss the budget keep running.
+ */
+export const createLatencyBudget = (budgetMs: number, holdUntil: Promise<unknown>): LatencyBudget => {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const elapsed = new Promise<void>((resolve) => {
+    timer = setTimeout(resolve, budgetMs)
+  })
+  const spent = Promise.all([elapsed, holdUntil.catch(() => undefined)]).then((): typeof TIMED_OUT => TIMED_OUT)
+
+  return {
+    race: <T>(request: Promise<T>) => Promise.race([request, spent]),
+    release: () => {
+      clearTimeout(timer)
+    },
+  }
+}
@@ -0,0 +1,109 @@
+import type {
+  DailyForecastEntry,
+  HourlyForecastEntry,
+  OptimisticDailyOutlook,
+  OptimisticHourlyOutlook,
+} from './types'
+
+const HOURLY_OUTLOOK_LIMIT = 12
+
+const clampPopPercent = (value: number | undefined): number | null => {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    return null
+  }
+  const ratio = Math.min(Math.max(value, 0), 1)
+  return Math.round(ratio * 100)
+}
+
+const clampPercent = (value: number | undefined): number | undefined => {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    return undefined
+  }
+  return Math.round(Math.min(Math.max(value, 0), 100))
+}
+
+const toDateWithOffset = (timestamp: number | undefined, offsetSeconds: number): Date | undefined => {
+  if (typeof timestamp !== 'number' || Number.isNaN(timestamp)) {
+    return undefined
+  }
+  return new Date((timestamp + offsetSeconds) * 1000)
+}
+
+export const buildExtendedOutlook = (
+  dailyEntries: DailyForecastEntry[] | undefined,
+  timezoneOffsetSeconds: number,
+): OptimisticDailyOutlook[] => {
+  if (!dailyEntries?.length) {
+    return []
+  }
+
+  return dailyEntries
+    .filter((entry): entry is DailyForecastEntry =>
+      !!entry
+      && typeof entry.temp?.max === 'number'
+      && !Number.isNaN(entry.temp.max)
+      && typeof entry.temp?.min === 'number'
+      && !Number.isNaN(entry.temp.min),
+    )
+    .slice(0, 10)
+    .map((entry) => {
+      const primary = entry.weather?.[0]
+      const dayAverage = typeof entry.temp.day === 'number'
+        ? entry.temp.day
+        : (entry.temp.max + entry.temp.min) / 2
+
+      return {
+        date: new Date((entry.dt + timezoneOffsetSeconds) * 1000),
+        high: entry.temp.max,
+        low: entry.temp.min,
+        dayAverage,
+        precipitationChancePercent: clampPopPercent(entry.pop),
+        cloudCoverPercent: clampPercent(entry.clouds),
+        condition: primary?.main ?? 'Clear',
+        description: primary?.description ?? primary?.main ?? 'Clear skies',
+        sunrise: toDateWithOffset(entry.sunrise, timezoneOffsetSeconds),
+        sunset: toDateWithOffset(entry.sunset, timezoneOffsetSeconds),
+        source: 'onecall',
+      }
+    })
+}
+
+export const buildHourlyOutlook = (
+  hourlyEntries: HourlyForecastEntry[] | undefined,
+  timezoneOffsetSeconds: number,
+): OptimisticHourlyOutlook[] => {
+  if (!hourlyEntries?.length) {
+    return []
+  }
+
+  return hourlyEntries
+    .filter((entry): entry is HourlyForecastEntry => typeof entry?.temp === 'number' && !Number.isNaN(entry.temp))
+    .slice(0, HOURLY_OUTLOOK_LIMIT)
+    .map((entry) => {
+      const primary = entry.weather?.[0]
+
+      return {
+        id: `hour-${entry.dt}`,
+        time: new Date((entry.dt + timezoneOffsetSeconds) * 1000),
+        temperature: entry.temp,
+        feelsLike: typeof entry.feels_like === 'number' ? entry.feels_like : entry.temp,
+        precipitationChancePercent: clampPopPercent(entry.pop),
+        condition: primary?.main ?? 'Clear',
+        description: primary?.description ?? primary?.main ?? 'Clear skies',
+        icon: primary?.icon,
+      }
+    })
+}
+
+// Outlook dates are pre-shifted by the place's UTC offset, so their UTC date is the local date.
+const toLocalDateKey = (date: Date) => date.toISOString().slice(0, 10)
+
+// The outlook day for the place's current calendar date, if the outlook covers it.
+export const findOutlookToday = (
+  days: OptimisticDailyOutlook[],
+  timezoneOffsetSeconds: number,
+  now: Date = new Date(),
+): OptimisticDailyOutlook | undefined => {
+  const todayKey = toLocalDateKey(new Date(now.getTime() + timezoneOffsetSeconds * 1000))
+  return days.find((day) => toLocalDateKey(day.date) === todayKey)
+}
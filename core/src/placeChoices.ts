@@ -0,0 +1,77 @@
+import type { GeoLocation } from './types'
+import type { CacheStorage } from './responseCache'
+import { isGeoLocation } from './geocoding'
+import { placeNameTokens } from './placeNames'
+
+export const PLACE_CHOICES_STORAGE_KEY = 'optimistic-weather-place-choices-v1'
+
+export interface PlaceChoices {
+  // The place the user picked the last time this query was ambiguous.
+  recall: (query: string) => Promise<GeoLocation | undefined>
+  remember: (query: string, location: GeoLocation) => Promise<void>
+}
+
+interface PlaceChoicesOptions {
+  storage?: CacheStorage
+  maxEntries?: number
+  onWarning?: (message: string, error: unknown) => void
+}
+
+// "springfield", "Springfield " and "SPRINGFIELD" are the same question.
+const choiceKey = (query: string) => placeNameTokens(query).join(' ')
+
+/**
+ * Remembers which place an ambiguous query meant, most recent first, in the same storage shape
+ * as the response cache so both apps can persist it.
+ */
+export const createPlaceChoices = ({
+  storage,
+  maxEntries = 50,
+  onWarning = () => undefined,
+}: PlaceChoicesOptions = {}): PlaceChoices => {
+  let hydrated: Promise<Map<string, GeoLocation>> | undefined
+
+  const hydrate = () => {
+    hydrated ??= (async () => {
+      const choices = new Map<string, GeoLocation>()
+      try {
+        const raw = await storage?.getItem(PLACE_CHOICES_STORAGE_KEY)
+        const parsed = raw ? (JSON.parse(raw) as unknown) : []
+        const stored = Array.isArray(parsed) ? (parsed as [unknown, unknown][]) : []
+        stored.forEach(([key, location]) => {
+          if (typeof key === 'string' && isGeoLocation(location)) {
+            choices.set(key, location)
+          }
+        })
+      } catch (error) {
+        onWarning('Unable to read remembered places:', error)
+      }
+      return choices
+    })()
+    return hydrated
+  }
+
+  const recall = async (query: string) => (await hydrate()).get(choiceKey(query))
+
+  const remember = async (query: string, location: GeoLocation) => {
+    const key = choiceKey(query)
+    if (!key) {
+      return
+    }
+    const choices = await hydrate()
+    choices.delete(key)
+    const newestFirst = [[key, location] as const, ...choices.entries()].slice(0, maxEntries)
+    choices.clear()
+    newestFirst.forEach(([entryKey, entry]) => choices.set(entryKey, entry))
+    if (!storage) {
+      return
+    }
+    try {
+      await storage.setItem(PLACE_CHOICES_STORAGE_KEY, JSON.stringify(newestFirst))
+    } catch (error) {
+      onWarning('Unable to remember the chosen place:', error)
+    }
+  }
+
+  return { recall, remember }
+}
@@ -0,0 +1,112 @@
+import { isAbortError } from './abort'
+import { mapWithConcurrency } from './concurrency'
+import { describeWeatherError } from './errorRecovery'
+import type { WeatherErrorNotice } from './errorRecovery'
+import type { GeoLocation, OptimisticForecast } from './types'
+
+// Enough to fill the screen quickly without tripping provider rate limits.
+const PLACE_FORECAST_CONCURRENCY = 3
+
+export interface ForecastPlace {
+  id: string
+  location: GeoLocation
+}
+
+export interface PlaceForecastEntry {
+  loading: boolean
+  // Kept while a refresh runs, so views do not blank out.
+  forecast?: OptimisticForecast
+  notice?: WeatherErrorNotice
+}
+
+export type PlaceForecastEntries = Record<string, PlaceForecastEntry>
+
+export interface PlaceForecasts {
+  // Loads the places that have not been requested yet.
+  load: (places: ForecastPlace[]) => void
+  // Reloads the given places, cancelling their previous requests.
+  refresh: (places: ForecastPlace[]) => void
+  // Cancels everything in flight and forgets what was requested; later calls start over.
+  dispose: () => void
+}
+
+interface PlaceForecastsOptions {
+  fetchForecast: (location: GeoLocation, options: { signal?: AbortSignal }) => Promise<OptimisticForecast>
+  // Where the host reads its API key from, for the recovery copy of failed places.
+  keyLocation: string
+  // Receives a new entries object after every change.
+  onChange: (entries: PlaceForecastEntries) => void
+  concurrency?: number
+}
+
+/**
+ * Forecasts for a list of places, keyed by place id and loaded a few at a time. Each place has
+ * one current request: refreshing it cancels the previous one, so a slow older response never
+ * overwrites a newer one. A failure only marks its own entry.
+ */
+export const createPlaceForecasts = ({
+  fetchForecast,
+  keyLocation,
+  onChange,
+  concurrency = PLACE_FORECAST_CONCURRENCY,
+}: PlaceForecastsOptions): PlaceForecasts => {
+  let entries: PlaceForecastEntries = {}
+  const requested = new Set<string>()
+  // The current request per place id; anything else in flight for that place is stale.
+  const controllers = new Map<string, AbortController>()
+
+  const update = (changes: [string, PlaceForecastEntry][]) => {
+    entries = {
+      ...entries,
+      ...Object.fromEntries(changes.map(([id, change]) => [id, { ...entries[id], ...change }])),
+    }
+    onChange(entries)
+  }
+
+  const refresh = (places: ForecastPlace[]) => {
+    if (!places.length) {
+      return
+    }
+    const requests = places.map((place) => {
+      controllers.get(place.id)?.abort()
+      const controller = new AbortController()
+      controllers.set(place.id, controller)
+      requested.add(place.id)
+      return { place, controller }
+    })
+    update(places.map((place) => [place.id, { loading: true }]))
+
+    void mapWithConcurrency(requests, concurrency, async ({ place, controller }) => {
+      // Superseded or disposed while queued.
+      if (controller.signal.aborted) {
+        return
+      }
+      const settle = (change: PlaceForecastEntry) => {
+        if (controllers.get(place.id) !== controller) {
+          return
+        }
+        controllers.delete(place.id)
+        update([[place.id, change]])
+      }
+
+      try {
+        const forecast = await fetchForecast(place.location, { signal: controller.signal })
+        settle({ loading: false, forecast, notice: undefined })
+      } catch (error) {
+        if (!isAbortError(error)) {
+          settle({ loading: false, notice: describeWeatherError(error, { keyLocation }) })
+        }
+      }
+    })
+  }
+
+  const load = (places: ForecastPlace[]) => refresh(places.filter((place) => !requested.has(place.id)))
+
+  const dispose = () => {
+    controllers.forEach((controller) => controller.abort())
+    controllers.clear()
+    requested.clear()
+  }
+
+  return { load, refresh, dispose }
+}
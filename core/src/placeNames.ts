@@ -0,0 +1,151 @@
+// Abbreviations people type for words that open place names, with the spelling geocoders return.
+const PLACE_ABBREVIATIONS = new Map<string, string>([
+  ['st', 'saint'],
+  ['ste', 'sainte'],
+  ['ft', 'fort'],
+  ['mt', 'mount'],
+  ['pt', 'point'],
+])
+
+const ABBREVIATION_FOR = new Map<string, string>(
+  Array.from(PLACE_ABBREVIATIONS.entries()).map(([short, long]) => [long, short]),
+)
+
+/** Lower-case, accent-free and punctuation-free: "Málaga" -> "malaga", "St. Louis" -> "st louis". */
+export const foldPlaceName = (text: string) => text
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, ' ')
+  .trim()
+
+/** Folded words with abbreviations spelled out, so "Ft. Worth" and "Fort Worth" compare equal. */
+export const placeNameTokens = (text: string) =>
+  foldPlaceName(text).split(' ').filter(Boolean).map((token) => PLACE_ABBREVIATIONS.get(token) ?? token)
+
+/** The spelled-out and abbreviated forms of a name, for indexes that match what was typed. */
+export const placeNameVariants = (name: string) => {
+  const tokens = placeNameTokens(name)
+  const spelledOut = tokens.join(' ')
+  const abbreviated = tokens.map((token) => ABBREVIATION_FOR.get(token) ?? token).join(' ')
+  return abbreviated === spelledOut ? [spelledOut] : [spelledOut, abbreviated]
+}
+
+const levenshteinDistance = (a: string, b: string): number => {
+  const lenA = a.length
+  const lenB = b.length
+  const dp: number[][] = []
+
+  for (let i = 0; i <= lenA; i += 1) {
+    dp[i] = []
+    for (let j = 0; j <= lenB; j += 1) {
+      dp[i][j] = 0
+    }
+  }
+
+  for (let i = 0; i <= lenA; i += 1) {
+    dp[i][0] = i
+  }
+  for (let j = 0; j <= lenB; j += 1) {
+    dp[0][j] = j
+  }
+
+  for (let i = 1; i <= lenA; i += 1) {
+    for (let j = 1; j <= lenB; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      dp[i][j] = Math.min(
+        dp[i - 1][j] + 1,
+        dp[i][j - 1] + 1,
+        dp[i - 1][j - 1] + cost,
+      )
+    }
+  }
+
+  return dp[lenA][lenB]
+}
+
+// Rough English sound of a word: consonant spellings merged, doubles collapsed and vowels after
+// the first letter dropped, so "Filadelfia" and "Philadelphia" share a key.
+const phoneticKey = (token: string) => {
+  const sounds = token
+    .replace(/ph/g, 'f')
+    .replace(/urgh$/, 'urg')
+    .replace(/gh(?![aeiou])/g, '')
+    .replace(/ck/g, 'k')
+    .replace(/c(?=[eiy])/g, 's')
+    .replace(/[cq]/g, 'k')
+    .replace(/x/g, 'ks')
+    .replace(/z/g, 's')
+    .replace(/dg/g, 'j')
+    .replace(/(.)\1+/g, '$1')
+  return sounds.charAt(0) + sounds.slice(1).replace(/[aeiouyhw]/g, '')
+}
+
+const PHONETIC_SIMILARITY = 0.85
+const MIN_PREFIX_LENGTH = 3
+
+/**
+ * How alike a typed word and a word of a place name are, from 0 to 1: exact words score 1,
+ * words still being typed ("Sacra") score by how much is there, and misspellings score by edit
+ * distance or, when they sound the same, at least `PHONETIC_SIMILARITY`.
+ */
+export const tokenSimilarity = (typed: string, name: string, isLastTyped = false) => {
+  if (typed === name) {
+    return 1
+  }
+  if ((isLastTyped || typed.length >= MIN_PREFIX_LENGTH) && typed.length > 1 && name.startsWith(typed)) {
+    return 0.7 + (0.3 * typed.length) / name.length
+  }
+  const edit = 1 - levenshteinDistance(typed, name) / Math.max(typed.length, name.length)
+  const phonetic = phoneticKey(typed) === phoneticKey(name) ? PHONETIC_SIMILARITY : 0
+  return Math.max(edit, phonetic, 0)
+}
+
+export interface NameMatch {
+  // Share of the name's letters accounted for by typed words, weighted by similarity, from 0 to 1.
+  score: number
+  // Positions of the typed tokens spent on the name.
+  used: Set<number>
+}
+
+/**
+ * Lines each word of `name` up with its most similar unused typed token, in order of appearance,
+ * so "Stratford on Avon" still finds every word of "Stratford-upon-Avon".
+ */
+export const matchNameTokens = (typedTokens: string[], name: string): NameMatch => {
+  const nameTokens = placeNameTokens(name)
+  const used = new Set<number>()
+  if (!nameTokens.length) {
+    return { score: 0, used }
+  }
+
+  // Words of the name nobody typed ("am Main" in "Frankfurt am Main") count half.
+  let weighted = 0
+  let totalLength = 0
+  nameTokens.forEach((nameToken) => {
+    let best = { index: -1, similarity: 0 }
+    typedTokens.forEach((typed, index) => {
+      if (used.has(index)) {
+        return
+      }
+      const similarity = tokenSimilarity(typed, nameToken, index === typedTokens.length - 1)
+      if (similarity > best.similarity) {
+        best = { index, similarity }
+      }
+    })
+    // Weak pairings are coincidence, and would steal tokens meant for the region or country.
+    if (best.similarity >= 0.5) {
+      used.add(best.index)
+      weighted += best.similarity * nameToken.length
+      totalLength += nameToken.length
+    } else {
+      totalLength += nameToken.length / 2
+    }
+  })
+  return { score: weighted / totalLength, used }
+}
+
+export const __internal = {
+  levenshteinDistance,
+  phoneticKey,
+}
@@ -0,0 +1,136 @@
+import { DEFAULT_HOME_COUNTRY, parseCountryCode } from './geocoding'
+import type { LocationPreferences } from './geocoding'
+
+export interface PostalCodeQuery {
+  // Canonical spelling, e.g. "M5V 2T6" or "SW1A 1AA".
+  code: string
+  // What `geocodeByZip` receives; OpenWeather only resolves the outward part of CA and GB codes.
+  lookupCode: string
+  // Countries using this format, most likely first. One entry when the format or a qualifier settles it.
+  countries: string[]
+  // Place typed next to the code, e.g. "Paris" in "75008 Paris".
+  place?: string
+}
+
+interface PostalFormat {
+  countries: string[]
+  // Matched case-insensitively; `normalize` receives the groups upper-cased.
+  pattern: string
+  normalize: (groups: Record<string, string>) => Pick<PostalCodeQuery, 'code' | 'lookupCode'>
+  // Outward-only codes such as "W1A" are too ambiguous to guess, so they need the country.
+  requiresCountry?: boolean
+}
+
+const asTyped = ({ code }: Record<string, string>) => ({ code, lookupCode: code })
+
+const joinParts = ({ outward, inward }: Record<string, string>) => ({
+  code: `${outward} ${inward}`,
+  lookupCode: outward,
+})
+
+const CA_LETTER = '[ABCEGHJ-NPRSTV-Z]'
+const GB_OUTWARD = '[A-Z]{1,2}\\d[A-Z\\d]?'
+
+// Ordered from the most to the least distinctive; the first format that matches wins.
+const POSTAL_FORMATS: PostalFormat[] = [
+  {
+    countries: ['CA'],
+    pattern: `(?<outward>[ABCEGHJ-NPRSTVXY]\\d${CA_LETTER})[ -]?(?<inward>\\d${CA_LETTER}\\d)`,
+    normalize: joinParts,
+  },
+  {
+    countries: ['GB'],
+    pattern: `(?<outward>${GB_OUTWARD}) ?(?<inward>\\d[ABD-HJLNP-UW-Z]{2})`,
+    normalize: joinParts,
+  },
+  {
+    countries: ['NL'],
+    pattern: '(?<digits>[1-9]\\d{3}) ?(?<letters>[A-Z]{2})',
+    normalize: ({ digits, letters }) => ({ code: `${digits} ${letters}`, lookupCode: `${digits} ${letters}` }),
+  },
+  { countries: ['US'], pattern: '(?<code>\\d{5})-\\d{4}', normalize: asTyped },
+  { countries: ['BR'], pattern: '(?<code>\\d{5}-\\d{3})', normalize: asTyped },
+  { countries: ['PT'], pattern: '(?<code>\\d{4}-\\d{3})', normalize: asTyped },
+  { countries: ['JP'], pattern: '(?<code>\\d{3}-\\d{4})', normalize: asTyped },
+  { countries: ['PL'], pattern: '(?<code>\\d{2}-\\d{3})', normalize: asTyped },
+  {
+    countries: ['SE', 'CZ', 'SK', 'GR'],
+    pattern: '(?<first>\\d{3}) (?<last>\\d{2})',
+    normalize: ({ first, last }) => ({ code: `${first} ${last}`, lookupCode: `${first} ${last}` }),
+  },
+  { countries: ['IN', 'CN', 'RU', 'SG', 'KZ'], pattern: '(?<code>\\d{6})', normalize: asTyped },
+  {
+    countries: ['US', 'DE', 'FR', 'IT', 'ES', 'MX', 'FI', 'MY', 'TH', 'TR', 'HR', 'UA'],
+    pattern: '(?<code>\\d{5})',
+    normalize: asTyped,
+  },
+  {
+    countries: ['AU', 'AT', 'BE', 'CH', 'DK', 'NO', 'NZ', 'ZA', 'HU', 'PH', 'BG'],
+    pattern: '(?<code>\\d{4})',
+    normalize: asTyped,
+  },
+  { countries: ['CA'], pattern: `(?<code>[ABCEGHJ-NPRSTVXY]\\d${CA_LETTER})`, normalize: asTyped, requiresCountry: true },
+  { countries: ['GB'], pattern: `(?<code>${GB_OUTWARD})`, normalize: asTyped, requiresCountry: true },
+]
+
+// The code may sit before or after a place name: "75008 Paris" or "Paris 75008".
+const compiledFormats = POSTAL_FORMATS.map((format) => ({
+  ...format,
+  regex: new RegExp(`^(?:(?<before>[^\\d]+?)\\s+)?${format.pattern}(?:\\s+(?<after>[^\\d]+))?$`, 'i'),
+}))
+
+// Anything else with a digit is passed through when the country is spelled out, as before.
+const FREEFORM_CODE = /^(?=.*\d)[A-Z0-9][A-Z0-9 -]{1,9}$/i
+
+const collapseSpaces = (text: string) => text.trim().replace(/\s+/g, ' ')
+
+/**
+ * Recognises a postal code in a search query, with or without a country qualifier ("SW1A 1AA",
+ * "M5V 2T6", "75008 Paris", "94103, US"). The format narrows down the country; when several
+ * countries share it, the home country goes first. Returns `null` for ordinary place names.
+ */
+export const parsePostalCode = (
+  query: string,
+  { homeCountry = DEFAULT_HOME_COUNTRY }: LocationPreferences = {},
+): PostalCodeQuery | null => {
+  const parts = query.split(',').map(collapseSpaces).filter(Boolean)
+  const qualifier = parts.length > 1 ? parseCountryCode(parts[parts.length - 1]) : undefined
+  const text = (qualifier ? parts.slice(0, -1) : parts).join(' ')
+  if (!/\d/.test(text)) {
+    return null
+  }
+
+  const home = homeCountry.toUpperCase()
+  for (const format of compiledFormats) {
+    const groups = format.regex.exec(text)?.groups
+    if (!groups || (format.requiresCountry && !format.countries.includes(qualifier ?? home))) {
+      continue
+    }
+    const { before, after, ...codeGroups } = groups
+    const countries = qualifier
+      ? [qualifier]
+      : format.countries.includes(home)
+        ? [home, ...format.countries.filter((country) => country !== home)]
+        : format.countries
+    return {
+      ...format.normalize(
+        Object.fromEntries(Object.entries(codeGroups).map(([name, value]) => [name, value.toUpperCase()])),
+      ),
+      countries,
+      place: before ?? after,
+    }
+  }
+
+  if (qualifier && FREEFORM_CODE.test(text)) {
+    const code = text.toUpperCase()
+    return { code, lookupCode: code, countries: [qualifier] }
+  }
+  return null
+}
+
+/** Query that searches the code again: "90210" at home, "75008, FR" abroad. */
+export const formatPostalCode = (
+  { code }: PostalCodeQuery,
+  country: string,
+  { homeCountry = DEFAULT_HOME_COUNTRY }: LocationPreferences = {},
+) => (country.toUpperCase() === homeCountry.toUpperCase() ? code : `${code}, ${country.toUpperCase()}`)
@@ -0,0 +1,82 @@
+import type {
+  ForecastEntry,
+  OptimisticDailyOutlook,
+  OptimisticForecast,
+  OptimisticHourlyOutlook,
+  PresentedForecast,
+} from './types'
+import { craftHighlights } from './highlights'
+import type { Units } from './providers/types'
+
+const MPH_PER_METER_PER_SECOND = 2.23694
+
+export const convertTemperature = (celsius: number, units: Units) =>
+  units === 'metric' ? celsius : (celsius * 9) / 5 + 32
+
+const MILES_PER_KILOMETER = 0.621371
+
+/** A suggestion's distance as "12 mi away" or "19 km away", with one decimal when under ten. */
+export const formatDistance = (kilometers: number, units: Units) => {
+  const distance = units === 'metric' ? kilometers : kilometers * MILES_PER_KILOMETER
+  const rounded = distance < 10 ? Math.round(distance * 10) / 10 : Math.round(distance)
+  return `${rounded.toLocaleString('en-US')} ${units === 'metric' ? 'km' : 'mi'} away`
+}
+
+const convertSpeed = (metersPerSecond: number, units: Units) =>
+  units === 'metric' ? metersPerSecond : metersPerSecond * MPH_PER_METER_PER_SECOND
+
+// The highlight engine reads provider-shaped entries in display units (°F and mph for imperial).
+const toDisplayEntry = (entry: ForecastEntry, units: Units): ForecastEntry => ({
+  ...entry,
+  main: {
+    ...entry.main,
+    temp: convertTemperature(entry.main.temp, units),
+    feels_like: convertTemperature(entry.main.feels_like, units),
+    temp_min: convertTemperature(entry.main.temp_min, units),
+    temp_max: convertTemperature(entry.main.temp_max, units),
+  },
+  wind: entry.wind && {
+    ...entry.wind,
+    speed: convertSpeed(entry.wind.speed, units),
+    gust: entry.wind.gust === undefined ? undefined : convertSpeed(entry.wind.gust, units),
+  },
+})
+
+const presentDay = (day: OptimisticDailyOutlook, units: Units): OptimisticDailyOutlook => ({
+  ...day,
+  high: convertTemperature(day.high, units),
+  low: convertTemperature(day.low, units),
+  dayAverage: convertTemperature(day.dayAverage, units),
+})
+
+const presentHour = (hour: OptimisticHourlyOutlook, units: Units): OptimisticHourlyOutlook => ({
+  ...hour,
+  temperature: convertTemperature(hour.temperature, units),
+  feelsLike: convertTemperature(hour.feelsLike, units),
+})
+
+/**
+ * Renders a canonical forecast in the requested unit system, including highlight copy, without
+ * touching the network. Cheap enough to run on every unit toggle.
+ */
+export const presentForecast = (forecast: OptimisticForecast, units: Units): PresentedForecast => {
+  const { horizon, temperature, extendedOutlook, hourlyOutlook, ...rest } = forecast
+  const displayHorizon = units === 'metric' ? horizon : horizon.map((entry) => toDisplayEntry(entry, units))
+
+  return {
+    ...rest,
+    temperature: {
+      current: convertTemperature(temperature.current, units),
+      feelsLike: convertTemperature(temperature.feelsLike, units),
+      high: convertTemperature(temperature.high, units),
+      low: convertTemperature(temperature.low, units),
+      units,
+    },
+    highlights: craftHighlights(displayHorizon, units, forecast.timezoneOffsetSeconds),
+    extendedOutlook: extendedOutlook && {
+      ...extendedOutlook,
+      days: extendedOutlook.days.map((day) => presentDay(day, units)),
+    },
+    hourlyOutlook: hourlyOutlook?.map((hour) => presentHour(hour, units)),
+  }
+}
@@ -0,0 +1,6 @@
+export { DAILY_FORECAST_TARGET_DAYS } from './types'
+export type { ForecastSeries, ProviderRequestOptions, Units, WeatherProvider } from './types'
+export { createResponseMemo } from './responseMemo'
+export { OPENWEATHER_API_BASE, createOpenWeatherProvider } from './openWeatherProvider'
+export { createNwsProvider } from './nwsProvider'
+export { createOpenMeteoProvider } from './openMeteoProvider'
@@ -0,0 +1,326 @@
+import type {
+  Coordinates,
+  DailyForecastEntry,
+  ForecastEntry,
+  ForecastWeather,
+  GeoLocation,
+  HourlyForecastEntry,
+  NwsForecastPeriod,
+  NwsForecastResponse,
+  NwsPointResponse,
+} from '../types'
+import { isAbortError } from '../abort'
+import { fetchJson as defaultFetchJson } from '../http'
+import type { JsonFetcher } from '../http'
+import { createResponseMemo } from './responseMemo'
+import type { ForecastSeries, ProviderRequestOptions, Units, WeatherProvider } from './types'
+
+const API_BASE = 'https://api.weather.gov'
+const SOURCE = 'National Weather Service'
+const RESPONSE_CACHE_LIMIT = 50
+const RESPONSE_CACHE_TTL_MS = 5 * 60 * 1000
+const SHORT_RANGE_BLOCK_HOURS = 3
+// NWS periods omit visibility; assume OpenWeather's 10 km ceiling so highlights read as clear air.
+const DEFAULT_VISIBILITY_METERS = 10_000
+const DEFAULT_HUMIDITY_PERCENT = 50
+
+interface IconCondition {
+  main: string
+  id: number
+  icon: string
+  clouds: number
+}
+
+const ICON_CONDITIONS: Record<string, IconCondition> = {
+  skc: { main: 'Clear', id: 800, icon: '01', clouds: 0 },
+  hot: { main: 'Clear', id: 800, icon: '01', clouds: 0 },
+  cold: { main: 'Clear', id: 800, icon: '01', clouds: 10 },
+  few: { main: 'Clouds', id: 801, icon: '02', clouds: 20 },
+  sct: { main: 'Clouds', id: 802, icon: '03', clouds: 40 },
+  bkn: { main: 'Clouds', id: 803, icon: '04', clouds: 70 },
+  ovc: { main: 'Clouds', id: 804, icon: '04', clouds: 95 },
+  rain: { main: 'Rain', id: 501, icon: '10', clouds: 90 },
+  rain_showers: { main: 'Rain', id: 521, icon: '09', clouds: 80 },
+  rain_showers_hi: { main: 'Rain', id: 520, icon: '09', clouds: 70 },
+  tsra: { main: 'Thunderstorm', id: 201, icon: '11', clouds: 90 },
+  tsra_sct: { main: 'Thunderstorm', id: 200, icon: '11', clouds: 80 },
+  tsra_hi: { main: 'Thunderstorm', id: 200, icon: '11', clouds: 70 },
+  tornado: { main: 'Thunderstorm', id: 212, icon: '11', clouds: 100 },
+  hurricane: { main: 'Thunderstorm', id: 212, icon: '11', clouds: 100 },
+  tropical_storm: { main: 'Thunderstorm', id: 211, icon: '11', clouds: 100 },
+  snow: { main: 'Snow', id: 601, icon: '13', clouds: 90 },
+  blizzard: { main: 'Snow', id: 602, icon: '13', clouds: 100 },
+  sleet: { main: 'Snow', id: 611, icon: '13', clouds: 90 },
+  rain_snow: { main: 'Snow', id: 616, icon: '13', clouds: 90 },
+  rain_sleet: { main: 'Snow', id: 612, icon: '13', clouds: 90 },
+  snow_sleet: { main: 'Snow', id: 613, icon: '13', clouds: 90 },
+  fzra: { main: 'Rain', id: 511, icon: '13', clouds: 90 },
+  rain_fzra: { main: 'Rain', id: 511, icon: '13', clouds: 90 },
+  snow_fzra: { main: 'Snow', id: 616, icon: '13', clouds: 90 },
+  fog: { main: 'Fog', id: 741, icon: '50', clouds: 100 },
+  haze: { main: 'Haze', id: 721, icon: '50', clouds: 30 },
+  smoke: { main: 'Smoke', id: 711, icon: '50', clouds: 30 },
+  dust: { main: 'Dust', id: 731, icon: '50', clouds: 20 },
+}
+
+const FALLBACK_CONDITION: IconCondition = { main: 'Clouds', id: 802, icon: '03', clouds: 40 }
+
+// Icon URLs look like .../icons/land/day/tsra_hi,40/rain,60?size=medium; the first code leads.
+const parseIconCode = (iconUrl: string): string | undefined => {
+  const match = /\/icons\/[^/]+\/(?:day|night)\/([^/?]+)/.exec(iconUrl)
+  const code = match?.[1]?.split(',')[0]
+  return code?.replace(/^wind_/, '')
+}
+
+const toCondition = (period: NwsForecastPeriod) =>
+  ICON_CONDITIONS[parseIconCode(period.icon) ?? ''] ?? FALLBACK_CONDITION
+
+const toForecastWeather = (period: NwsForecastPeriod): ForecastWeather => {
+  const condition = toCondition(period)
+  return {
+    id: condition.id,
+    main: condition.main,
+    description: period.shortForecast.toLowerCase(),
+    icon: `${condition.icon}${period.isDaytime ? 'd' : 'n'}`,
+  }
+}
+
+const toTimestamp = (isoTime: string) => Math.floor(Date.parse(isoTime) / 1000)
+
+const parseUtcOffsetSeconds = (isoTime: string | undefined): number => {
+  const match = isoTime ? /([+-])(\d{2}):(\d{2})$/.exec(isoTime) : null
+  if (!match) {
+    return 0
+  }
+  const [, sign, hours, minutes] = match
+  const seconds = Number(hours) * 3600 + Number(minutes) * 60
+  return sign === '-' ? -seconds : seconds
+}
+
+const convertTemperature = (value: number, from: 'F' | 'C', units: Units) => {
+  if (from === 'F' && units === 'metric') {
+    return ((value - 32) * 5) / 9
+  }
+  if (from === 'C' && units === 'imperial') {
+    return (value * 9) / 5 + 32
+  }
+  return value
+}
+
+// "5 to 10 mph" or "15 km/h" → midpoint in m/s (metric) or mph (imperial).
+const parseWindSpeed = (raw: string | null | undefined, units: Units): number | undefined => {
+  const match = raw ? /(\d+(?:\.\d+)?)(?:\s*to\s*(\d+(?:\.\d+)?))?\s*(mph|km\/h)/i.exec(raw) : null
+  if (!match) {
+    return undefined
+  }
+  const [, low, high, unit] = match
+  const value = high ? (Number(low) + Number(high)) / 2 : Number(low)
+  const isKph = unit.toLowerCase() === 'km/h'
+  if (units === 'metric') {
+    return isKph ? value / 3.6 : value * 0.44704
+  }
+  return isKph ? value / 1.609344 : value
+}
+
+const toPopRatio = (period: NwsForecastPeriod): number => {
+  const value = period.probabilityOfPrecipitation?.value
+  return typeof value === 'number' ? Math.min(Math.max(value / 100, 0), 1) : 0
+}
+
+const toTemperature = (period: NwsForecastPeriod, units: Units) =>
+  convertTemperature(period.temperature, period.temperatureUnit, units)
+
+const buildShortRangeEntries = (periods: NwsForecastPeriod[], units: Units): ForecastEntry[] => {
+  const entries: ForecastEntry[] = []
+  for (let index = 0; index < periods.length; index += SHORT_RANGE_BLOCK_HOURS) {
+    const block = periods.slice(index, index + SHORT_RANGE_BLOCK_HOURS)
+    const [lead] = block
+    const temps = block.map((period) => toTemperature(period, units))
+    const temp = temps[0]
+    const weather = toForecastWeather(lead)
+
+    entries.push({
+      dt: toTimestamp(lead.startTime),
+      main: {
+        temp,
+        feels_like: temp,
+        temp_min: Math.min(...temps),
+        temp_max: Math.max(...temps),
+        // Pressure is not part of the NWS period forecast.
+        pressure: Number.NaN,
+        humidity: lead.relativeHumidity?.value ?? DEFAULT_HUMIDITY_PERCENT,
+      },
+      weather: [weather],
+      clouds: { all: toCondition(lead).clouds },
+      wind: {
+        speed: parseWindSpeed(lead.windSpeed, units) ?? 0,
+        deg: 0,
+        gust: parseWindSpeed(lead.windGust, units),
+      },
+      visibility: DEFAULT_VISIBILITY_METERS,
+      pop: Math.max(...block.map(toPopRatio)),
+    })
+  }
+  return entries
+}
+
+const buildDailyEntries = (periods: NwsForecastPeriod[], units: Units): DailyForecastEntry[] => {
+  const entries: DailyForecastEntry[] = []
+  for (let index = 0; index < periods.length; index += 1) {
+    const period = periods[index]
+    const next = periods[index + 1]
+    const night = period.isDaytime && next && !next.isDaytime ? next : undefined
+    const dayTemp = toTemperature(period, units)
+    const nightTemp = night ? toTemperature(night, units) : dayTemp
+
+    entries.push({
+      dt: toTimestamp(period.startTime),
+      temp: {
+        day: dayTemp,
+        max: Math.max(dayTemp, nightTemp),
+        min: Math.min(dayTemp, nightTemp),
+        night: nightTemp,
+      },
+      weather: [toForecastWeather(period)],
+      clouds: toCondition(period).clouds,
+      wind_speed: parseWindSpeed(period.windSpeed, units),
+      pop: Math.max(toPopRatio(period), night ? toPopRatio(night) : 0),
+    })
+
+    if (night) {
+      index += 1
+    }
+  }
+  return entries
+}
+
+const buildHourlyEntries = (periods: NwsForecastPeriod[], units: Units): HourlyForecastEntry[] =>
+  periods.map((period) => {
+    const temp = toTemperature(period, units)
+    return {
+      dt: toTimestamp(period.startTime),
+      temp,
+      feels_like: temp,
+      weather: [toForecastWeather(period)],
+      pop: toPopRatio(period),
+    }
+  })
+
+const toSeries = <TEntry>(
+  periods: NwsForecastPeriod[],
+  entries: TEntry[],
+): ForecastSeries<TEntry> => ({
+  entries,
+  timezoneOffsetSeconds: parseUtcOffsetSeconds(periods[0]?.startTime),
+})
+
+interface NwsProviderOptions {
+  fetchJson?: JsonFetcher
+  // NWS has no forward geocoder, so place-name lookups are delegated.
+  geocoder: Pick<WeatherProvider, 'geocode' | 'geocodeByZip'>
+  // Optional data sources fail soft; hosts decide whether those failures are worth surfacing.
+  onWarning?: (message: string, error: unknown) => void
+}
+
+export const createNwsProvider = ({
+  fetchJson = defaultFetchJson,
+  geocoder,
+  onWarning = () => undefined,
+}: NwsProviderOptions): WeatherProvider => {
+  const request = <T>(url: string, signal?: AbortSignal) =>
+    fetchJson<T>(url, { source: SOURCE, headers: { Accept: 'application/geo+json' }, signal })
+
+  // Grid lookups never change and hourly periods back both the short-range and hourly series,
+  // so keep recent responses around instead of asking NWS twice per forecast.
+  const memo = createResponseMemo({ ttlMs: RESPONSE_CACHE_TTL_MS, limit: RESPONSE_CACHE_LIMIT })
+  const requestCached = <T>(url: string, signal?: AbortSignal) =>
+    memo(url, (sharedSignal) => request<T>(url, sharedSignal), signal)
+
+  // The points endpoint only accepts four decimal places and maps them onto a forecast grid.
+  const lookupPoint = ({ lat, lon }: Coordinates, signal?: AbortSignal) =>
+    requestCached<NwsPointResponse>(`${API_BASE}/points/${lat.toFixed(4)},${lon.toFixed(4)}`, signal)
+
+  const fetchPeriods = async (
+    coords: Coordinates,
+    units: Units,
+    endpoint: 'forecast' | 'forecastHourly',
+    signal?: AbortSignal,
+  ) => {
+    const point = await lookupPoint(coords, signal)
+    const url = `${point.properties[endpoint]}?units=${units === 'metric' ? 'si' : 'us'}`
+    const forecast = await requestCached<NwsForecastResponse>(url, signal)
+    return forecast.properties.periods
+  }
+
+  const reverseGeocode = async (
+    coords: Coordinates,
+    { signal }: ProviderRequestOptions = {},
+  ): Promise<GeoLocation[]> => {
+    const point = await lookupPoint(coords, signal)
+    const relative = point.properties.relativeLocation?.properties
+    if (!relative) {
+      return []
+    }
+    return [{
+      name: relative.city,
+      state: relative.state,
+      country: 'US',
+      lat: coords.lat,
+      lon: coords.lon,
+    }]
+  }
+
+  const fetchForecast = async (coords: Coordinates, units: Units, { signal }: ProviderRequestOptions = {}) => {
+    const periods = await fetchPeriods(coords, units, 'forecastHourly', signal)
+    return toSeries(periods, buildShortRangeEntries(periods, units))
+  }
+
+  // Daily and hourly series are optional, so their failures resolve to `null` like missing data.
+  const fetchOptionalPeriods = async (
+    coords: Coordinates,
+    units: Units,
+    endpoint: 'forecast' | 'forecastHourly',
+    signal: AbortSignal | undefined,
+    warning: string,
+  ) => {
+    try {
+      return await fetchPeriods(coords, units, endpoint, signal)
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error
+      }
+      onWarning(warning, error)
+      return []
+    }
+  }
+
+  const fetchDailyForecast = async (coords: Coordinates, units: Units, { signal }: ProviderRequestOptions = {}) => {
+    const periods = await fetchOptionalPeriods(coords, units, 'forecast', signal, 'Daily forecast unavailable:')
+    return periods.length ? toSeries(periods, buildDailyEntries(periods, units)) : null
+  }
+
+  const fetchHourlyForecast = async (coords: Coordinates, units: Units, { signal }: ProviderRequestOptions = {}) => {
+    const periods = await fetchOptionalPeriods(coords, units, 'forecastHourly', signal, 'Hourly forecast unavailable:')
+    return periods.length ? toSeries(periods, buildHourlyEntries(periods, units)) : null
+  }
+
+  return {
+    id: 'nws',
+    label: SOURCE,
+    geocode: (query, options) => geocoder.geocode(query, options),
+    geocodeByZip: (zip, country, options) => geocoder.geocodeByZip(zip, country, options),
+    reverseGeocode,
+    fetchForecast,
+    fetchDailyForecast,
+    fetchHourlyForecast,
+  }
+}
+
+export const __internal = {
+  parseIconCode,
+  parseWindSpeed,
+  parseUtcOffsetSeconds,
+  buildShortRangeEntries,
+  buildDailyEntries,
+  buildHourlyEntries,
+}
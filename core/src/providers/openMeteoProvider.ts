@@ -0,0 +1,387 @@
+import type {
+  BigDataCloudReverseGeocodeResponse,
+  Coordinates,
+  DailyForecastEntry,
+  ForecastEntry,
+  ForecastWeather,
+  GeoLocation,
+  HourlyForecastEntry,
+  OpenMeteoForecastResponse,
+  OpenMeteoGeocodingResponse,
+  OpenMeteoGeocodingResult,
+} from '../types'
+import { isAbortError } from '../abort'
+import { fetchJson as defaultFetchJson } from '../http'
+import type { JsonFetcher } from '../http'
+import { createResponseMemo } from './responseMemo'
+import { DAILY_FORECAST_TARGET_DAYS } from './types'
+import type { ForecastSeries, ProviderRequestOptions, Units, WeatherProvider } from './types'
+
+const FORECAST_BASE = 'https://api.open-meteo.com/v1/forecast'
+const GEOCODING_BASE = 'https://geocoding-api.open-meteo.com/v1/search'
+// Open-Meteo has no reverse geocoder; BigDataCloud's client endpoint is likewise keyless.
+const REVERSE_GEOCODING_BASE = 'https://api.bigdatacloud.net/data/reverse-geocode-client'
+const SOURCE = 'Open-Meteo'
+const SHORT_RANGE_BLOCK_HOURS = 3
+const RESPONSE_CACHE_TTL_MS = 5 * 60 * 1000
+const RESPONSE_CACHE_LIMIT = 20
+const FEET_PER_METER = 3.28084
+
+const HOURLY_FIELDS = [
+  'temperature_2m',
+  'apparent_temperature',
+  'relative_humidity_2m',
+  'precipitation_probability',
+  'precipitation',
+  'snowfall',
+  'weather_code',
+  'cloud_cover',
+  'visibility',
+  'pressure_msl',
+  'wind_speed_10m',
+  'wind_gusts_10m',
+  'wind_direction_10m',
+]
+
+const DAILY_FIELDS = [
+  'weather_code',
+  'temperature_2m_max',
+  'temperature_2m_min',
+  'precipitation_probability_max',
+  'precipitation_sum',
+  'cloud_cover_mean',
+  'sunrise',
+  'sunset',
+  'wind_speed_10m_max',
+  'wind_gusts_10m_max',
+]
+
+interface WmoCondition {
+  main: string
+  id: number
+  icon: string
+  description: string
+}
+
+// WMO weather interpretation codes, mapped onto the closest OpenWeather condition.
+const WMO_CONDITIONS: Record<number, WmoCondition> = {
+  0: { main: 'Clear', id: 800, icon: '01', description: 'clear sky' },
+  1: { main: 'Clear', id: 801, icon: '02', description: 'mainly clear' },
+  2: { main: 'Clouds', id: 802, icon: '03', description: 'partly cloudy' },
+  3: { main: 'Clouds', id: 804, icon: '04', description: 'overcast' },
+  45: { main: 'Fog', id: 741, icon: '50', description: 'fog' },
+  48: { main: 'Fog', id: 741, icon: '50', description: 'depositing rime fog' },
+  51: { main: 'Drizzle', id: 300, icon: '09', description: 'light drizzle' },
+  53: { main: 'Drizzle', id: 301, icon: '09', description: 'drizzle' },
+  55: { main: 'Drizzle', id: 302, icon: '09', description: 'dense drizzle' },
+  56: { main: 'Drizzle', id: 300, icon: '09', description: 'light freezing drizzle' },
+  57: { main: 'Drizzle', id: 302, icon: '09', description: 'dense freezing drizzle' },
+  61: { main: 'Rain', id: 500, icon: '10', description: 'light rain' },
+  63: { main: 'Rain', id: 501, icon: '10', description: 'moderate rain' },
+  65: { main: 'Rain', id: 502, icon: '10', description: 'heavy rain' },
+  66: { main: 'Rain', id: 511, icon: '13', description: 'light freezing rain' },
+  67: { main: 'Rain', id: 511, icon: '13', description: 'heavy freezing rain' },
+  71: { main: 'Snow', id: 600, icon: '13', description: 'light snow' },
+  73: { main: 'Snow', id: 601, icon: '13', description: 'snow' },
+  75: { main: 'Snow', id: 602, icon: '13', description: 'heavy snow' },
+  77: { main: 'Snow', id: 600, icon: '13', description: 'snow grains' },
+  80: { main: 'Rain', id: 520, icon: '09', description: 'light rain showers' },
+  81: { main: 'Rain', id: 521, icon: '09', description: 'rain showers' },
+  82: { main: 'Rain', id: 522, icon: '09', description: 'violent rain showers' },
+  85: { main: 'Snow', id: 620, icon: '13', description: 'light snow showers' },
+  86: { main: 'Snow', id: 622, icon: '13', description: 'heavy snow showers' },
+  95: { main: 'Thunderstorm', id: 211, icon: '11', description: 'thunderstorm' },
+  96: { main: 'Thunderstorm', id: 201, icon: '11', description: 'thunderstorm with hail' },
+  99: { main: 'Thunderstorm', id: 202, icon: '11', description: 'thunderstorm with heavy hail' },
+}
+
+const toForecastWeather = (code: number | null | undefined, isDaytime = true): ForecastWeather => {
+  const condition = WMO_CONDITIONS[code ?? 0] ?? WMO_CONDITIONS[0]
+  return {
+    id: condition.id,
+    main: condition.main,
+    description: condition.description,
+    icon: `${condition.icon}${isDaytime ? 'd' : 'n'}`,
+  }
+}
+
+const valueAt = (series: (number | null)[] | undefined, index: number): number | undefined => {
+  const value = series?.[index]
+  return typeof value === 'number' && !Number.isNaN(value) ? value : undefined
+}
+
+const toLocalHour = (timestamp: number, offsetSeconds: number) =>
+  new Date((timestamp + offsetSeconds) * 1000).getUTCHours()
+
+// BigDataCloud reports missing fields as empty strings rather than omitting them.
+const nonEmpty = (value?: string) => (value?.trim() ? value : undefined)
+
+const reportsVisibilityInFeet = (response: OpenMeteoForecastResponse) =>
+  response.hourly_units?.visibility === 'ft'
+
+const toGeoLocation = (result: OpenMeteoGeocodingResult): GeoLocation => ({
+  name: result.name,
+  lat: result.latitude,
+  lon: result.longitude,
+  state: result.admin1,
+  country: result.country_code?.toUpperCase() ?? '',
+})
+
+const buildShortRangeEntries = (
+  response: OpenMeteoForecastResponse,
+  nowSeconds: number,
+): ForecastEntry[] => {
+  const hourly = response.hourly
+  if (!hourly?.time.length) {
+    return []
+  }
+
+  const visibilityScale = reportsVisibilityInFeet(response) ? 1 / FEET_PER_METER : 1
+  // Hourly data starts at local midnight; begin the horizon at the hour in progress.
+  const startIndex = Math.max(0, hourly.time.findIndex((time) => time + 3600 > nowSeconds))
+  const entries: ForecastEntry[] = []
+
+  for (let index = startIndex; index < hourly.time.length; index += SHORT_RANGE_BLOCK_HOURS) {
+    const temp = valueAt(hourly.temperature_2m, index)
+    if (temp === undefined) {
+      continue
+    }
+    const blockIndexes = Array.from(
+      { length: Math.min(SHORT_RANGE_BLOCK_HOURS, hourly.time.length - index) },
+      (_, offset) => index + offset,
+    )
+    const blockTemps = blockIndexes
+      .map((blockIndex) => valueAt(hourly.temperature_2m, blockIndex))
+      .filter((value): value is number => value !== undefined)
+    const pops = blockIndexes.map((blockIndex) => valueAt(hourly.precipitation_probability, blockIndex) ?? 0)
+    const rainVolume = blockIndexes.reduce(
+      (sum, blockIndex) => sum + (valueAt(hourly.precipitation, blockIndex) ?? 0),
+      0,
+    )
+    const snowVolume = blockIndexes.reduce(
+      (sum, blockIndex) => sum + (valueAt(hourly.snowfall, blockIndex) ?? 0),
+      0,
+    )
+    const localHour = toLocalHour(hourly.time[index], response.utc_offset_seconds)
+
+    entries.push({
+      dt: hourly.time[index],
+      main: {
+        temp,
+        feels_like: valueAt(hourly.apparent_temperature, index) ?? temp,
+        temp_min: Math.min(...blockTemps),
+        temp_max: Math.max(...blockTemps),
+        pressure: valueAt(hourly.pressure_msl, index) ?? Number.NaN,
+        humidity: valueAt(hourly.relative_humidity_2m, index) ?? 0,
+      },
+      weather: [toForecastWeather(hourly.weather_code?.[index], localHour >= 6 && localHour < 20)],
+      clouds: { all: valueAt(hourly.cloud_cover, index) ?? 0 },
+      wind: {
+        speed: valueAt(hourly.wind_speed_10m, index) ?? 0,
+        deg: valueAt(hourly.wind_direction_10m, index) ?? 0,
+        gust: valueAt(hourly.wind_gusts_10m, index),
+      },
+      visibility: (valueAt(hourly.visibility, index) ?? 10_000) * visibilityScale,
+      pop: Math.max(...pops) / 100,
+      rain: rainVolume > 0 ? { '3h': rainVolume } : undefined,
+      snow: snowVolume > 0 ? { '3h': snowVolume } : undefined,
+    })
+  }
+
+  return entries
+}
+
+const buildDailyEntries = (response: OpenMeteoForecastResponse): DailyForecastEntry[] => {
+  const daily = response.daily
+  if (!daily?.time.length) {
+    return []
+  }
+
+  return daily.time.flatMap((time, index) => {
+    const max = valueAt(daily.temperature_2m_max, index)
+    const min = valueAt(daily.temperature_2m_min, index)
+    if (max === undefined || min === undefined) {
+      return []
+    }
+    const pop = valueAt(daily.precipitation_probability_max, index)
+    const precipitation = valueAt(daily.precipitation_sum, index)
+
+    return [{
+      // Daily stamps are local midnight; shift to midday like OpenWeather's daily entries.
+      dt: time + 12 * 3600,
+      sunrise: daily.sunrise?.[index],
+      sunset: daily.sunset?.[index],
+      temp: {
+        day: (max + min) / 2,
+        max,
+        min,
+      },
+      weather: [toForecastWeather(daily.weather_code?.[index])],
+      wind_speed: valueAt(daily.wind_speed_10m_max, index),
+      wind_gust: valueAt(daily.wind_gusts_10m_max, index),
+      clouds: valueAt(daily.cloud_cover_mean, index),
+      pop: pop === undefined ? undefined : pop / 100,
+      rain: precipitation,
+    }]
+  })
+}
+
+const buildHourlyEntries = (
+  response: OpenMeteoForecastResponse,
+  nowSeconds: number,
+): HourlyForecastEntry[] => {
+  const hourly = response.hourly
+  if (!hourly?.time.length) {
+    return []
+  }
+
+  return hourly.time.flatMap((time, index) => {
+    const temp = valueAt(hourly.temperature_2m, index)
+    if (time + 3600 <= nowSeconds || temp === undefined) {
+      return []
+    }
+    const pop = valueAt(hourly.precipitation_probability, index)
+    const localHour = toLocalHour(time, response.utc_offset_seconds)
+
+    return [{
+      dt: time,
+      temp,
+      feels_like: valueAt(hourly.apparent_temperature, index) ?? temp,
+      weather: [toForecastWeather(hourly.weather_code?.[index], localHour >= 6 && localHour < 20)],
+      pop: pop === undefined ? undefined : pop / 100,
+    }]
+  })
+}
+
+const toSeries = <TEntry>(
+  response: OpenMeteoForecastResponse,
+  entries: TEntry[],
+): ForecastSeries<TEntry> => ({
+  entries,
+  timezoneOffsetSeconds: response.utc_offset_seconds,
+})
+
+interface OpenMeteoProviderOptions {
+  fetchJson?: JsonFetcher
+  now?: () => number
+}
+
+export const createOpenMeteoProvider = ({
+  fetchJson = defaultFetchJson,
+  now = Date.now,
+}: OpenMeteoProviderOptions = {}): WeatherProvider => {
+  // One forecast payload carries the short-range, daily and hourly series.
+  const memo = createResponseMemo({ ttlMs: RESPONSE_CACHE_TTL_MS, limit: RESPONSE_CACHE_LIMIT })
+
+  const fetchForecastPayload = ({ lat, lon }: Coordinates, units: Units, signal?: AbortSignal) => {
+    const params = new URLSearchParams({
+      latitude: String(lat),
+      longitude: String(lon),
+      hourly: HOURLY_FIELDS.join(','),
+      daily: DAILY_FIELDS.join(','),
+      temperature_unit: units === 'metric' ? 'celsius' : 'fahrenheit',
+      wind_speed_unit: units === 'metric' ? 'ms' : 'mph',
+      timeformat: 'unixtime',
+      timezone: 'auto',
+      forecast_days: String(DAILY_FORECAST_TARGET_DAYS),
+    })
+    const url = `${FORECAST_BASE}?${params.toString()}`
+    return memo(
+      url,
+      (sharedSignal) => fetchJson<OpenMeteoForecastResponse>(url, { source: SOURCE, signal: sharedSignal }),
+      signal,
+    )
+  }
+
+  const search = async (name: string, countryCode?: string, signal?: AbortSignal) => {
+    const params = new URLSearchParams({ name, count: '10', language: 'en', format: 'json' })
+    if (countryCode) {
+      params.set('countryCode', countryCode)
+    }
+    const response = await fetchJson<OpenMeteoGeocodingResponse>(
+      `${GEOCODING_BASE}?${params.toString()}`,
+      { source: SOURCE, signal },
+    )
+    return (response.results ?? []).map(toGeoLocation)
+  }
+
+  const geocode = (query: string, { signal }: ProviderRequestOptions = {}) => search(query.trim(), undefined, signal)
+
+  // The Open-Meteo geocoder matches postal codes through the same search endpoint.
+  const geocodeByZip = async (zip: string, country: string, { signal }: ProviderRequestOptions = {}) => {
+    try {
+      const [match] = await search(zip, country, signal)
+      return match ?? null
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error
+      }
+      return null
+    }
+  }
+
+  const reverseGeocode = async (
+    { lat, lon }: Coordinates,
+    { signal }: ProviderRequestOptions = {},
+  ): Promise<GeoLocation[]> => {
+    const params = new URLSearchParams({
+      latitude: String(lat),
+      longitude: String(lon),
+      localityLanguage: 'en',
+    })
+    const place = await fetchJson<BigDataCloudReverseGeocodeResponse>(
+      `${REVERSE_GEOCODING_BASE}?${params.toString()}`,
+      { source: 'BigDataCloud', signal },
+    )
+    const name = nonEmpty(place.city) ?? nonEmpty(place.locality)
+    if (!name) {
+      return []
+    }
+    return [{
+      name,
+      lat,
+      lon,
+      state: nonEmpty(place.principalSubdivision),
+      country: place.countryCode?.toUpperCase() ?? '',
+    }]
+  }
+
+  const fetchForecast = async (coords: Coordinates, units: Units, { signal }: ProviderRequestOptions = {}) => {
+    const response = await fetchForecastPayload(coords, units, signal)
+    return toSeries(response, buildShortRangeEntries(response, now() / 1000))
+  }
+
+  const fetchDailyForecast = async (coords: Coordinates, units: Units, { signal }: ProviderRequestOptions = {}) => {
+    const response = await fetchForecastPayload(coords, units, signal)
+    const entries = buildDailyEntries(response)
+    return entries.length ? toSeries(response, entries) : null
+  }
+
+  const fetchHourlyForecast = async (coords: Coordinates, units: Units, { signal }: ProviderRequestOptions = {}) => {
+    const response = await fetchForecastPayload(coords, units, signal)
+    const entries = buildHourlyEntries(response, now() / 1000)
+    return entries.length ? toSeries(response, entries) : null
+  }
+
+  return {
+    id: 'open-meteo',
+    label: SOURCE,
+    attribution: {
+      label: 'Weather data by Open-Meteo.com (CC BY 4.0)',
+      url: 'https://open-meteo.com/',
+    },
+    geocode,
+    geocodeByZip,
+    reverseGeocode,
+    fetchForecast,
+    fetchDailyForecast,
+    fetchHourlyForecast,
+  }
+}
+
+export const __internal = {
+  buildShortRangeEntries,
+  buildDailyEntries,
+  buildHourlyEntries,
+  toForecastWeather,
+}
@@ -0,0 +1,296 @@
+import type {
+  DailyForecastEntry,
+  DailyTemperature,
+  DataIssue,
+  ForecastEntry,
+  ForecastWeather,
+  HourlyForecastEntry,
+  LegacyDailyForecastEntry,
+} from '../types'
+import type { ForecastSeries } from './types'
+
+type UnknownRecord = Record<string, unknown>
+type Report = (field: string, resolution: DataIssue['resolution']) => void
+type EntryParser<T> = (raw: UnknownRecord, path: string, report: Report) => T | null
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const asRecord = (value: unknown) => (isRecord(value) ? value : undefined)
+
+const joinPath = (path: string, key: string) => (path ? `${path}.${key}` : key)
+
+const readNumber = (record: UnknownRecord | undefined, key: string) => {
+  const value = record?.[key]
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+}
+
+const readString = (record: UnknownRecord, key: string) => {
+  const value = record[key]
+  return typeof value === 'string' ? value : undefined
+}
+
+// Keeps the numeric readings of keyed groups such as `rain: { "3h": 0.4 }`.
+const readNumberRecord = (value: unknown): Record<string, number> | undefined => {
+  if (!isRecord(value)) {
+    return undefined
+  }
+  const readings = Object.entries(value).filter(
+    (entry): entry is [string, number] => typeof entry[1] === 'number' && Number.isFinite(entry[1]),
+  )
+  return readings.length ? Object.fromEntries(readings) : undefined
+}
+
+const createIssueLog = (initial: DataIssue[] = []) => {
+  const issues = [...initial]
+  const report: Report = (field, resolution) => {
+    issues.push({ field, resolution })
+  }
+  return { issues, report }
+}
+
+// Without this field the entry is unusable; the caller drops it.
+const requireNumber = (record: UnknownRecord | undefined, key: string, path: string, report: Report) => {
+  const value = readNumber(record, key)
+  if (value === undefined) {
+    report(joinPath(path, key), 'dropped')
+  }
+  return value
+}
+
+// A documented reading that has no stand-in; highlights built from it are skipped.
+const expectNumber = (record: UnknownRecord | undefined, key: string, path: string, report: Report) => {
+  const value = readNumber(record, key)
+  if (value === undefined) {
+    report(joinPath(path, key), 'missing')
+  }
+  return value
+}
+
+const repairNumber = (
+  record: UnknownRecord | undefined,
+  key: string,
+  path: string,
+  report: Report,
+  fallback: number,
+) => {
+  const value = readNumber(record, key)
+  if (value === undefined) {
+    report(joinPath(path, key), 'repaired')
+    return fallback
+  }
+  return value
+}
+
+const parseList = <T>(value: unknown, path: string, report: Report, parseEntry: EntryParser<T>): T[] => {
+  if (!Array.isArray(value)) {
+    report(path, 'dropped')
+    return []
+  }
+  return value.flatMap((raw: unknown, index) => {
+    const entryPath = `${path}[${index}]`
+    if (!isRecord(raw)) {
+      report(entryPath, 'dropped')
+      return []
+    }
+    const entry = parseEntry(raw, entryPath, report)
+    return entry ? [entry] : []
+  })
+}
+
+const parseConditions = (value: unknown, path: string, report: Report): ForecastWeather[] => {
+  if (!Array.isArray(value)) {
+    report(path, 'repaired')
+    return []
+  }
+  return value.flatMap((raw: unknown, index) => {
+    const condition = asRecord(raw)
+    const main = condition && readString(condition, 'main')
+    if (!condition || main === undefined) {
+      report(`${path}[${index}]`, 'dropped')
+      return []
+    }
+    return [{
+      id: readNumber(condition, 'id') ?? 0,
+      main,
+      description: readString(condition, 'description') ?? main,
+      icon: readString(condition, 'icon') ?? '',
+    }]
+  })
+}
+
+const parseForecastEntry: EntryParser<ForecastEntry> = (raw, path, report) => {
+  const main = asRecord(raw.main)
+  const mainPath = `${path}.main`
+  const dt = requireNumber(raw, 'dt', path, report)
+  if (dt === undefined) {
+    return null
+  }
+  const temp = requireNumber(main, 'temp', mainPath, report)
+  if (temp === undefined) {
+    return null
+  }
+
+  const wind = asRecord(raw.wind)
+  const windSpeed = expectNumber(wind, 'speed', `${path}.wind`, report)
+  const cloudCover = expectNumber(asRecord(raw.clouds), 'all', `${path}.clouds`, report)
+
+  return {
+    dt,
+    main: {
+      temp,
+      feels_like: repairNumber(main, 'feels_like', mainPath, report, temp),
+      temp_min: repairNumber(main, 'temp_min', mainPath, report, temp),
+      temp_max: repairNumber(main, 'temp_max', mainPath, report, temp),
+      pressure: expectNumber(main, 'pressure', mainPath, report),
+      sea_level: readNumber(main, 'sea_level'),
+      grnd_level: readNumber(main, 'grnd_level'),
+      humidity: expectNumber(main, 'humidity', mainPath, report),
+    },
+    weather: parseConditions(raw.weather, `${path}.weather`, report),
+    clouds: cloudCover === undefined ? undefined : { all: cloudCover },
+    wind: windSpeed === undefined
+      ? undefined
+      : { speed: windSpeed, deg: readNumber(wind, 'deg'), gust: readNumber(wind, 'gust') },
+    visibility: expectNumber(raw, 'visibility', path, report),
+    pop: expectNumber(raw, 'pop', path, report),
+    rain: readNumberRecord(raw.rain),
+    snow: readNumberRecord(raw.snow),
+  }
+}
+
+const parseDailyTemperature = (value: unknown, path: string, report: Report): DailyTemperature | null => {
+  const temp = asRecord(value)
+  const min = requireNumber(temp, 'min', path, report)
+  if (min === undefined) {
+    return null
+  }
+  const max = requireNumber(temp, 'max', path, report)
+  if (max === undefined) {
+    return null
+  }
+  return {
+    day: repairNumber(temp, 'day', path, report, (min + max) / 2),
+    min,
+    max,
+    night: readNumber(temp, 'night'),
+    eve: readNumber(temp, 'eve'),
+    morn: readNumber(temp, 'morn'),
+  }
+}
+
+// Fields One Call and the legacy daily endpoint share; they only disagree on the wind keys.
+const parseDailyFields = (raw: UnknownRecord, path: string, report: Report) => {
+  const dt = requireNumber(raw, 'dt', path, report)
+  if (dt === undefined) {
+    return null
+  }
+  const temp = parseDailyTemperature(raw.temp, `${path}.temp`, report)
+  if (!temp) {
+    return null
+  }
+  return {
+    dt,
+    sunrise: readNumber(raw, 'sunrise'),
+    sunset: readNumber(raw, 'sunset'),
+    temp,
+    feels_like: readNumberRecord(raw.feels_like),
+    pressure: readNumber(raw, 'pressure'),
+    humidity: readNumber(raw, 'humidity'),
+    weather: parseConditions(raw.weather, `${path}.weather`, report),
+    clouds: readNumber(raw, 'clouds'),
+    pop: readNumber(raw, 'pop'),
+    rain: readNumber(raw, 'rain'),
+    snow: readNumber(raw, 'snow'),
+  }
+}
+
+const parseDailyEntry: EntryParser<DailyForecastEntry> = (raw, path, report) => {
+  const fields = parseDailyFields(raw, path, report)
+  return fields && {
+    ...fields,
+    moonrise: readNumber(raw, 'moonrise'),
+    moonset: readNumber(raw, 'moonset'),
+    wind_speed: readNumber(raw, 'wind_speed'),
+    wind_gust: readNumber(raw, 'wind_gust'),
+    wind_deg: readNumber(raw, 'wind_deg'),
+  }
+}
+
+const parseLegacyDailyEntry: EntryParser<LegacyDailyForecastEntry> = (raw, path, report) => {
+  const fields = parseDailyFields(raw, path, report)
+  return fields && {
+    ...fields,
+    speed: readNumber(raw, 'speed'),
+    gust: readNumber(raw, 'gust'),
+    deg: readNumber(raw, 'deg'),
+  }
+}
+
+const parseHourlyEntry: EntryParser<HourlyForecastEntry> = (raw, path, report) => {
+  const dt = requireNumber(raw, 'dt', path, report)
+  if (dt === undefined) {
+    return null
+  }
+  const temp = requireNumber(raw, 'temp', path, report)
+  if (temp === undefined) {
+    return null
+  }
+  return {
+    dt,
+    temp,
+    feels_like: repairNumber(raw, 'feels_like', path, report, temp),
+    weather: raw.weather === undefined ? undefined : parseConditions(raw.weather, `${path}.weather`, report),
+    pop: readNumber(raw, 'pop'),
+  }
+}
+
+export interface OneCallSeries {
+  daily: ForecastSeries<DailyForecastEntry>
+  hourly: ForecastSeries<HourlyForecastEntry>
+}
+
+/**
+ * Validates a `/data/2.5/forecast` payload (`ForecastResponse`). Entries without a timestamp or
+ * temperature are dropped, derived readings are repaired from the temperature, and anything
+ * else that is missing is left out and listed in `issues`.
+ */
+export const parseForecastResponse = (payload: unknown): ForecastSeries<ForecastEntry> => {
+  const { issues, report } = createIssueLog()
+  const body = asRecord(payload) ?? {}
+  const entries = parseList(body.list, 'list', report, parseForecastEntry)
+  const timezoneOffsetSeconds = repairNumber(asRecord(body.city), 'timezone', 'city', report, 0)
+  return { entries, timezoneOffsetSeconds, issues }
+}
+
+/** Validates a One Call 3.0 payload (`ExtendedForecastResponse`) into its daily and hourly series. */
+export const parseOneCallResponse = (payload: unknown): OneCallSeries => {
+  const body = asRecord(payload) ?? {}
+  const timezone = createIssueLog()
+  const timezoneOffsetSeconds = repairNumber(body, 'timezone_offset', '', timezone.report, 0)
+
+  const daily = createIssueLog(timezone.issues)
+  const hourly = createIssueLog(timezone.issues)
+  return {
+    daily: {
+      entries: parseList(body.daily, 'daily', daily.report, parseDailyEntry),
+      timezoneOffsetSeconds,
+      issues: daily.issues,
+    },
+    hourly: {
+      // Hourly data is optional in One Call, so only a malformed list counts as an issue.
+      entries: body.hourly === undefined ? [] : parseList(body.hourly, 'hourly', hourly.report, parseHourlyEntry),
+      timezoneOffsetSeconds,
+      issues: hourly.issues,
+    },
+  }
+}
+
+/** Validates a `/data/2.5/forecast/daily` payload (`LegacyDailyForecastResponse`). */
+export const parseLegacyDailyResponse = (payload: unknown): ForecastSeries<LegacyDailyForecastEntry> => {
+  const { issues, report } = createIssueLog()
+  const body = asRecord(payload) ?? {}
+  const entries = parseList(body.list, 'list', report, parseLegacyDailyEntry)
+  const timezoneOffsetSeconds = repairNumber(asRecord(body.city), 'timezone', 'city', report, 0)
+  return { entries, timezoneOffsetSeconds, issues }
+}
@@ -0,0 +1,269 @@
+import type { Coordinates, DailyForecastEntry, DataIssue, GeoLocation, LegacyDailyForecastEntry } from '../types'
+import { isAbortError, shareRequest } from '../abort'
+import type { SharedRequest } from '../abort'
+import { fetchJson as defaultFetchJson } from '../http'
+import type { JsonFetcher } from '../http'
+import { parseForecastResponse, parseLegacyDailyResponse, parseOneCallResponse } from './openWeatherPayloads'
+import type { OneCallSeries } from './openWeatherPayloads'
+import { DAILY_FORECAST_TARGET_DAYS } from './types'
+import type { ForecastSeries, ProviderRequestOptions, Units, WeatherProvider } from './types'
+
+export const OPENWEATHER_API_BASE = 'https://api.openweathermap.org'
+const SOURCE = 'OpenWeather'
+
+const normalizeLegacyDailyEntry = (entry: LegacyDailyForecastEntry): DailyForecastEntry => ({
+  dt: entry.dt,
+  sunrise: entry.sunrise,
+  sunset: entry.sunset,
+  temp: entry.temp,
+  feels_like: entry.feels_like,
+  pressure: entry.pressure,
+  humidity: entry.humidity,
+  weather: entry.weather,
+  clouds: entry.clouds,
+  wind_speed: entry.speed,
+  wind_gust: entry.gust,
+  wind_deg: entry.deg,
+  pop: entry.pop,
+  rain: entry.rain,
+  snow: entry.snow,
+})
+
+const mergeDailyEntries = (
+  primary: DailyForecastEntry[],
+  fallback: DailyForecastEntry[],
+): DailyForecastEntry[] => {
+  const keyed = new Map<string, DailyForecastEntry>()
+
+  const apply = (entries: DailyForecastEntry[]) => {
+    entries.forEach((entry) => {
+      const key = new Date(entry.dt * 1000).toISOString().slice(0, 10)
+      if (!keyed.has(key)) {
+        keyed.set(key, entry)
+      }
+    })
+  }
+
+  apply(primary)
+  apply(fallback)
+
+  return Array.from(keyed.values())
+    .sort((a, b) => a.dt - b.dt)
+    .slice(0, DAILY_FORECAST_TARGET_DAYS)
+}
+
+interface OpenWeatherProviderOptions {
+  fetchJson?: JsonFetcher
+  // Point this at the proxy in `docker/proxy` to keep the API key off the client.
+  baseUrl?: string
+  // Omit when `baseUrl` is a proxy that adds the key server-side.
+  getApiKey?: () => string
+  // Optional data sources fail soft; hosts decide whether those failures are worth surfacing.
+  onWarning?: (message: string, error: unknown) => void
+  // How long One Call may run before the legacy daily endpoint is queried speculatively.
+  legacyHedgeDelayMs?: number
+}
+
+export const createOpenWeatherProvider = ({
+  fetchJson = defaultFetchJson,
+  baseUrl = OPENWEATHER_API_BASE,
+  getApiKey,
+  onWarning = () => undefined,
+  legacyHedgeDelayMs = 1000,
+}: OpenWeatherProviderOptions): WeatherProvider => {
+  const base = baseUrl.replace(/\/+$/, '')
+  const request = <T>(path: string, params: Record<string, string>, signal?: AbortSignal) => {
+    const search = new URLSearchParams(getApiKey ? { ...params, appid: getApiKey() } : params)
+    return fetchJson<T>(`${base}${path}?${search.toString()}`, { source: SOURCE, signal })
+  }
+
+  const reportIssues = (payload: string, issues: DataIssue[] | undefined) => {
+    if (issues?.length) {
+      onWarning(`Repaired malformed ${payload} payload:`, issues)
+    }
+  }
+
+  // Daily and hourly outlooks both come from One Call; share the in-flight request between them.
+  const pendingOneCall = new Map<string, SharedRequest<OneCallSeries | null>>()
+
+  const fetchOneCall = ({ lat, lon }: Coordinates, units: Units, signal?: AbortSignal) => {
+    const key = `${lat}|${lon}|${units}`
+    const pending = pendingOneCall.get(key)
+    if (pending && !pending.signal.aborted) {
+      return pending.join(signal)
+    }
+
+    // OpenWeather One Call 3.0 exposes up to 16 daily entries; we ingest and trim to 10.
+    const next = shareRequest((sharedSignal) =>
+      request<unknown>(
+        '/data/3.0/onecall',
+        {
+          lat: String(lat),
+          lon: String(lon),
+          units,
+          exclude: 'current,minutely,alerts',
+        },
+        sharedSignal,
+      ).then((payload) => {
+        const series = parseOneCallResponse(payload)
+        reportIssues('One Call', [...(series.daily.issues ?? []), ...(series.hourly.issues ?? [])])
+        return series
+      }).catch((error: unknown) => {
+        if (isAbortError(error)) {
+          throw error
+        }
+        onWarning('Extended daily forecast unavailable:', error)
+        return null
+      }),
+    )
+    pendingOneCall.set(key, next)
+    void next.promise
+      .catch(() => undefined)
+      .finally(() => {
+        if (pendingOneCall.get(key) === next) {
+          pendingOneCall.delete(key)
+        }
+      })
+    return next.join(signal)
+  }
+
+  const fetchLegacyDaily = async ({ lat, lon }: Coordinates, units: Units, signal?: AbortSignal) => {
+    try {
+      const payload = await request<unknown>(
+        '/data/2.5/forecast/daily',
+        {
+          lat: String(lat),
+          lon: String(lon),
+          units,
+          cnt: String(DAILY_FORECAST_TARGET_DAYS + 2),
+        },
+        signal,
+      )
+      const series = parseLegacyDailyResponse(payload)
+      reportIssues('legacy daily forecast', series.issues)
+      return series
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error
+      }
+      onWarning('Legacy daily forecast unavailable:', error)
+      return null
+    }
+  }
+
+  const geocode = (query: string, { signal }: ProviderRequestOptions = {}) =>
+    request<GeoLocation[]>('/geo/1.0/direct', { q: query.trim(), limit: '5' }, signal)
+
+  const geocodeByZip = async (
+    zip: string,
+    country: string,
+    { signal }: ProviderRequestOptions = {},
+  ): Promise<GeoLocation | null> => {
+    try {
+      const result = await request<{
+        zip: string
+        name: string
+        lat: number
+        lon: number
+        country: string
+      }>('/geo/1.0/zip', { zip: `${zip},${country}` }, signal)
+      return {
+        name: result.name,
+        lat: result.lat,
+        lon: result.lon,
+        country: result.country,
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error
+      }
+      return null
+    }
+  }
+
+  const reverseGeocode = ({ lat, lon }: Coordinates, { signal }: ProviderRequestOptions = {}) =>
+    request<GeoLocation[]>('/geo/1.0/reverse', { lat: String(lat), lon: String(lon), limit: '1' }, signal)
+
+  const fetchForecast = async ({ lat, lon }: Coordinates, units: Units, { signal }: ProviderRequestOptions = {}) => {
+    const payload = await request<unknown>(
+      '/data/2.5/forecast',
+      {
+        lat: String(lat),
+        lon: String(lon),
+        units,
+      },
+      signal,
+    )
+    const series = parseForecastResponse(payload)
+    reportIssues('5 day forecast', series.issues)
+    return series
+  }
+
+  const fetchDailyForecast = async (
+    coords: Coordinates,
+    units: Units,
+    { signal }: ProviderRequestOptions = {},
+  ): Promise<ForecastSeries<DailyForecastEntry> | null> => {
+    // A slow One Call often ends short or failed, so hedge with the legacy endpoint rather than
+    // paying for both round trips back to back. A fast, complete One Call skips it entirely.
+    let legacy: Promise<ForecastSeries<LegacyDailyForecastEntry> | null> | undefined
+    const startLegacy = () => {
+      legacy ??= fetchLegacyDaily(coords, units, signal)
+      return legacy
+    }
+    const hedge = setTimeout(() => {
+      void startLegacy().catch(() => undefined)
+    }, legacyHedgeDelayMs)
+
+    let primary: OneCallSeries | null
+    try {
+      primary = await fetchOneCall(coords, units, signal)
+    } finally {
+      clearTimeout(hedge)
+    }
+    if (primary && primary.daily.entries.length >= DAILY_FORECAST_TARGET_DAYS) {
+      return primary.daily
+    }
+
+    const fallback = await startLegacy()
+    if (!fallback?.entries.length) {
+      return primary?.daily ?? null
+    }
+
+    const fallbackAsDaily = {
+      ...fallback,
+      entries: fallback.entries.map(normalizeLegacyDailyEntry),
+    }
+
+    if (!primary) {
+      return fallbackAsDaily
+    }
+
+    return {
+      entries: mergeDailyEntries(primary.daily.entries, fallbackAsDaily.entries),
+      timezoneOffsetSeconds: primary.daily.timezoneOffsetSeconds,
+      issues: [...(primary.daily.issues ?? []), ...(fallback.issues ?? [])],
+    }
+  }
+
+  const fetchHourlyForecast = async (coords: Coordinates, units: Units, { signal }: ProviderRequestOptions = {}) => {
+    const primary = await fetchOneCall(coords, units, signal)
+    return primary?.hourly.entries.length ? primary.hourly : null
+  }
+
+  return {
+    id: 'openweather',
+    label: SOURCE,
+    geocode,
+    geocodeByZip,
+    reverseGeocode,
+    fetchForecast,
+    fetchDailyForecast,
+    fetchHourlyForecast,
+  }
+}
+
+export const __internal = {
+  mergeDailyEntries,
+  normalizeLegacyDailyEntry,
+}
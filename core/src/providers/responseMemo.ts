@@ -0,0 +1,32 @@
+import { shareRequest } from '../abort'
+import type { SharedRequest } from '../abort'
+
+interface ResponseMemoOptions {
+  ttlMs: number
+  limit: number
+}
+
+// Adapters that serve several series from one upstream payload share recent responses here.
+// Callers cancel independently; the upstream request only stops once all of them have.
+export const createResponseMemo = ({ ttlMs, limit }: ResponseMemoOptions) => {
+  const entries = new Map<string, { expiresAt: number; response: SharedRequest<unknown> }>()
+
+  return <T>(key: string, load: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    const now = Date.now()
+    const cached = entries.get(key)
+    if (cached && cached.expiresAt > now && !cached.response.signal.aborted) {
+      return cached.response.join(signal) as Promise<T>
+    }
+    if (entries.size >= limit) {
+      entries.clear()
+    }
+    const response = shareRequest(load)
+    entries.set(key, { expiresAt: now + ttlMs, response })
+    response.promise.catch(() => {
+      if (entries.get(key)?.response === response) {
+        entries.delete(key)
+      }
+    })
+    return response.join(signal)
+  }
+}
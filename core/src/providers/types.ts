@@ -0,0 +1,57 @@
+import type {
+  Coordinates,
+  DailyForecastEntry,
+  DataIssue,
+  ForecastAttribution,
+  ForecastEntry,
+  GeoLocation,
+  HourlyForecastEntry,
+} from '../types'
+
+export type Units = 'metric' | 'imperial'
+
+export const DAILY_FORECAST_TARGET_DAYS = 10
+
+export interface ForecastSeries<TEntry> {
+  entries: TEntry[]
+  // Seconds to add to UTC timestamps to land on the location's wall clock.
+  timezoneOffsetSeconds: number
+  // Fields the adapter dropped or repaired while validating the payload.
+  issues?: DataIssue[]
+}
+
+export interface ProviderRequestOptions {
+  signal?: AbortSignal
+}
+
+/**
+ * A source of geocoding and forecast data. Adapters translate their payloads into the
+ * OpenWeather-shaped entries the highlight and outlook builders already understand:
+ * temperatures in the requested units, wind in m/s (metric) or mph (imperial),
+ * visibility in meters and precipitation probability as a 0–1 ratio. Every request accepts an
+ * optional `signal` and rejects with an `AbortError` once it fires.
+ */
+export interface WeatherProvider {
+  id: string
+  label: string
+  // Credit line for sources whose licence requires it alongside the forecast.
+  attribution?: ForecastAttribution
+  geocode: (query: string, options?: ProviderRequestOptions) => Promise<GeoLocation[]>
+  geocodeByZip: (zip: string, country: string, options?: ProviderRequestOptions) => Promise<GeoLocation | null>
+  reverseGeocode: (coords: Coordinates, options?: ProviderRequestOptions) => Promise<GeoLocation[]>
+  fetchForecast: (
+    coords: Coordinates,
+    units: Units,
+    options?: ProviderRequestOptions,
+  ) => Promise<ForecastSeries<ForecastEntry>>
+  fetchDailyForecast: (
+    coords: Coordinates,
+    units: Units,
+    options?: ProviderRequestOptions,
+  ) => Promise<ForecastSeries<DailyForecastEntry> | null>
+  fetchHourlyForecast: (
+    coords: Coordinates,
+    units: Units,
+    options?: ProviderRequestOptions,
+  ) => Promise<ForecastSeries<HourlyForecastEntry> | null>
+}
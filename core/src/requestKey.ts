@@ -0,0 +1,43 @@
+const IGNORED_PARAMS = new Set(['appid'])
+const COORDINATE_PARAMS = new Set(['lat', 'lon', 'latitude', 'longitude'])
+const QUERY_PARAMS = new Set(['q', 'zip', 'name'])
+
+interface RequestKeyOptions {
+  coordinateDigits?: number
+}
+
+const decode = (value: string) => decodeURIComponent(value.replace(/\+/g, ' '))
+const encode = (value: string) => encodeURIComponent(value).replace(/%20/g, '+')
+
+const normalizeParam = (name: string, value: string, coordinateDigits: number) => {
+  if (COORDINATE_PARAMS.has(name)) {
+    const coordinate = Number(value)
+    return Number.isFinite(coordinate) ? coordinate.toFixed(coordinateDigits) : value
+  }
+  if (QUERY_PARAMS.has(name)) {
+    return value.trim().replace(/\s+/g, ' ').toLowerCase()
+  }
+  return value
+}
+
+/**
+ * Identifies a request by endpoint and normalized params so stored responses survive key rotation,
+ * param reordering, coordinate jitter and casing differences in typed queries. Parses by hand
+ * because React Native's `URL` lacks `searchParams`.
+ */
+export const buildRequestKey = (url: string, { coordinateDigits = 4 }: RequestKeyOptions = {}) => {
+  const [base, query = ''] = url.split('?')
+  const endpoint = base.replace(/^[a-z]+:\/\//i, '')
+  const params = query
+    .split('&')
+    .filter(Boolean)
+    .map((pair) => {
+      const [name, value = ''] = pair.split('=')
+      return [decode(name), decode(value)]
+    })
+    .filter(([name]) => !IGNORED_PARAMS.has(name))
+    .map(([name, value]) => [name, normalizeParam(name, value, coordinateDigits)])
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${encode(name)}=${encode(value)}`)
+  return params.length ? `${endpoint}?${params.join('&')}` : endpoint
+}
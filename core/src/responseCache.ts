@@ -0,0 +1,165 @@
+import { shareRequest, throwIfAborted } from './abort'
+import type { SharedRequest } from './abort'
+import type { FetchJsonOptions, JsonFetcher } from './http'
+import { buildRequestKey } from './requestKey'
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+const DAY_MS = 24 * HOUR_MS
+
+export const RESPONSE_CACHE_STORAGE_KEY = 'optimistic-weather-response-cache-v1'
+
+// Browsers allow about 5 MB per origin for everything in `localStorage`; one One Call payload can
+// run to 100 KB, so the persisted copy keeps only the newest entries that fit this budget.
+const DEFAULT_MAX_STORED_CHARS = 1_000_000
+
+// Browser `localStorage` and React Native's AsyncStorage both fit this shape.
+export interface CacheStorage {
+  getItem: (key: string) => string | null | Promise<string | null>
+  setItem: (key: string, value: string) => void | Promise<void>
+}
+
+export interface CachePolicy {
+  match: RegExp
+  ttlMs: number
+  // How long past the TTL a response may still be served while a fresh copy loads in the background.
+  staleMs: number
+}
+
+interface CacheEntry {
+  storedAt: number
+  body: unknown
+}
+
+const FALLBACK_POLICY: CachePolicy = { match: /./, ttlMs: 10 * MINUTE_MS, staleMs: 6 * HOUR_MS }
+
+// First match wins. Places barely move, so geocoding keeps for a week; forecasts turn over quickly.
+export const DEFAULT_CACHE_POLICIES: CachePolicy[] = [
+  { match: /\/geo\/1\.0\/|geocoding-api\.open-meteo\.com|reverse-geocode/, ttlMs: 7 * DAY_MS, staleMs: 30 * DAY_MS },
+  { match: /api\.weather\.gov\/points\//, ttlMs: DAY_MS, staleMs: 7 * DAY_MS },
+  { match: /\/data\/2\.5\/forecast\/daily/, ttlMs: HOUR_MS, staleMs: 12 * HOUR_MS },
+  { match: /\/data\/3\.0\/onecall|\/data\/2\.5\/forecast/, ttlMs: 10 * MINUTE_MS, staleMs: 6 * HOUR_MS },
+  { match: /api\.open-meteo\.com\/v1\/forecast|api\.weather\.gov\/gridpoints\//, ttlMs: 15 * MINUTE_MS, staleMs: 6 * HOUR_MS },
+]
+
+interface CachedFetcherOptions {
+  fetchJson: JsonFetcher
+  storage?: CacheStorage
+  policies?: CachePolicy[]
+  maxEntries?: number
+  // Upper bound on the persisted JSON's length; the in-memory cache is only capped by `maxEntries`.
+  maxStoredChars?: number
+  now?: () => number
+  onWarning?: (message: string, error: unknown) => void
+}
+
+/**
+ * Wraps a fetcher with a persisted response cache. Fresh entries return immediately; entries past
+ * their TTL but inside the stale window also return immediately while a refresh runs in the
+ * background. Keys round coordinates to two decimals (about 1 km) so nearby lookups share data.
+ */
+export const createCachedFetcher = ({
+  fetchJson,
+  storage,
+  policies = DEFAULT_CACHE_POLICIES,
+  maxEntries = 30,
+  maxStoredChars = DEFAULT_MAX_STORED_CHARS,
+  now = Date.now,
+  onWarning = () => undefined,
+}: CachedFetcherOptions): JsonFetcher => {
+  const pending = new Map<string, SharedRequest<unknown>>()
+  let hydrated: Promise<Map<string, CacheEntry>> | undefined
+
+  const policyFor = (url: string) => policies.find((policy) => policy.match.test(url)) ?? FALLBACK_POLICY
+
+  const hydrate = () => {
+    hydrated ??= (async () => {
+      const entries = new Map<string, CacheEntry>()
+      try {
+        const raw = await storage?.getItem(RESPONSE_CACHE_STORAGE_KEY)
+        const parsed = raw ? (JSON.parse(raw) as unknown) : []
+        const stored = Array.isArray(parsed) ? (parsed as [string, CacheEntry | undefined][]) : []
+        stored.forEach(([key, entry]) => {
+          if (typeof key === 'string' && typeof entry?.storedAt === 'number') {
+            entries.set(key, entry)
+          }
+        })
+      } catch (error) {
+        onWarning('Unable to read cached responses:', error)
+      }
+      return entries
+    })()
+    return hydrated
+  }
+
+  const persist = async (entries: Map<string, CacheEntry>) => {
+    const newestFirst = Array.from(entries.entries()).sort(([, a], [, b]) => b.storedAt - a.storedAt)
+    newestFirst.slice(maxEntries).forEach(([key]) => entries.delete(key))
+    if (!storage) {
+      return
+    }
+    // Newest first, skipping any entry that would push the payload past the budget.
+    const serialized: string[] = []
+    let length = 2
+    newestFirst.slice(0, maxEntries).forEach((entry) => {
+      const json = JSON.stringify(entry)
+      if (length + json.length + 1 <= maxStoredChars) {
+        serialized.push(json)
+        length += json.length + 1
+      }
+    })
+    try {
+      await storage.setItem(RESPONSE_CACHE_STORAGE_KEY, `[${serialized.join(',')}]`)
+    } catch (error) {
+      onWarning('Unable to persist cached responses:', error)
+    }
+  }
+
+  // Concurrent callers share one request; it is only cancelled once all of them have aborted.
+  const load = (key: string, url: string, options: FetchJsonOptions | undefined, entries: Map<string, CacheEntry>) => {
+    const inFlight = pending.get(key)
+    if (inFlight && !inFlight.signal.aborted) {
+      return inFlight
+    }
+    const request = shareRequest((signal) =>
+      fetchJson<unknown>(url, { ...options, signal }).then((body) => {
+        entries.set(key, { storedAt: now(), body })
+        void persist(entries)
+        return body
+      }),
+    )
+    pending.set(key, request)
+    void request.promise
+      .catch(() => undefined)
+      .finally(() => {
+        if (pending.get(key) === request) {
+          pending.delete(key)
+        }
+      })
+    return request
+  }
+
+  return async <T>(url: string, options?: FetchJsonOptions): Promise<T> => {
+    const key = buildRequestKey(url, { coordinateDigits: 2 })
+    const entries = await hydrate()
+    throwIfAborted(options?.signal)
+    const cached = entries.get(key)
+
+    if (cached) {
+      const { ttlMs, staleMs } = policyFor(url)
+      const age = now() - cached.storedAt
+      if (age < ttlMs) {
+        return cached.body as T
+      }
+      if (age < ttlMs + staleMs) {
+        // The refresh outlives the caller, so it joins without the caller's signal.
+        load(key, url, options, entries).join().catch((error: unknown) => {
+          onWarning('Background refresh failed:', error)
+        })
+        return cached.body as T
+      }
+    }
+
+    return load(key, url, options, entries).join(options?.signal) as Promise<T>
+  }
+}
@@ -0,0 +1,80 @@
+import type { Coordinates, GeoLocation, LocationSuggestion, SearchHistoryEntry } from './types'
+import { isSamePlace, rankLocationMatches } from './geocoding'
+import type { LocationPreferences } from './geocoding'
+
+export interface SuggestionContext {
+  // Where the user was last geolocated. Nearer places rank higher and carry their distance.
+  origin?: Coordinates
+  // Past searches. Places the user looks up often, or lately, rank higher.
+  history?: SearchHistoryEntry[]
+}
+
+const EARTH_RADIUS_KM = 6371
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Both bonuses are on the `rankLocationMatches` score scale, and each is smaller than what a typed
+// region swings, so "Portland, OR" still beats the Portland next door.
+const PROXIMITY_BONUS = 30
+// A place this far away gets half the proximity bonus.
+const NEARBY_KM = 100
+const HISTORY_BONUS = 30
+// A search this many days old counts half as much as one made today.
+const HISTORY_HALF_LIFE_DAYS = 14
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+/** Great-circle distance in kilometres. */
+export const distanceKm = (from: Coordinates, to: Coordinates) => {
+  const dLat = toRadians(to.lat - from.lat)
+  const dLon = toRadians(to.lon - from.lon)
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+const proximityBonus = (km: number) => PROXIMITY_BONUS / (1 + km / NEARBY_KM)
+
+// Each successful search of the place counts once per time it was repeated, fading with age; the
+// bonus saturates so a daily habit cannot bury everything else.
+const historyBonus = (location: GeoLocation, history: SearchHistoryEntry[], now: number) => {
+  const weight = history.reduce((total, entry) => {
+    if (!entry.success || !entry.location || !isSamePlace(entry.location, location)) {
+      return total
+    }
+    const ageDays = Math.max(0, now - entry.timestamp) / DAY_MS
+    return total + (entry.searchCount ?? 1) * 0.5 ** (ageDays / HISTORY_HALF_LIFE_DAYS)
+  }, 0)
+  return HISTORY_BONUS * (1 - 1 / (1 + weight))
+}
+
+/** Adds `distanceKm` to each suggestion when the user's position is known. */
+export const withDistances = (suggestions: LocationSuggestion[], { origin }: SuggestionContext) =>
+  origin
+    ? suggestions.map((suggestion) => ({ ...suggestion, distanceKm: distanceKm(origin, suggestion.location) }))
+    : suggestions
+
+/**
+ * Orders text suggestions by how well they match `query`, plus bonuses for being near the user
+ * and for being searched often or lately. Ties keep their incoming order.
+ */
+export const rankSuggestions = (
+  query: string,
+  suggestions: LocationSuggestion[],
+  context: SuggestionContext,
+  preferences: LocationPreferences = {},
+  now = Date.now(),
+): LocationSuggestion[] => {
+  const { history = [] } = context
+  const scores = new Map(
+    rankLocationMatches(query, suggestions.map((suggestion) => suggestion.location), preferences)
+      .map((match) => [match.location, match.score]),
+  )
+  return withDistances(suggestions, context)
+    .map((suggestion, index) => {
+      const proximity = suggestion.distanceKm === undefined ? 0 : proximityBonus(suggestion.distanceKm)
+      const score = (scores.get(suggestion.location) ?? 0) + proximity + historyBonus(suggestion.location, history, now)
+      return { suggestion, score, index }
+    })
+    .sort((a, b) => (a.score === b.score ? a.index - b.index : b.score - a.score))
+    .map(({ suggestion }) => suggestion)
+}
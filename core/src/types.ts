@@ -0,0 +1,389 @@
+export interface GeoLocation {
+  name: string
+  lat: number
+  lon: number
+  state?: string
+  country: string
+  // Residents, where known; the larger of two same-name places ranks first.
+  population?: number
+}
+
+export interface ForecastWeather {
+  id: number
+  main: string
+  description: string
+  icon: string
+}
+
+export interface ForecastEntry {
+  dt: number
+  main: {
+    temp: number
+    feels_like: number
+    temp_min: number
+    temp_max: number
+    // Measurements below may be missing from a repaired payload; highlights that need them are skipped.
+    pressure?: number
+    sea_level?: number
+    grnd_level?: number
+    humidity?: number
+  }
+  weather: ForecastWeather[]
+  clouds?: {
+    all: number
+  }
+  wind?: {
+    speed: number
+    deg?: number
+    gust?: number
+  }
+  visibility?: number
+  pop?: number
+  rain?: Record<string, number>
+  snow?: Record<string, number>
+}
+
+export interface ForecastResponse {
+  cod: string
+  message: number
+  cnt: number
+  list: ForecastEntry[]
+  city: {
+    id: number
+    name: string
+    coord: {
+      lat: number
+      lon: number
+    }
+    country: string
+    population: number
+    timezone: number
+    sunrise: number
+    sunset: number
+  }
+}
+
+export interface DailyTemperature {
+  day: number
+  min: number
+  max: number
+  night?: number
+  eve?: number
+  morn?: number
+}
+
+export interface DailyForecastEntry {
+  dt: number
+  sunrise?: number
+  sunset?: number
+  moonrise?: number
+  moonset?: number
+  temp: DailyTemperature
+  feels_like?: Record<string, number>
+  pressure?: number
+  humidity?: number
+  weather: ForecastWeather[]
+  clouds?: number
+  wind_speed?: number
+  wind_gust?: number
+  wind_deg?: number
+  pop?: number
+  rain?: number
+  snow?: number
+}
+
+export interface HourlyForecastEntry {
+  dt: number
+  temp: number
+  feels_like: number
+  weather?: ForecastWeather[]
+  pop?: number
+}
+
+export interface ExtendedForecastResponse {
+  lat: number
+  lon: number
+  timezone: string
+  timezone_offset: number
+  daily: DailyForecastEntry[]
+  hourly?: HourlyForecastEntry[]
+}
+
+export interface LegacyDailyForecastEntry {
+  dt: number
+  sunrise?: number
+  sunset?: number
+  temp: DailyTemperature
+  feels_like?: Record<string, number>
+  pressure?: number
+  humidity?: number
+  weather: ForecastWeather[]
+  clouds?: number
+  speed?: number
+  gust?: number
+  deg?: number
+  pop?: number
+  rain?: number
+  snow?: number
+}
+
+export interface LegacyDailyForecastResponse {
+  city: {
+    timezone: number
+  }
+  list: LegacyDailyForecastEntry[]
+}
+
+export interface NwsQuantitativeValue {
+  unitCode?: string
+  value: number | null
+}
+
+export interface NwsPointResponse {
+  properties: {
+    forecast: string
+    forecastHourly: string
+    timeZone?: string
+    relativeLocation?: {
+      properties: {
+        city: string
+        state: string
+      }
+    }
+  }
+}
+
+export interface NwsForecastPeriod {
+  number: number
+  name: string
+  startTime: string
+  endTime: string
+  isDaytime: boolean
+  temperature: number
+  temperatureUnit: 'F' | 'C'
+  probabilityOfPrecipitation?: NwsQuantitativeValue
+  relativeHumidity?: NwsQuantitativeValue
+  windSpeed: string
+  windGust?: string | null
+  windDirection: string
+  icon: string
+  shortForecast: string
+  detailedForecast: string
+}
+
+export interface NwsForecastResponse {
+  properties: {
+    periods: NwsForecastPeriod[]
+  }
+}
+
+export interface OpenMeteoGeocodingResult {
+  id: number
+  name: string
+  latitude: number
+  longitude: number
+  country_code?: string
+  admin1?: string
+  population?: number
+}
+
+export interface OpenMeteoGeocodingResponse {
+  results?: OpenMeteoGeocodingResult[]
+}
+
+export interface OpenMeteoHourlySeries {
+  time: number[]
+  temperature_2m: (number | null)[]
+  apparent_temperature?: (number | null)[]
+  relative_humidity_2m?: (number | null)[]
+  precipitation_probability?: (number | null)[]
+  precipitation?: (number | null)[]
+  snowfall?: (number | null)[]
+  weather_code?: (number | null)[]
+  cloud_cover?: (number | null)[]
+  visibility?: (number | null)[]
+  pressure_msl?: (number | null)[]
+  wind_speed_10m?: (number | null)[]
+  wind_gusts_10m?: (number | null)[]
+  wind_direction_10m?: (number | null)[]
+}
+
+export interface OpenMeteoDailySeries {
+  time: number[]
+  weather_code?: (number | null)[]
+  temperature_2m_max: (number | null)[]
+  temperature_2m_min: (number | null)[]
+  apparent_temperature_max?: (number | null)[]
+  apparent_temperature_min?: (number | null)[]
+  precipitation_probability_max?: (number | null)[]
+  precipitation_sum?: (number | null)[]
+  cloud_cover_mean?: (number | null)[]
+  sunrise?: number[]
+  sunset?: number[]
+  wind_speed_10m_max?: (number | null)[]
+  wind_gusts_10m_max?: (number | null)[]
+}
+
+export interface OpenMeteoForecastResponse {
+  latitude: number
+  longitude: number
+  utc_offset_seconds: number
+  timezone: string
+  hourly_units?: Record<string, string>
+  hourly?: OpenMeteoHourlySeries
+  daily?: OpenMeteoDailySeries
+}
+
+export interface BigDataCloudReverseGeocodeResponse {
+  latitude: number
+  longitude: number
+  city?: string
+  locality?: string
+  principalSubdivision?: string
+  principalSubdivisionCode?: string
+  countryCode?: string
+}
+
+/**
+ * A field an adapter had to drop or repair while validating an upstream payload. `dropped`
+ * discards the whole entry, `repaired` fills the field from a related value (feels-like from the
+ * temperature, say) and `missing` leaves an optional reading out.
+ */
+export interface DataIssue {
+  // Path into the upstream payload, e.g. "list[3].main.temp".
+  field: string
+  resolution: 'dropped' | 'repaired' | 'missing'
+}
+
+export interface OptimisticHighlight {
+  id: string
+  title: string
+  takeaway: string
+  detail?: string
+  metricLabel?: string
+  metricValue?: string
+  heroStatValue?: string
+  heroStatLabel?: string
+}
+
+/**
+ * A forecast in canonical metric units (°C, m/s, meters) regardless of the unit toggle.
+ * Pass it through `presentForecast` to get display values and highlight copy for either system.
+ */
+export interface OptimisticForecast {
+  locationLabel: string
+  nextUpdate: Date
+  temperature: {
+    current: number
+    feelsLike: number
+    high: number
+    low: number
+  }
+  skySummary: string
+  // Roughly the next 24 hours of short-range entries; highlights are phrased from these.
+  horizon: ForecastEntry[]
+  timezoneOffsetSeconds: number
+  extendedOutlook?: OptimisticExtendedOutlook
+  hourlyOutlook?: OptimisticHourlyOutlook[]
+  coordinates: Coordinates
+  // The place the forecast was made for; replaying it skips geocoding.
+  location: GeoLocation
+  // Other places the query could just as well mean ("Springfield"), closest first. Only set
+  // when the match was too close to call, so the user can switch before trusting the forecast.
+  alternatives?: GeoLocation[]
+  attribution?: ForecastAttribution
+  timings: ForecastTimings
+  // Present when the upstream payloads needed repairs; some highlights may be missing as a result.
+  dataIssues?: DataIssue[]
+}
+
+/**
+ * Wall-clock milliseconds spent on each stage of `fetchOptimisticForecast`. Series fetched in
+ * parallel overlap, so the stages do not sum to `totalMs`. `null` marks an optional series that
+ * missed the latency budget and was left out of the result.
+ */
+export interface ForecastTimings {
+  geocodeMs: number
+  forecastMs: number
+  dailyMs: number | null
+  hourlyMs: number | null
+  totalMs: number
+}
+
+export interface PresentedForecast extends Omit<OptimisticForecast, 'temperature' | 'horizon'> {
+  temperature: OptimisticForecast['temperature'] & {
+    units: 'metric' | 'imperial'
+  }
+  highlights: OptimisticHighlight[]
+}
+
+export interface ForecastAttribution {
+  label: string
+  url: string
+}
+
+export interface Coordinates {
+  lat: number
+  lon: number
+}
+
+export interface LocationSuggestion {
+  location: GeoLocation
+  searchValue: string
+  // Great-circle distance from the user's last known position, when there is one.
+  distanceKm?: number
+}
+
+export interface SearchHistoryEntry {
+  id: string
+  query: string
+  timestamp: number
+  success: boolean
+  locationLabel?: string
+  // Set for successful searches so replays forecast the same point instead of re-geocoding `query`.
+  location?: GeoLocation
+  // Successful searches of this query so far; frequently searched places rank higher in suggestions.
+  searchCount?: number
+  errorMessage?: string
+}
+
+// A pinned place. Unlike history it never rolls off; the list order is the user's order.
+export interface FavoriteLocation {
+  id: string
+  // What the user calls it ("Home", "The cabin"); shown instead of the place label.
+  nickname: string
+  location: GeoLocation
+  addedAt: number
+}
+
+export interface OptimisticDailyOutlook {
+  date: Date
+  high: number
+  low: number
+  dayAverage: number
+  precipitationChancePercent: number | null
+  // Mean cloud cover for the day, when the provider reports one.
+  cloudCoverPercent?: number
+  condition: string
+  description: string
+  sunrise?: Date
+  sunset?: Date
+  source: 'onecall'
+}
+
+export interface OptimisticExtendedOutlook {
+  days: OptimisticDailyOutlook[]
+  isComplete: boolean
+  message?: string
+}
+
+export interface OptimisticHourlyOutlook {
+  id: string
+  time: Date
+  temperature: number
+  feelsLike: number
+  precipitationChancePercent: number | null
+  condition: string
+  description: string
+  icon?: string
+}
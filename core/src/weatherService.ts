@@ -0,0 +1,493 @@
+import type {
+  Coordinates,
+  ForecastEntry,
+  GeoLocation,
+  HourlyForecastEntry,
+  LocationSuggestion,
+  OptimisticExtendedOutlook,
+  OptimisticForecast,
+} from './types'
+import { isAbortError, throwIfAborted } from './abort'
+import { formatCoordinates, parseCoordinateQuery, recoverPlusCode } from './coordinates'
+import type { CoordinateQuery } from './coordinates'
+import { createWeatherError } from './errors'
+import { bundledGazetteer } from './gazetteer'
+import type { Gazetteer } from './gazetteer'
+import { TIMED_OUT, createLatencyBudget, timed } from './latency'
+import type { Timed } from './latency'
+import {
+  DEFAULT_HOME_COUNTRY,
+  dedupeSuggestions,
+  findCloseMatches,
+  formatLocationLabel,
+  isSamePlace,
+  pickBestMatch,
+  rankLocationMatches,
+} from './geocoding'
+import type { PlaceChoices } from './placeChoices'
+import { rankSuggestions, withDistances } from './suggestionRanking'
+import type { SuggestionContext } from './suggestionRanking'
+import { formatPostalCode, parsePostalCode } from './postalCodes'
+import type { PostalCodeQuery } from './postalCodes'
+import { buildSkySummary } from './highlights'
+import { buildExtendedOutlook, buildHourlyOutlook } from './outlook'
+import { DAILY_FORECAST_TARGET_DAYS } from './providers/types'
+import type { Units, WeatherProvider } from './providers/types'
+
+const CANONICAL_UNITS: Units = 'metric'
+const EXTENDED_OUTLOOK_REQUIRED_DAYS = DAILY_FORECAST_TARGET_DAYS
+const EXTENDED_OUTLOOK_LIMITED_MESSAGE = 'Extended outlook limited by available data.'
+const EXTENDED_OUTLOOK_UNAVAILABLE_MESSAGE = 'Extended outlook unavailable for this location right now.'
+const EXTENDED_OUTLOOK_DELAYED_MESSAGE = 'Extended outlook is taking longer than usual. Try again in a moment.'
+const DEFAULT_LATENCY_BUDGET_MS = 2500
+const HORIZON_HOURS = 24
+
+// Stands in for an empty short-range series: enough for the temperature, sky, feels-like and
+// rain highlights, while the rest are skipped for lack of readings.
+const toHorizonEntry = (entry: HourlyForecastEntry): ForecastEntry => ({
+  dt: entry.dt,
+  main: {
+    temp: entry.temp,
+    feels_like: entry.feels_like,
+    temp_min: entry.temp,
+    temp_max: entry.temp,
+  },
+  weather: entry.weather ?? [],
+  pop: entry.pop,
+})
+
+export interface WeatherServiceOptions {
+  provider?: WeatherProvider
+  signal?: AbortSignal
+}
+
+export type SuggestionSearchOptions = WeatherServiceOptions & SuggestionContext
+
+export interface WeatherServiceConfig {
+  // How long daily and hourly series may delay a forecast once the short-range series is in.
+  latencyBudgetMs?: number
+  now?: () => number
+  // Country whose places win same-name ties and drop the country code from labels.
+  homeCountry?: string
+  // Offline place index behind instant suggestions and population ranking.
+  gazetteer?: Gazetteer
+  // Places the user picked for ambiguous queries; they win the next time the query comes up.
+  placeChoices?: PlaceChoices
+}
+
+interface ResolvedQuery {
+  location: GeoLocation
+  alternatives: GeoLocation[]
+}
+
+/**
+ * Location search and forecast assembly shared by the web and mobile apps. Each host supplies
+ * the provider it resolved from its own configuration; callers may still pass `{ provider }`.
+ * Passing a `signal` cancels the underlying requests, and the call rejects with an `AbortError`
+ * instead of resolving with a result nobody asked for anymore.
+ */
+export const createWeatherService = (
+  getDefaultProvider: () => WeatherProvider,
+  {
+    latencyBudgetMs = DEFAULT_LATENCY_BUDGET_MS,
+    now = Date.now,
+    homeCountry = DEFAULT_HOME_COUNTRY,
+    gazetteer = bundledGazetteer,
+    placeChoices,
+  }: WeatherServiceConfig = {},
+) => {
+  const preferences = { homeCountry }
+  const toSuggestion = (location: GeoLocation): LocationSuggestion => ({
+    location,
+    searchValue: formatLocationLabel(location, preferences),
+  })
+
+  // Geocoding APIs do not report population, so borrow it from the gazetteer for ranking.
+  const withPopulation = (location: GeoLocation): GeoLocation => {
+    const population = location.population ?? gazetteer.find(location)?.population
+    return population === undefined ? location : { ...location, population }
+  }
+
+  // Names the place at `coords` without moving the point. Where reverse geocoding finds nothing
+  // or fails, the coordinates themselves become the label.
+  const describePoint = async (
+    coords: Coordinates,
+    provider: WeatherProvider,
+    signal: AbortSignal | undefined,
+  ): Promise<GeoLocation> => {
+    let place: GeoLocation | undefined
+    try {
+      [place] = await provider.reverseGeocode(coords, { signal })
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error
+      }
+    }
+    return place
+      ? { ...place, lat: coords.lat, lon: coords.lon }
+      : { name: formatCoordinates(coords), lat: coords.lat, lon: coords.lon, country: '' }
+  }
+
+  // Typed coordinates are forecast exactly as entered; reverse geocoding only supplies the label.
+  // Short plus codes are completed from their locality, so they resolve to `null` if it is unknown.
+  const resolveCoordinateQuery = async (
+    coordinateQuery: CoordinateQuery,
+    provider: WeatherProvider,
+    signal: AbortSignal | undefined,
+  ): Promise<GeoLocation | null> => {
+    let coords: Coordinates | null = null
+    if (coordinateQuery.kind === 'coordinates') {
+      coords = coordinateQuery.coords
+    } else {
+      const { code, locality } = coordinateQuery
+      const reference = pickBestMatch(locality, await provider.geocode(locality, { signal }), preferences)
+      coords = reference && recoverPlusCode(code, reference)
+    }
+    return coords && describePoint(coords, provider, signal)
+  }
+
+  // Settles which country an ambiguous code belongs to, using the place typed next to it when
+  // there is one ("75008 Paris"), before asking the provider.
+  const lookupPostalCode = async (
+    postal: PostalCodeQuery,
+    provider: WeatherProvider,
+    signal: AbortSignal | undefined,
+  ): Promise<LocationSuggestion | null> => {
+    let [country] = postal.countries
+    if (postal.countries.length > 1 && postal.place) {
+      const places = await provider.geocode(postal.place, { signal })
+      const candidates = places.filter((place) => postal.countries.includes(place.country.toUpperCase()))
+      country = pickBestMatch(postal.place, candidates, preferences)?.country.toUpperCase() ?? country
+    }
+    const location = await provider.geocodeByZip(postal.lookupCode, country, { signal })
+    return location && { location, searchValue: formatPostalCode(postal, country, preferences) }
+  }
+
+  /**
+   * Suggestions from the bundled gazetteer alone, available synchronously and offline. Postal codes
+   * and coordinates need the network, so they get none.
+   */
+  const searchLocalSuggestions = (query: string, context: SuggestionContext = {}): LocationSuggestion[] => {
+    const trimmedQuery = query.trim()
+    if (trimmedQuery.length < 2 || parseCoordinateQuery(trimmedQuery) || parsePostalCode(trimmedQuery, preferences)) {
+      return []
+    }
+    const places = gazetteer.search(trimmedQuery, preferences).map(toSuggestion)
+    return rankSuggestions(trimmedQuery, places, context, preferences, now())
+  }
+
+  // The gazetteer answers first; the network adds places it lacks. When the network fails,
+  // the gazetteer's suggestions still stand. Places are ranked by `rankSuggestions`, so the
+  // user's position and history can lift them.
+  const searchLocationSuggestions = async (
+    query: string,
+    { provider = getDefaultProvider(), signal, ...context }: SuggestionSearchOptions = {},
+  ): Promise<LocationSuggestion[]> => {
+    const trimmedQuery = query.trim()
+    if (trimmedQuery.length < 2) {
+      return []
+    }
+
+    const coordinateQuery = parseCoordinateQuery(trimmedQuery)
+    if (coordinateQuery) {
+      const location = await resolveCoordinateQuery(coordinateQuery, provider, signal)
+      throwIfAborted(signal)
+      return location ? withDistances([{ location, searchValue: formatCoordinates(location) }], context) : []
+    }
+
+    // The postal, full-query and city-only lookups are independent, so issue them together.
+    const postal = parsePostalCode(trimmedQuery, preferences)
+    const [cityOnly] = trimmedQuery.split(',')
+    const fallbackQuery = cityOnly.trim()
+    const wantsFallback = trimmedQuery.includes(',')
+      && fallbackQuery.length >= 2
+      && fallbackQuery.toLowerCase() !== trimmedQuery.toLowerCase()
+
+    const localSuggestions = searchLocalSuggestions(trimmedQuery, context)
+    const lookups = await Promise.all([
+      postal ? lookupPostalCode(postal, provider, signal) : null,
+      provider.geocode(trimmedQuery, { signal }),
+      wantsFallback ? provider.geocode(fallbackQuery, { signal }) : [],
+    ]).catch((error: unknown) => {
+      if (isAbortError(error) || !localSuggestions.length) {
+        throw error
+      }
+      return null
+    })
+    if (!lookups) {
+      return localSuggestions
+    }
+    const [postalSuggestion] = lookups
+    const primaryResults = lookups[1].map(withPopulation)
+    const fallbackResults = lookups[2].map(withPopulation)
+
+    // Bundled places the network also returned are already listed with its coordinates.
+    const networkPlaces = new Set([...primaryResults, ...fallbackResults].map(gazetteer.find))
+    const places = dedupeSuggestions([
+      ...primaryResults.map(toSuggestion),
+      ...localSuggestions.filter((suggestion) => !networkPlaces.has(suggestion.location)),
+      ...fallbackResults.map(toSuggestion),
+    ])
+
+    // An exact postal code match stays on top whatever the ranking says about place names.
+    const suggestions = [
+      ...(postalSuggestion ? withDistances([postalSuggestion], context) : []),
+      ...rankSuggestions(trimmedQuery, places, context, preferences, now()),
+    ]
+
+    throwIfAborted(signal)
+    return dedupeSuggestions(suggestions).slice(0, 5)
+  }
+
+  const reverseGeocode = async (
+    coords: Coordinates,
+    { provider = getDefaultProvider(), signal }: WeatherServiceOptions = {},
+  ): Promise<GeoLocation> => {
+    const results = await provider.reverseGeocode(coords, { signal })
+    throwIfAborted(signal)
+    if (!results.length) {
+      throw createWeatherError(
+        'not-found',
+        'Unable to determine your current city from coordinates. Try searching manually.',
+        { source: provider.label },
+      )
+    }
+    return results[0]
+  }
+
+  // Picks the place a query means, plus the other places it could just as well mean. A place the
+  // user chose for this query before wins outright, and the former winner becomes an alternative.
+  const resolveQuery = async (
+    query: string,
+    provider: WeatherProvider,
+    signal: AbortSignal | undefined,
+  ): Promise<ResolvedQuery> => {
+    const trimmedQuery = query.trim()
+    if (!trimmedQuery) {
+      throw new Error('Enter a location to search for a forecast.')
+    }
+
+    const coordinateQuery = parseCoordinateQuery(trimmedQuery)
+    if (coordinateQuery) {
+      const location = await resolveCoordinateQuery(coordinateQuery, provider, signal)
+      throwIfAborted(signal)
+      if (!location) {
+        throw createWeatherError(
+          'not-found',
+          `Could not find the place the plus code "${query}" refers to. Try the full code or coordinates.`,
+          { source: provider.label },
+        )
+      }
+      return { location, alternatives: [] }
+    }
+
+    const postal = parsePostalCode(trimmedQuery, preferences)
+    if (postal) {
+      const postalSuggestion = await lookupPostalCode(postal, provider, signal)
+      if (postalSuggestion) {
+        return { location: postalSuggestion.location, alternatives: [] }
+      }
+    }
+
+    const rank = (text: string, results: GeoLocation[]) =>
+      findCloseMatches(rankLocationMatches(text, results.map(withPopulation), preferences))
+        .map((match) => match.location)
+
+    const [remembered, primaryResults] = await Promise.all([
+      placeChoices?.recall(trimmedQuery),
+      provider.geocode(trimmedQuery, { signal }),
+    ])
+    let contenders = rank(trimmedQuery, primaryResults)
+
+    if (!contenders.length && trimmedQuery.includes(',')) {
+      const [cityOnly] = trimmedQuery.split(',')
+      const fallbackResults = await provider.geocode(cityOnly, { signal })
+      contenders = rank(cityOnly, fallbackResults)
+    }
+
+    throwIfAborted(signal)
+    const location: GeoLocation | undefined = remembered ?? contenders[0]
+    if (!location) {
+      throw createWeatherError(
+        'not-found',
+        `Could not find a place that matches "${query}". Double-check the spelling or try nearby cities.`,
+        { source: provider.label },
+      )
+    }
+
+    return { location, alternatives: contenders.filter((contender) => !isSamePlace(contender, location)) }
+  }
+
+  const geocodeLocation = async (
+    query: string,
+    { provider = getDefaultProvider(), signal }: WeatherServiceOptions = {},
+  ): Promise<GeoLocation> => (await resolveQuery(query, provider, signal)).location
+
+  // Always fetches canonical metric data; unit toggles re-render through `presentForecast`.
+  // The series only need `coords`; `place` supplies the label and may still be in flight.
+  const assembleForecast = async (
+    coords: Coordinates,
+    place: Promise<Timed<GeoLocation>>,
+    provider: WeatherProvider,
+    signal: AbortSignal | undefined,
+    startedAt: number,
+  ): Promise<OptimisticForecast> => {
+    // All three series load at once. Daily and hourly data are nice to have, so they may only
+    // hold the result back until the latency budget is spent.
+    const shortRange = timed(provider.fetchForecast(coords, CANONICAL_UNITS, { signal }), now)
+    const budget = createLatencyBudget(latencyBudgetMs, shortRange)
+    // A failed optional series renders as unavailable, just like one that misses the budget.
+    const optional = <T>(request: Promise<T>) =>
+      budget.race(timed(request.catch((error: unknown) => {
+        if (isAbortError(error)) {
+          throw error
+        }
+        return null
+      }), now))
+    let results
+    try {
+      results = await Promise.all([
+        shortRange,
+        optional(provider.fetchDailyForecast(coords, CANONICAL_UNITS, { signal })),
+        optional(provider.fetchHourlyForecast(coords, CANONICAL_UNITS, { signal })),
+        place,
+      ])
+    } finally {
+      budget.release()
+    }
+    throwIfAborted(signal)
+    const [
+      { value: forecast, elapsedMs: forecastMs },
+      dailyResult,
+      hourlyResult,
+      { value: location, elapsedMs: geocodeMs },
+    ] = results
+    const daily = dailyResult === TIMED_OUT ? undefined : dailyResult.value
+    const hourly = hourlyResult === TIMED_OUT ? undefined : hourlyResult.value
+
+    let horizon = forecast.entries.slice(0, 8) // roughly the next 24 hours
+    let timezoneOffsetSeconds = forecast.timezoneOffsetSeconds
+    if (!horizon.length && hourly?.entries.length) {
+      horizon = hourly.entries.slice(0, HORIZON_HOURS).map(toHorizonEntry)
+      timezoneOffsetSeconds = hourly.timezoneOffsetSeconds
+    }
+    if (!horizon.length) {
+      throw createWeatherError(
+        'malformed-response',
+        `${provider.label} returned no usable forecast entries for ${formatLocationLabel(location, preferences)}.`,
+        { source: provider.label },
+      )
+    }
+    const first = horizon[0]
+    const temps = horizon.map((entry) => entry.main.temp)
+
+    const temperature = {
+      current: first.main.temp,
+      feelsLike: first.main.feels_like,
+      high: Math.max(...temps),
+      low: Math.min(...temps),
+    }
+
+    const skySummary = buildSkySummary(first)
+
+    let extendedOutlook: OptimisticExtendedOutlook
+    if (dailyResult === TIMED_OUT) {
+      extendedOutlook = {
+        days: [],
+        isComplete: false,
+        message: EXTENDED_OUTLOOK_DELAYED_MESSAGE,
+      }
+    } else if (daily) {
+      const days = buildExtendedOutlook(daily.entries, daily.timezoneOffsetSeconds)
+      if (days.length) {
+        const isComplete = days.length >= EXTENDED_OUTLOOK_REQUIRED_DAYS
+        extendedOutlook = {
+          days,
+          isComplete,
+          message: isComplete ? undefined : EXTENDED_OUTLOOK_LIMITED_MESSAGE,
+        }
+      } else {
+        extendedOutlook = {
+          days: [],
+          isComplete: false,
+          message: EXTENDED_OUTLOOK_UNAVAILABLE_MESSAGE,
+        }
+      }
+    } else {
+      extendedOutlook = {
+        days: [],
+        isComplete: false,
+        message: EXTENDED_OUTLOOK_UNAVAILABLE_MESSAGE,
+      }
+    }
+
+    const hourlyOutlook = hourly?.entries.length
+      ? buildHourlyOutlook(hourly.entries, hourly.timezoneOffsetSeconds)
+      : undefined
+
+    const nextUpdateDate = new Date((first.dt + timezoneOffsetSeconds) * 1000)
+    const dataIssues = [forecast, daily, hourly].flatMap((series) => series?.issues ?? [])
+
+    return {
+      locationLabel: formatLocationLabel(location, preferences),
+      nextUpdate: nextUpdateDate,
+      temperature,
+      skySummary,
+      horizon,
+      timezoneOffsetSeconds,
+      extendedOutlook,
+      hourlyOutlook,
+      coordinates: coords,
+      location,
+      attribution: provider.attribution,
+      timings: {
+        geocodeMs,
+        forecastMs,
+        dailyMs: dailyResult === TIMED_OUT ? null : dailyResult.elapsedMs,
+        hourlyMs: hourlyResult === TIMED_OUT ? null : hourlyResult.elapsedMs,
+        totalMs: now() - startedAt,
+      },
+      dataIssues: dataIssues.length ? dataIssues : undefined,
+    }
+  }
+
+  const fetchOptimisticForecast = async (
+    query: string,
+    { provider = getDefaultProvider(), signal }: WeatherServiceOptions = {},
+  ): Promise<OptimisticForecast> => {
+    const startedAt = now()
+    const { location, alternatives } = await resolveQuery(query, provider, signal)
+    const place = Promise.resolve({ value: location, elapsedMs: now() - startedAt })
+    const forecast = await assembleForecast({ lat: location.lat, lon: location.lon }, place, provider, signal, startedAt)
+    return alternatives.length ? { ...forecast, alternatives } : forecast
+  }
+
+  // Forecasts a place that was already resolved, such as a suggestion or a history entry,
+  // without geocoding its label again.
+  const fetchOptimisticForecastFor = (
+    location: GeoLocation,
+    { provider = getDefaultProvider(), signal }: WeatherServiceOptions = {},
+  ): Promise<OptimisticForecast> => {
+    const place = Promise.resolve({ value: location, elapsedMs: 0 })
+    return assembleForecast({ lat: location.lat, lon: location.lon }, place, provider, signal, now())
+  }
+
+  // Forecasts exactly `coords`. The label is looked up alongside the series and never moves the point.
+  const fetchOptimisticForecastAt = (
+    coords: Coordinates,
+    { provider = getDefaultProvider(), signal }: WeatherServiceOptions = {},
+  ): Promise<OptimisticForecast> => {
+    const point = { lat: coords.lat, lon: coords.lon }
+    return assembleForecast(point, timed(describePoint(point, provider, signal), now), provider, signal, now())
+  }
+
+  return {
+    searchLocalSuggestions,
+    searchLocationSuggestions,
+    reverseGeocode,
+    geocodeLocation,
+    fetchOptimisticForecast,
+    fetchOptimisticForecastFor,
+    fetchOptimisticForecastAt,
+  }
+}
@@ -0,0 +1,121 @@
+import {
+  OPENWEATHER_API_BASE,
+  createCachedFetcher,
+  fetchJson as defaultFetchJson,
+  isWeatherServiceError,
+} from '../../core/src'
+import type { JsonFetcher } from '../../core/src'
+
+export const PROXY_PREFIX = '/api/openweather'
+
+const SOURCE = 'OpenWeather'
+const MAX_TRACKED_CLIENTS = 10_000
+
+// Only the endpoints the apps call; anything else would turn the proxy into an open relay for the key.
+const ALLOWED_PATHS = new Set([
+  '/geo/1.0/direct',
+  '/geo/1.0/zip',
+  '/geo/1.0/reverse',
+  '/data/2.5/forecast',
+  '/data/2.5/forecast/daily',
+  '/data/3.0/onecall',
+])
+
+interface RateLimit {
+  limit: number
+  windowMs: number
+}
+
+interface ProxyHandlerOptions {
+  apiKey: string | undefined
+  fetchJson?: JsonFetcher
+  rateLimit?: RateLimit
+  maxCacheEntries?: number
+  now?: () => number
+  onWarning?: (message: string, error: unknown) => void
+}
+
+export type ProxyHandler = (url: URL, clientId: string) => Promise<Response>
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  })
+
+// Fixed-window counter per client; returns the seconds to wait, or 0 when the call may go ahead.
+const createRateLimiter = ({ limit, windowMs }: RateLimit, now: () => number) => {
+  const windows = new Map<string, { startedAt: number; count: number }>()
+
+  return (clientId: string) => {
+    const time = now()
+    if (windows.size >= MAX_TRACKED_CLIENTS) {
+      windows.forEach((window, id) => {
+        if (time - window.startedAt >= windowMs) {
+          windows.delete(id)
+        }
+      })
+    }
+
+    let window = windows.get(clientId)
+    if (!window || time - window.startedAt >= windowMs) {
+      window = { startedAt: time, count: 0 }
+      windows.set(clientId, window)
+    }
+    window.count += 1
+    return window.count > limit ? Math.max(1, Math.ceil((window.startedAt + windowMs - time) / 1000)) : 0
+  }
+}
+
+/**
+ * Forwards allow-listed OpenWeather calls under `PROXY_PREFIX`, adding the API key server-side
+ * so it never ships to a client. Responses go through the same cache policies the apps use, and
+ * each client gets its own request budget; upstream failures keep their status, body and
+ * `Retry-After` so the apps' error handling works unchanged.
+ */
+export const createProxyHandler = ({
+  apiKey,
+  fetchJson = defaultFetchJson,
+  rateLimit = { limit: 60, windowMs: 60_000 },
+  maxCacheEntries = 500,
+  now = Date.now,
+  onWarning = () => undefined,
+}: ProxyHandlerOptions): ProxyHandler => {
+  const cachedFetchJson = createCachedFetcher({ fetchJson, maxEntries: maxCacheEntries, now, onWarning })
+  const takeRequest = createRateLimiter(rateLimit, now)
+
+  return async (url, clientId) => {
+    const path = url.pathname.startsWith(PROXY_PREFIX) ? url.pathname.slice(PROXY_PREFIX.length) : undefined
+    if (!path || !ALLOWED_PATHS.has(path)) {
+      return json(404, { message: 'Unknown endpoint' })
+    }
+    if (!apiKey) {
+      return json(503, { message: 'The proxy has no OpenWeather API key configured.' })
+    }
+
+    const retryAfterSeconds = takeRequest(clientId)
+    if (retryAfterSeconds) {
+      return json(429, { message: 'Too many requests' }, { 'Retry-After': String(retryAfterSeconds) })
+    }
+
+    const search = new URLSearchParams(url.search)
+    search.set('appid', apiKey)
+    try {
+      const body = await cachedFetchJson<unknown>(`${OPENWEATHER_API_BASE}${path}?${search.toString()}`, {
+        source: SOURCE,
+      })
+      return json(200, body)
+    } catch (error) {
+      onWarning(`Proxied request to ${path} failed:`, error)
+      if (isWeatherServiceError(error) && error.status) {
+        return new Response(error.detail ?? '', {
+          status: error.status,
+          headers: error.retryAfterSeconds === undefined
+            ? { 'Content-Type': 'application/json' }
+            : { 'Content-Type': 'application/json', 'Retry-After': String(error.retryAfterSeconds) },
+        })
+      }
+      return json(502, { message: `Could not reach ${SOURCE}` })
+    }
+  }
+}
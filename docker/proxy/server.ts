@@ -0,0 +1,52 @@
+import { createServer } from 'node:http'
+import type { IncomingMessage } from 'node:http'
+import { PROXY_PREFIX, createProxyHandler } from './proxyHandler'
+
+const port = Number(process.env.PROXY_PORT ?? 8787)
+// Loopback by default: nginx fronts the proxy and is the only caller trusted to set X-Real-IP.
+const host = process.env.PROXY_HOST ?? '127.0.0.1'
+const apiKey = process.env.OPENWEATHER_API_KEY?.trim()
+
+const handle = createProxyHandler({
+  apiKey,
+  rateLimit: {
+    limit: Number(process.env.PROXY_RATE_LIMIT_PER_MINUTE ?? 60),
+    windowMs: 60_000,
+  },
+  onWarning: (message, error) => {
+    console.warn(message, error)
+  },
+})
+
+const readClientId = (request: IncomingMessage) => {
+  const realIp = request.headers['x-real-ip']
+  return (Array.isArray(realIp) ? realIp[0] : realIp) ?? request.socket.remoteAddress ?? 'unknown'
+}
+
+const server = createServer((request, response) => {
+  if (request.method !== 'GET') {
+    response.writeHead(405, { Allow: 'GET' })
+    response.end()
+    return
+  }
+
+  const url = new URL(request.url ?? '/', `http://${host}`)
+  handle(url, readClientId(request))
+    .then(async (result) => {
+      response.writeHead(result.status, Object.fromEntries(result.headers))
+      response.end(await result.text())
+    })
+    .catch((error: unknown) => {
+      console.error('Proxy failure:', error)
+      response.writeHead(500, { 'Content-Type': 'text/plain' })
+      response.end('Proxy failure')
+    })
+})
+
+if (!apiKey) {
+  console.warn('OPENWEATHER_API_KEY is not set; proxied requests will fail until it is.')
+}
+
+server.listen(port, host, () => {
+  console.info(`OpenWeather proxy listening on http://${host}:${port}${PROXY_PREFIX}`)
+})
@@ -0,0 +1,28 @@
+#!/bin/sh
+
+# The OpenWeather proxy listens on loopback; nginx serves the app and forwards /api/openweather to it.
+node /opt/optimistic-weather-proxy/server.mjs &
+proxy_pid=$!
+nginx -g 'daemon off;' &
+nginx_pid=$!
+
+stop() {
+  kill -TERM "$proxy_pid" "$nginx_pid" 2>/dev/null
+}
+trap 'stop; wait; exit 0' TERM INT
+
+# BusyBox sh has no `wait -n`, so poll: when either process dies, stop the other and exit with
+# its status so the container restarts instead of serving a half-working app.
+while kill -0 "$proxy_pid" 2>/dev/null && kill -0 "$nginx_pid" 2>/dev/null; do
+  sleep 1
+done
+
+if kill -0 "$proxy_pid" 2>/dev/null; then
+  wait "$nginx_pid"
+else
+  wait "$proxy_pid"
+fi
+status=$?
+stop
+wait
+exit $(( status == 0 ? 1 : status ))
@@ -13,7 +13,7 @@ const reactHooksConfig = reactHooks.configs['recommended-latest']
 const reactRefreshConfig = reactRefresh.configs.vite
 
 export default defineConfig([
-  globalIgnores(['dist', 'tailwind.config.ts', 'tailwind.config.cjs']),
+  globalIgnores(['dist', 'dist-proxy', 'tailwind.config.ts', 'tailwind.config.cjs']),
   {
     files: ['**/*.{js,jsx,ts,tsx}'],
     extends: [js.configs.recommended],
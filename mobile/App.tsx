@@ -18,26 +18,64 @@ import MaskedView from '@react-native-masked-view/masked-view'
 
 import type {
   Coordinates,
+  FavoriteLocation,
+  GeoLocation,
   OptimisticForecast,
   OptimisticHighlight,
   LocationSuggestion,
   SearchHistoryEntry,
-} from './src/types/weather'
+} from '@optimistic-weather/core'
+import {
+  addFavorite,
+  describeDataIssues,
+  describeWeatherError,
+  findFavorite,
+  formatDistance,
+  isAbortError,
+  moveFavorite,
+  presentForecast,
+  removeFavorite,
+  renameFavorite,
+} from '@optimistic-weather/core'
+import type { WeatherErrorNotice } from '@optimistic-weather/core'
 import {
   fetchOptimisticForecast,
-  reverseGeocode,
+  fetchOptimisticForecastAt,
+  fetchOptimisticForecastFor,
+  searchLocalSuggestions,
   searchLocationSuggestions,
-  formatUsLocationLabel,
+  formatPlaceLabel,
+  rememberPlaceChoice,
+  OPENWEATHER_KEY_LOCATION,
 } from './src/services/openWeather'
 import {
   clearHistoryEntries,
   loadHistoryEntries,
   persistHistoryEntries,
 } from './src/storage/history'
+import { loadFavorites, persistFavorites } from './src/storage/favorites'
+import ServiceErrorNotice from './src/components/ServiceErrorNotice'
+import PlaceChooser from './src/components/PlaceChooser'
+import FavoritesBar from './src/components/FavoritesBar'
+import FavoritesDashboard from './src/components/FavoritesDashboard'
+import LocationComparison from './src/components/LocationComparison'
 
 const HISTORY_LIMIT = 8
 
 type Units = 'metric' | 'imperial'
+type MainView = 'forecast' | 'dashboard' | 'compare'
+type RetryTarget = { query: string; location?: GeoLocation } | { coords: Coordinates }
+interface ServiceErrorState {
+  id: number
+  notice: WeatherErrorNotice
+  retry: RetryTarget
+}
+// An ambiguous query and every place it could mean, kept while the user switches between them.
+interface PlaceOptions {
+  query: string
+  places: GeoLocation[]
+}
+
 
 const GRADIENT_COLORS = ['#ff6ec7', '#ffdd55', '#32fff0']
 
@@ -81,19 +119,32 @@ const createHistoryId = () => `${Date.now()}-${Math.round(Math.random() * 1_000_
 function App() {
   const [query, setQuery] = useState('')
   const [units, setUnits] = useState<Units>('imperial')
-  const [forecast, setForecast] = useState<OptimisticForecast | null>(null)
+  const [forecastData, setForecastData] = useState<OptimisticForecast | null>(null)
+  const forecast = useMemo(
+    () => (forecastData ? presentForecast(forecastData, units) : null),
+    [forecastData, units],
+  )
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [serviceError, setServiceError] = useState<ServiceErrorState | null>(null)
+  const [placeOptions, setPlaceOptions] = useState<PlaceOptions | null>(null)
   const [geoError, setGeoError] = useState<string | null>(null)
-  const [lastQuery, setLastQuery] = useState<string | null>(null)
+  // Where geolocation last put the user; suggestions rank nearby places higher and show distances.
+  const [lastPosition, setLastPosition] = useState<Coordinates | null>(null)
   const [history, setHistory] = useState<SearchHistoryEntry[]>([])
   const [historyMenuOpen, setHistoryMenuOpen] = useState(false)
+  const [favorites, setFavorites] = useState<FavoriteLocation[]>([])
+  // Stays false until the stored favorites are read, so the empty initial list never overwrites them.
+  const [favoritesLoaded, setFavoritesLoaded] = useState(false)
+  const [view, setView] = useState<MainView>('forecast')
   const [searchVisible, setSearchVisible] = useState(false)
   const [suggestions, setSuggestions] = useState<LocationSuggestion[]>([])
   const [suggestionsLoading, setSuggestionsLoading] = useState(false)
   const [suggestionsError, setSuggestionsError] = useState<string | null>(null)
   const autoLocateAttemptedRef = useRef(false)
-  const suggestionRequestIdRef = useRef(0)
+  const suggestionAbortRef = useRef<AbortController | null>(null)
+  const searchAbortRef = useRef<AbortController | null>(null)
+  const searchStartedAtRef = useRef<number | null>(null)
 
   const highlightIconMap = useMemo<Record<string, string>>(
     () => ({
@@ -117,6 +168,7 @@ function App() {
     () => (forecast ? forecast.highlights.filter((highlight) => highlightIconMap[highlight.id]) : []),
     [forecast, highlightIconMap],
   )
+  const dataIssuesNote = describeDataIssues(forecast?.dataIssues)
 
   useEffect(() => {
     void (async () => {
@@ -129,6 +181,20 @@ function App() {
     void persistHistoryEntries(history)
   }, [history])
 
+  useEffect(() => {
+    void (async () => {
+      setFavorites(await loadFavorites())
+      setFavoritesLoaded(true)
+    })()
+  }, [])
+
+  useEffect(() => {
+    if (!favoritesLoaded) {
+      return
+    }
+    void persistFavorites(favorites)
+  }, [favorites, favoritesLoaded])
+
   useEffect(() => {
     if (autoLocateAttemptedRef.current) {
       return
@@ -138,10 +204,10 @@ function App() {
   }, [])
 
   useEffect(() => {
-    if (!loading && !forecast && (error || geoError)) {
+    if (!loading && !forecast && (error || geoError || serviceError)) {
       setSearchVisible(true)
     }
-  }, [loading, forecast, error, geoError])
+  }, [loading, forecast, error, geoError, serviceError])
 
   useEffect(() => {
     if (!searchVisible) {
@@ -159,24 +225,25 @@ function App() {
       return
     }
 
-    const requestId = suggestionRequestIdRef.current + 1
-    suggestionRequestIdRef.current = requestId
-    setSuggestionsLoading(true)
+    // Bundled places show on the keystroke; the debounced lookup below refines them.
+    const context = { origin: lastPosition ?? undefined, history }
+    const localSuggestions = searchLocalSuggestions(trimmed, context)
+    const controller = new AbortController()
+    suggestionAbortRef.current = controller
+    setSuggestions(localSuggestions)
+    setSuggestionsLoading(!localSuggestions.length)
     setSuggestionsError(null)
 
     const timeoutId = setTimeout(() => {
-      void searchLocationSuggestions(trimmed)
+      void searchLocationSuggestions(trimmed, { signal: controller.signal, ...context })
         .then((results) => {
-          if (suggestionRequestIdRef.current !== requestId) {
-            return
-          }
           setSuggestions(results)
           if (!results.length) {
             setSuggestionsError(`No matches found for "${trimmed}".`)
           }
         })
         .catch((err) => {
-          if (suggestionRequestIdRef.current !== requestId) {
+          if (isAbortError(err)) {
             return
           }
           const message = err instanceof Error ? err.message : 'Unable to suggest locations right now.'
@@ -184,7 +251,7 @@ function App() {
           setSuggestionsError(message)
         })
         .finally(() => {
-          if (suggestionRequestIdRef.current === requestId) {
+          if (!controller.signal.aborted) {
             setSuggestionsLoading(false)
           }
         })
@@ -192,8 +259,28 @@ function App() {
 
     return () => {
       clearTimeout(timeoutId)
+      controller.abort()
     }
-  }, [query, searchVisible])
+  }, [query, searchVisible, lastPosition, history])
+
+  useEffect(() => () => {
+    searchAbortRef.current?.abort()
+  }, [])
+
+  // Pairs the service's per-stage timings with time-to-first-render for the search that produced them.
+  useEffect(() => {
+    const startedAt = searchStartedAtRef.current
+    if (!forecastData || startedAt === null) {
+      return
+    }
+    searchStartedAtRef.current = null
+    if (__DEV__) {
+      console.info('Forecast timings (ms):', {
+        ...forecastData.timings,
+        firstRenderMs: Date.now() - startedAt,
+      })
+    }
+  }, [forecastData])
 
   useEffect(() => {
     if (autoLocateAttemptedRef.current) {
@@ -204,54 +291,114 @@ function App() {
   }, [])
 
   const errorMessage = error ?? geoError
+  const currentFavorite = forecast ? findFavorite(favorites, forecast.location) : undefined
+  // Favorites plus the place on screen, when it is not one of them.
+  const comparePlaces = useMemo(() => {
+    const places = favorites.map(({ id, nickname, location }) => ({ id, label: nickname, location }))
+    const current = forecastData?.location
+    if (!current || findFavorite(favorites, current)) {
+      return places
+    }
+    return [{ id: `current-${current.lat},${current.lon}`, label: formatPlaceLabel(current), location: current }, ...places]
+  }, [favorites, forecastData])
+  // The dashboard and comparison fall back to the forecast when there is nothing to show in them.
+  const showDashboard = view === 'dashboard' && favorites.length > 0
+  const showComparison = view === 'compare' && comparePlaces.length >= 2
+  const showForecast = !showDashboard && !showComparison
+
+  const retryFailedRequest = () => {
+    const retry = serviceError?.retry
+    if (!retry) {
+      return
+    }
+    if ('query' in retry) {
+      void runSearch(retry.query, retry.location)
+    } else {
+      void runCoordsSearch(retry.coords)
+    }
+  }
 
   const recordHistory = (entry: Omit<SearchHistoryEntry, 'id'>) => {
     const id = createHistoryId()
     setHistory((prev) => {
-      const filtered = prev.filter((item) => item.query.toLowerCase() !== entry.query.toLowerCase())
-      const nextEntries = [{ ...entry, id }, ...filtered]
+      const isSameQuery = (item: SearchHistoryEntry) => item.query.toLowerCase() === entry.query.toLowerCase()
+      const searchCount = prev.find(isSameQuery)?.searchCount ?? 0
+      const filtered = prev.filter((item) => !isSameQuery(item))
+      const nextEntries = [{ ...entry, id, searchCount: entry.success ? searchCount + 1 : searchCount }, ...filtered]
       return nextEntries.slice(0, HISTORY_LIMIT)
     })
   }
 
-  const runSearch = async (searchQuery: string, requestedUnits: Units) => {
+  // Each forecast search supersedes the previous one, cancelling its requests mid-flight.
+  const startSearchRequest = () => {
+    suggestionAbortRef.current?.abort()
+    searchAbortRef.current?.abort()
+    const controller = new AbortController()
+    searchAbortRef.current = controller
+    searchStartedAtRef.current = Date.now()
+    return controller.signal
+  }
+
+  // A resolved `location` (from a suggestion or history) is forecast as-is; otherwise the query is geocoded.
+  // `places` keeps the place chooser up when the location was picked from it.
+  const runSearch = async (searchQuery: string, location?: GeoLocation, places?: GeoLocation[]) => {
+    const signal = startSearchRequest()
     setLoading(true)
     setError(null)
+    setServiceError(null)
 
     try {
-      const data = await fetchOptimisticForecast(searchQuery, requestedUnits)
-      setForecast(data)
-      setLastQuery(searchQuery)
+      const data = location
+        ? await fetchOptimisticForecastFor(location, { signal })
+        : await fetchOptimisticForecast(searchQuery, { signal })
+      setForecastData(data)
       setQuery(searchQuery)
+      const candidates = places ?? (data.alternatives ? [data.location, ...data.alternatives] : undefined)
+      setPlaceOptions(candidates ? { query: searchQuery, places: candidates } : null)
       recordHistory({
         query: searchQuery,
         success: true,
         timestamp: Date.now(),
         locationLabel: data.locationLabel,
+        location: data.location,
       })
       setSearchVisible(false)
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Unable to load the forecast right now.'
-      setError(message)
-      setForecast(null)
+      if (isAbortError(err)) {
+        return
+      }
+      const notice = describeWeatherError(err, { keyLocation: OPENWEATHER_KEY_LOCATION })
+      setServiceError({ id: Date.now(), notice, retry: { query: searchQuery, location } })
+      setForecastData(null)
+      setPlaceOptions(null)
       recordHistory({
         query: searchQuery,
         success: false,
         timestamp: Date.now(),
-        errorMessage: message,
+        errorMessage: notice.message,
       })
       setSearchVisible(true)
     } finally {
-      setLoading(false)
+      if (!signal.aborted) {
+        setLoading(false)
+      }
     }
   }
 
+  const handlePlaceChoice = (location: GeoLocation) => {
+    if (!placeOptions) {
+      return
+    }
+    void rememberPlaceChoice(placeOptions.query, location)
+    void runSearch(placeOptions.query, location, placeOptions.places)
+  }
+
   const handleSearchSubmit = () => {
     if (!query.trim()) {
       setError('Enter a city, state, or zip to see the optimistic outlook.')
       return
     }
-    void runSearch(query, units)
+    void runSearch(query)
   }
 
   const handleUnitsChange = (nextUnits: Units) => {
@@ -259,14 +406,32 @@ function App() {
       return
     }
     setUnits(nextUnits)
-    if (lastQuery) {
-      void runSearch(lastQuery, nextUnits)
-    }
   }
 
   const handleHistorySelect = (entry: SearchHistoryEntry) => {
     setQuery(entry.query)
-    void runSearch(entry.query, units)
+    void runSearch(entry.query, entry.location)
+  }
+
+  const handleFavoriteSelect = (favorite: FavoriteLocation) => {
+    const label = formatPlaceLabel(favorite.location)
+    setQuery(label)
+    void runSearch(label, favorite.location)
+  }
+
+  const handleDashboardOpen = (favorite: FavoriteLocation) => {
+    setView('forecast')
+    handleFavoriteSelect(favorite)
+  }
+
+  // Saved under the place's own name; "Edit" in the favorites bar renames it.
+  const handleFavoriteToggle = (location: GeoLocation) => {
+    const existing = findFavorite(favorites, location)
+    if (existing) {
+      setFavorites(removeFavorite(favorites, existing.id))
+      return
+    }
+    setFavorites(addFavorite(favorites, { id: createHistoryId(), nickname: location.name, location, addedAt: Date.now() }))
   }
 
   const handleHistoryDelete = (id: string) => {
@@ -284,7 +449,7 @@ function App() {
     setSuggestions([])
     setSuggestionsError(null)
     setSuggestionsLoading(false)
-    void runSearch(suggestion.searchValue, units)
+    void runSearch(suggestion.searchValue, suggestion.location)
   }
 
   const renderHighlightCard = (highlight: OptimisticHighlight) => {
@@ -354,34 +519,44 @@ function App() {
     )
   }
 
-  const runCoordsSearch = async (coords: Coordinates, labelHint?: string) => {
+  // Only geolocation and its retries land here, so `coords` is where the user is.
+  const runCoordsSearch = async (coords: Coordinates) => {
+    const signal = startSearchRequest()
+    setLastPosition(coords)
     setLoading(true)
     setError(null)
+    setServiceError(null)
     setGeoError(null)
 
     try {
-      const place = await reverseGeocode(coords)
-      const queryLabel = labelHint ?? formatUsLocationLabel(place)
-
-      const data = await fetchOptimisticForecast(queryLabel, units)
-      setForecast(data)
-      setLastQuery(queryLabel)
-      setQuery(queryLabel)
+      const data = await fetchOptimisticForecastAt(coords, { signal })
+      setForecastData(data)
+      setQuery(data.locationLabel)
+      setPlaceOptions(null)
       recordHistory({
-        query: queryLabel,
+        query: data.locationLabel,
         success: true,
         timestamp: Date.now(),
         locationLabel: data.locationLabel,
+        location: data.location,
       })
       setSearchVisible(false)
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'We could not load your local forecast.'
-      setError(message)
-      setGeoError(message)
-      setForecast(null)
+      if (isAbortError(err)) {
+        return
+      }
+      const notice = describeWeatherError(err, {
+        keyLocation: OPENWEATHER_KEY_LOCATION,
+        fallbackMessage: 'We could not load your local forecast.',
+      })
+      setServiceError({ id: Date.now(), notice, retry: { coords } })
+      setForecastData(null)
+      setPlaceOptions(null)
       setSearchVisible(true)
     } finally {
-      setLoading(false)
+      if (!signal.aborted) {
+        setLoading(false)
+      }
     }
   }
 
@@ -427,7 +602,42 @@ function App() {
           <GradientText text="Weather" style={styles.brandTag} />
         </View>
 
-        {(searchVisible || !forecast) && (
+        <FavoritesBar
+          favorites={favorites}
+          activeLocation={forecast?.location}
+          disabled={loading}
+          onSelect={handleFavoriteSelect}
+          onRename={(id, nickname) => setFavorites((prev) => renameFavorite(prev, id, nickname))}
+          onMove={(id, offset) => setFavorites((prev) => moveFavorite(prev, id, offset))}
+          onRemove={(id) => setFavorites((prev) => removeFavorite(prev, id))}
+        />
+        <View style={styles.viewToggles}>
+          {favorites.length ? (
+            <TouchableOpacity
+              onPress={() => setView((current) => (current === 'dashboard' ? 'forecast' : 'dashboard'))}
+              accessibilityState={{ selected: view === 'dashboard' }}
+              style={styles.viewToggle}
+            >
+              <Text style={styles.viewToggleText}>{view === 'dashboard' ? 'Back to forecast' : '▦ All favorites'}</Text>
+            </TouchableOpacity>
+          ) : null}
+          {comparePlaces.length >= 2 ? (
+            <TouchableOpacity
+              onPress={() => setView((current) => (current === 'compare' ? 'forecast' : 'compare'))}
+              accessibilityState={{ selected: view === 'compare' }}
+              style={styles.viewToggle}
+            >
+              <Text style={styles.viewToggleText}>{view === 'compare' ? 'Back to forecast' : '⇆ Compare places'}</Text>
+            </TouchableOpacity>
+          ) : null}
+        </View>
+
+        {showDashboard ? (
+          <FavoritesDashboard favorites={favorites} units={units} onOpen={handleDashboardOpen} />
+        ) : null}
+        {showComparison ? <LocationComparison places={comparePlaces} units={units} /> : null}
+
+        {showForecast && (searchVisible || !forecast) && (
           <View style={styles.card}>
             <View style={styles.searchHeaderRow}>
               <Text style={styles.cardTitle}>Find the bright side</Text>
@@ -446,7 +656,7 @@ function App() {
               <TextInput
                 value={query}
                 onChangeText={setQuery}
-                placeholder="e.g. Louisville, KY or 40299"
+                placeholder="e.g. Louisville, KY, 40299 or 38.25, -85.76"
                 autoCapitalize="none"
                 autoCorrect={false}
                 style={styles.input}
@@ -522,8 +732,13 @@ function App() {
                       onPress={() => handleSuggestionSelect(suggestion)}
                       disabled={loading}
                     >
-                      <Text style={styles.suggestionPrimary}>{suggestion.searchValue}</Text>
-                      <Text style={styles.suggestionSecondary}>Tap to search</Text>
+                      <Text style={styles.suggestionPrimary}>{formatPlaceLabel(suggestion.location)}</Text>
+                      <Text style={styles.suggestionSecondary}>
+                        {suggestion.searchValue === formatPlaceLabel(suggestion.location)
+                          ? 'Tap to search'
+                          : `Search using "${suggestion.searchValue}"`}
+                        {suggestion.distanceKm === undefined ? '' : ` · ${formatDistance(suggestion.distanceKm, units)}`}
+                      </Text>
                     </TouchableOpacity>
                   ))
                 ) : suggestionsError ? (
@@ -534,7 +749,7 @@ function App() {
           </View>
         )}
 
-        {history.length > 0 && (
+        {showForecast && history.length > 0 && (
           <View style={styles.historyCard}>
             <View style={styles.historyHeader}>
               <View>
@@ -585,33 +800,54 @@ function App() {
           </View>
         )}
 
-        {errorMessage && (
+        {showForecast && serviceError ? (
+          <ServiceErrorNotice key={serviceError.id} notice={serviceError.notice} onRetry={retryFailedRequest} />
+        ) : null}
+        {showForecast && placeOptions && forecast ? (
+          <PlaceChooser
+            query={placeOptions.query}
+            current={forecast.location}
+            places={placeOptions.places}
+            formatLabel={formatPlaceLabel}
+            onChoose={handlePlaceChoice}
+          />
+        ) : null}
+        {showForecast && errorMessage && (
           <View style={styles.feedbackError}>
             <Text style={styles.feedbackText}>{errorMessage}</Text>
           </View>
         )}
 
-        {loading && !forecast && (
+        {showForecast && loading && !forecast && (
           <View style={styles.feedbackInfo}>
             <ActivityIndicator size="small" color="#0369a1" />
             <Text style={styles.feedbackInfoText}>Gathering your optimistic outlook…</Text>
           </View>
         )}
 
-        {forecast ? (
+        {!showForecast ? null : forecast ? (
           <View style={styles.forecastCard}>
             <View style={styles.forecastHeaderRow}>
               <View style={styles.forecastHeader}>
                 <Text style={styles.forecastTitle}>{forecast.locationLabel}</Text>
                 <Text style={styles.forecastSubtitle}>{forecast.skySummary}</Text>
               </View>
-              <TouchableOpacity
-                style={styles.changeButton}
-                onPress={() => setSearchVisible(true)}
-                disabled={loading}
-              >
-                <Text style={styles.changeButtonText}>Change</Text>
-              </TouchableOpacity>
+              <View style={styles.forecastActions}>
+                <TouchableOpacity
+                  style={styles.changeButton}
+                  onPress={() => handleFavoriteToggle(forecast.location)}
+                  accessibilityState={{ selected: Boolean(currentFavorite) }}
+                >
+                  <Text style={styles.changeButtonText}>{currentFavorite ? '★ Saved' : '☆ Save'}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.changeButton}
+                  onPress={() => setSearchVisible(true)}
+                  disabled={loading}
+                >
+                  <Text style={styles.changeButtonText}>Change</Text>
+                </TouchableOpacity>
+              </View>
             </View>
 
             <View style={styles.temperatureTile}>
@@ -643,6 +879,8 @@ function App() {
               </View>
             ) : null}
 
+            {dataIssuesNote ? <Text style={styles.dataIssuesNote}>⚠️ {dataIssuesNote}</Text> : null}
+
           </View>
         ) : (
           <View style={styles.placeholderCard}>
@@ -1041,6 +1279,27 @@ const styles = StyleSheet.create({
     borderRadius: 20,
     padding: 20,
   },
+  forecastActions: {
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  viewToggles: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  viewToggle: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  viewToggleText: {
+    color: '#64748b',
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 2,
+    textTransform: 'uppercase',
+  },
   changeButton: {
     paddingVertical: 8,
     paddingHorizontal: 14,
@@ -1154,6 +1413,12 @@ const styles = StyleSheet.create({
     textTransform: 'uppercase',
     color: '#64748b',
   },
+  dataIssuesNote: {
+    fontSize: 12,
+    fontWeight: '500',
+    lineHeight: 18,
+    color: '#64748b',
+  },
   placeholderCard: {
     backgroundColor: '#f8fafc',
     borderRadius: 24,
@@ -0,0 +1,18 @@
+/* eslint-env node */
+/* global require, module, __dirname */
+
+const path = require('path')
+const { getDefaultConfig } = require('expo/metro-config')
+
+const coreRoot = path.resolve(__dirname, '../core')
+const config = getDefaultConfig(__dirname)
+
+// The shared forecast core lives outside the app root; let Metro watch and resolve it.
+config.watchFolders = [coreRoot]
+config.resolver.extraNodeModules = {
+  ...config.resolver.extraNodeModules,
+  '@optimistic-weather/core': coreRoot,
+}
+config.resolver.nodeModulesPaths = [path.resolve(__dirname, 'node_modules')]
+
+module.exports = config
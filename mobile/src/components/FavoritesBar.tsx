@@ -0,0 +1,180 @@
+import { useState } from 'react'
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native'
+import { isSamePlace } from '@optimistic-weather/core'
+import type { FavoriteLocation, GeoLocation } from '@optimistic-weather/core'
+
+interface FavoritesBarProps {
+  favorites: FavoriteLocation[]
+  // The place on screen, so its chip can show as current.
+  activeLocation?: GeoLocation
+  disabled?: boolean
+  onSelect: (favorite: FavoriteLocation) => void
+  onRename: (id: string, nickname: string) => void
+  onMove: (id: string, offset: number) => void
+  onRemove: (id: string) => void
+}
+
+/**
+ * Pinned places as one-tap chips under the header. "Edit" turns the chips into rows for renaming,
+ * reordering and removing; nicknames commit when the field loses focus.
+ */
+const FavoritesBar = ({
+  favorites,
+  activeLocation,
+  disabled = false,
+  onSelect,
+  onRename,
+  onMove,
+  onRemove,
+}: FavoritesBarProps) => {
+  const [editing, setEditing] = useState(false)
+
+  if (!favorites.length) {
+    return null
+  }
+
+  return (
+    <View style={styles.container}>
+      {editing ? (
+        favorites.map((favorite, index) => (
+          <View key={favorite.id} style={styles.editRow}>
+            <TextInput
+              defaultValue={favorite.nickname}
+              onEndEditing={(event) => onRename(favorite.id, event.nativeEvent.text)}
+              accessibilityLabel={`Nickname for ${favorite.location.name}`}
+              returnKeyType="done"
+              style={styles.nicknameInput}
+            />
+            <TouchableOpacity
+              onPress={() => onMove(favorite.id, -1)}
+              disabled={index === 0}
+              accessibilityLabel={`Move ${favorite.nickname} up`}
+              style={[styles.iconButton, index === 0 && styles.iconButtonDisabled]}
+            >
+              <Text style={styles.iconText}>▲</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => onMove(favorite.id, 1)}
+              disabled={index === favorites.length - 1}
+              accessibilityLabel={`Move ${favorite.nickname} down`}
+              style={[styles.iconButton, index === favorites.length - 1 && styles.iconButtonDisabled]}
+            >
+              <Text style={styles.iconText}>▼</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => onRemove(favorite.id)}
+              accessibilityLabel={`Remove ${favorite.nickname} from favorites`}
+              style={styles.iconButton}
+            >
+              <Text style={[styles.iconText, styles.removeText]}>✕</Text>
+            </TouchableOpacity>
+          </View>
+        ))
+      ) : (
+        <View style={styles.chips}>
+          {favorites.map((favorite) => {
+            const isActive = activeLocation ? isSamePlace(favorite.location, activeLocation) : false
+            return (
+              <TouchableOpacity
+                key={favorite.id}
+                onPress={() => onSelect(favorite)}
+                disabled={disabled}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isActive, disabled }}
+                style={[styles.chip, isActive && styles.activeChip]}
+              >
+                <Text style={[styles.chipText, isActive && styles.activeChipText]}>★ {favorite.nickname}</Text>
+              </TouchableOpacity>
+            )
+          })}
+        </View>
+      )}
+      <TouchableOpacity onPress={() => setEditing((open) => !open)} style={styles.editToggle}>
+        <Text style={styles.editToggleText}>{editing ? 'Done' : 'Edit'}</Text>
+      </TouchableOpacity>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    alignItems: 'center',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  activeChip: {
+    borderColor: '#0f172a',
+    backgroundColor: '#0f172a',
+  },
+  chipText: {
+    color: '#334155',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  activeChipText: {
+    color: '#ffffff',
+  },
+  editRow: {
+    alignSelf: 'stretch',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  nicknameInput: {
+    flex: 1,
+    color: '#0f172a',
+    fontSize: 15,
+    fontWeight: '600',
+    paddingVertical: 4,
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 16,
+  },
+  iconButtonDisabled: {
+    opacity: 0.3,
+  },
+  iconText: {
+    color: '#475569',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  removeText: {
+    color: '#e11d48',
+  },
+  editToggle: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  editToggleText: {
+    color: '#64748b',
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 2,
+    textTransform: 'uppercase',
+  },
+})
+
+export default FavoritesBar
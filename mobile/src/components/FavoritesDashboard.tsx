@@ -0,0 +1,238 @@
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native'
+import { findOutlookToday, presentForecast } from '@optimistic-weather/core'
+import type { FavoriteLocation, PlaceForecastEntry } from '@optimistic-weather/core'
+import { usePlaceForecasts } from '../hooks/usePlaceForecasts'
+
+type Units = 'metric' | 'imperial'
+
+const formatTemperature = (value: number, units: Units) =>
+  `${Math.round(value)}${units === 'metric' ? '°C' : '°F'}`
+
+interface DashboardCardProps {
+  favorite: FavoriteLocation
+  entry?: PlaceForecastEntry
+  units: Units
+  onOpen: () => void
+  onRefresh: () => void
+}
+
+const DashboardCard = ({ favorite, entry, units, onOpen, onRefresh }: DashboardCardProps) => {
+  const presented = entry?.forecast ? presentForecast(entry.forecast, units) : undefined
+  const [topHighlight] = presented?.highlights ?? []
+  // Today's daily high and low; the rolling 24-hour range only stands in when there is no outlook.
+  const today = presented?.extendedOutlook
+    ? findOutlookToday(presented.extendedOutlook.days, presented.timezoneOffsetSeconds)
+    : undefined
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <TouchableOpacity onPress={onOpen} style={styles.titleBlock} accessibilityRole="button">
+          <Text style={styles.nickname} numberOfLines={1}>{favorite.nickname}</Text>
+          <Text style={styles.placeLabel} numberOfLines={1}>
+            {presented?.locationLabel ?? favorite.location.name}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={onRefresh}
+          disabled={entry?.loading}
+          accessibilityLabel={`Refresh ${favorite.nickname}`}
+          style={styles.refreshButton}
+        >
+          {entry?.loading ? (
+            <ActivityIndicator size="small" color="#64748b" />
+          ) : (
+            <Text style={styles.refreshText}>↻</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {presented ? (
+        <TouchableOpacity onPress={onOpen} style={styles.body}>
+          <View style={styles.temperatureRow}>
+            <Text style={styles.currentTemperature}>{formatTemperature(presented.temperature.current, units)}</Text>
+            <Text style={styles.highLow}>
+              H {formatTemperature(today?.high ?? presented.temperature.high, units)} · L {formatTemperature(today?.low ?? presented.temperature.low, units)}
+            </Text>
+          </View>
+          <Text style={styles.skySummary}>{presented.skySummary}</Text>
+          {topHighlight ? <Text style={styles.highlight}>{topHighlight.title}</Text> : null}
+        </TouchableOpacity>
+      ) : entry?.notice ? (
+        <Text style={styles.notice} accessibilityRole="alert">⚠️ {entry.notice.message}</Text>
+      ) : (
+        <Text style={styles.pending}>Gathering the bright side…</Text>
+      )}
+      {presented && entry?.notice ? (
+        <Text style={styles.staleNotice}>Could not refresh: {entry.notice.title}</Text>
+      ) : null}
+    </View>
+  )
+}
+
+interface FavoritesDashboardProps {
+  favorites: FavoriteLocation[]
+  units: Units
+  // Opens the full forecast for a favorite.
+  onOpen: (favorite: FavoriteLocation) => void
+}
+
+/**
+ * Compact optimistic cards for every favorite, loaded a few at a time. Each card refreshes on its
+ * own and a failed place only affects its own card.
+ */
+const FavoritesDashboard = ({ favorites, units, onOpen }: FavoritesDashboardProps) => {
+  const { entries, refresh } = usePlaceForecasts(favorites)
+
+  if (!favorites.length) {
+    return (
+      <Text style={styles.empty}>
+        Star a forecast to add it here. Every favorite gets a card you can check at a glance.
+      </Text>
+    )
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toolbar}>
+        <Text style={styles.eyebrow}>All your places</Text>
+        <TouchableOpacity onPress={() => refresh(favorites)} style={styles.refreshAll}>
+          <Text style={styles.refreshAllText}>↻ Refresh all</Text>
+        </TouchableOpacity>
+      </View>
+      {favorites.map((favorite) => (
+        <DashboardCard
+          key={favorite.id}
+          favorite={favorite}
+          entry={entries[favorite.id]}
+          units={units}
+          onOpen={() => onOpen(favorite)}
+          onRefresh={() => refresh([favorite])}
+        />
+      ))}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  eyebrow: {
+    color: '#64748b',
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 2,
+    textTransform: 'uppercase',
+  },
+  refreshAll: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  refreshAllText: {
+    color: '#475569',
+    fontSize: 11,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+  },
+  card: {
+    gap: 10,
+    borderRadius: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.85)',
+    padding: 18,
+    shadowColor: '#0f172a',
+    shadowOpacity: 0.12,
+    shadowRadius: 18,
+    shadowOffset: { width: 0, height: 10 },
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  titleBlock: {
+    flex: 1,
+  },
+  nickname: {
+    color: '#0f172a',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  placeLabel: {
+    color: '#64748b',
+    fontSize: 12,
+  },
+  refreshButton: {
+    width: 32,
+    height: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 16,
+  },
+  refreshText: {
+    color: '#64748b',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  body: {
+    gap: 6,
+  },
+  temperatureRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  currentTemperature: {
+    color: '#0f172a',
+    fontSize: 36,
+    fontWeight: '800',
+  },
+  highLow: {
+    color: '#64748b',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  skySummary: {
+    color: '#475569',
+    fontSize: 14,
+  },
+  highlight: {
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 251, 235, 0.9)',
+    color: '#92400e',
+    fontSize: 12,
+    fontWeight: '700',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  notice: {
+    color: '#be123c',
+    fontSize: 14,
+  },
+  staleNotice: {
+    color: '#e11d48',
+    fontSize: 12,
+  },
+  pending: {
+    color: '#64748b',
+    fontSize: 14,
+  },
+  empty: {
+    color: '#475569',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+})
+
+export default FavoritesDashboard
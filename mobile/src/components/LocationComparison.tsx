@@ -0,0 +1,248 @@
+import { useMemo, useState } from 'react'
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native'
+import { COMPARISON_METRICS, buildComparison, convertTemperature } from '@optimistic-weather/core'
+import type { ComparisonCell, ComparisonMetric, ForecastPlace } from '@optimistic-weather/core'
+import { usePlaceForecasts } from '../hooks/usePlaceForecasts'
+
+type Units = 'metric' | 'imperial'
+
+// More than four rows per day gets hard to scan on a phone.
+const MAX_COMPARED = 4
+
+interface ComparedPlace extends ForecastPlace {
+  label: string
+}
+
+const METRIC_BADGES: Record<ComparisonMetric, string> = {
+  dryness: '☂ Driest',
+  sun: '☀ Sunniest',
+  comfort: '🌡 Comfiest',
+}
+
+const formatTemperature = (celsius: number, units: Units) =>
+  `${Math.round(convertTemperature(celsius, units))}°`
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' })
+
+const describeCell = (cell: ComparisonCell, units: Units) => {
+  const parts: string[] = []
+  if (cell.day) {
+    parts.push(`${formatTemperature(cell.day.high, units)} / ${formatTemperature(cell.day.low, units)}`)
+  }
+  if (cell.scores.dryness !== null) {
+    parts.push(`${100 - cell.scores.dryness}% rain`)
+  }
+  if (cell.scores.sun !== null) {
+    parts.push(`${100 - cell.scores.sun}% cloud`)
+  }
+  if (cell.hours.length) {
+    const temperatures = cell.hours.map((hour) => hour.temperature)
+    const low = formatTemperature(Math.min(...temperatures), units)
+    const high = formatTemperature(Math.max(...temperatures), units)
+    parts.push(`${cell.hours.length}h ahead: ${low === high ? low : `${low}–${high}`}`)
+  }
+  return parts.length ? parts.join(' · ') : 'No data'
+}
+
+interface LocationComparisonProps {
+  // Places the user can pick from; the first two start out selected.
+  places: ComparedPlace[]
+  units: Units
+}
+
+/**
+ * Daily outlooks for up to four places on a shared date axis, one card per day. Each day marks the
+ * place that wins on dryness, sun and comfort; places still loading or failing sit out until
+ * their forecast arrives.
+ */
+const LocationComparison = ({ places, units }: LocationComparisonProps) => {
+  const [selectedIds, setSelectedIds] = useState(() => places.slice(0, 2).map((place) => place.id))
+  const selected = useMemo(
+    () => places.filter((place) => selectedIds.includes(place.id)),
+    [places, selectedIds],
+  )
+  const { entries, refresh } = usePlaceForecasts(selected)
+
+  const compared = selected.flatMap((place) => {
+    const forecast = entries[place.id]?.forecast
+    return forecast ? [{ place, forecast }] : []
+  })
+  const days = buildComparison(compared.map(({ forecast }) => forecast))
+
+  const togglePlace = (id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((selectedId) => selectedId !== id) : [...prev, id]))
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chips}>
+        {places.map((place) => {
+          const isSelected = selectedIds.includes(place.id)
+          const disabled = !isSelected && selectedIds.length >= MAX_COMPARED
+          return (
+            <TouchableOpacity
+              key={place.id}
+              onPress={() => togglePlace(place.id)}
+              disabled={disabled}
+              accessibilityRole="button"
+              accessibilityState={{ selected: isSelected, disabled }}
+              style={[styles.chip, isSelected && styles.selectedChip, disabled && styles.disabledChip]}
+            >
+              {isSelected && entries[place.id]?.loading ? <ActivityIndicator size="small" color="#ffffff" /> : null}
+              <Text style={[styles.chipText, isSelected && styles.selectedChipText]}>{place.label}</Text>
+            </TouchableOpacity>
+          )
+        })}
+      </View>
+
+      {selected.map((place) => {
+        const notice = entries[place.id]?.notice
+        return notice ? (
+          <View key={place.id} style={styles.noticeRow}>
+            <Text style={styles.notice} accessibilityRole="alert">⚠️ {place.label}: {notice.message}</Text>
+            <TouchableOpacity onPress={() => refresh([place])}>
+              <Text style={styles.retryText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : null
+      })}
+
+      {compared.length < 2 ? (
+        <Text style={styles.empty}>
+          {selected.length < 2
+            ? 'Pick at least two places to line up their outlooks.'
+            : selected.some((place) => entries[place.id]?.loading)
+              ? 'Lining up the bright sides…'
+              : 'Comparing needs forecasts for at least two places. Retry or pick another place.'}
+        </Text>
+      ) : (
+        days.map((day) => (
+          <View key={day.dateKey} style={styles.dayCard}>
+            <Text style={styles.dayLabel}>{formatDay(day.date)}</Text>
+            {day.cells.map((cell, index) => {
+              const wins = COMPARISON_METRICS.filter((metric) => day.winners[metric].includes(index))
+              return (
+                <View key={compared[index].place.id} style={[styles.placeRow, wins.length > 0 && styles.winningRow]}>
+                  <Text style={styles.placeLabel} numberOfLines={1}>{compared[index].place.label}</Text>
+                  <Text style={styles.cellText}>{describeCell(cell, units)}</Text>
+                  {wins.length ? (
+                    <View style={styles.badges}>
+                      {wins.map((metric) => (
+                        <Text key={metric} style={styles.badge}>{METRIC_BADGES[metric]}</Text>
+                      ))}
+                    </View>
+                  ) : null}
+                </View>
+              )
+            })}
+          </View>
+        ))
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  selectedChip: {
+    borderColor: '#0f172a',
+    backgroundColor: '#0f172a',
+  },
+  disabledChip: {
+    opacity: 0.4,
+  },
+  chipText: {
+    color: '#334155',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  selectedChipText: {
+    color: '#ffffff',
+  },
+  noticeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  notice: {
+    flex: 1,
+    color: '#be123c',
+    fontSize: 14,
+  },
+  retryText: {
+    color: '#be123c',
+    fontSize: 14,
+    fontWeight: '700',
+    textDecorationLine: 'underline',
+  },
+  empty: {
+    color: '#475569',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  dayCard: {
+    gap: 8,
+    borderRadius: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.85)',
+    padding: 16,
+  },
+  dayLabel: {
+    color: '#0f172a',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  placeRow: {
+    gap: 4,
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  winningRow: {
+    backgroundColor: 'rgba(255, 251, 235, 0.9)',
+  },
+  placeLabel: {
+    color: '#0f172a',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  cellText: {
+    color: '#64748b',
+    fontSize: 13,
+  },
+  badges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  badge: {
+    overflow: 'hidden',
+    borderRadius: 999,
+    backgroundColor: '#fef3c7',
+    color: '#92400e',
+    fontSize: 11,
+    fontWeight: '700',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+})
+
+export default LocationComparison
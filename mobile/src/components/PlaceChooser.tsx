@@ -0,0 +1,108 @@
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native'
+import { isSamePlace } from '@optimistic-weather/core'
+import type { GeoLocation } from '@optimistic-weather/core'
+
+interface PlaceChooserProps {
+  query: string
+  // The place being shown.
+  current: GeoLocation
+  // Every place the query could mean, the current one included, in the order to offer them.
+  places: GeoLocation[]
+  formatLabel: (location: GeoLocation) => string
+  onChoose: (location: GeoLocation) => void
+}
+
+/**
+ * Shown above a forecast whose query was too close to call. One other candidate gets a "Did you
+ * mean" switch; more get a row of choices. Both stay up after a pick so the user can switch back.
+ */
+const PlaceChooser = ({ query, current, places, formatLabel, onChoose }: PlaceChooserProps) => {
+  const others = places.filter((place) => !isSamePlace(place, current))
+  const [onlyOther] = others
+  if (!onlyOther) {
+    return null
+  }
+
+  if (others.length === 1) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.message}>Showing {formatLabel(current)}.</Text>
+        <TouchableOpacity onPress={() => onChoose(onlyOther)} style={styles.option} accessibilityRole="button">
+          <Text style={styles.optionText}>Did you mean {formatLabel(onlyOther)}?</Text>
+        </TouchableOpacity>
+      </View>
+    )
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Which {query.trim()}?</Text>
+      <View style={styles.options}>
+        {places.map((place) => {
+          const isCurrent = isSamePlace(place, current)
+          return (
+            <TouchableOpacity
+              key={`${place.lat},${place.lon}`}
+              onPress={() => onChoose(place)}
+              disabled={isCurrent}
+              style={[styles.option, isCurrent && styles.currentOption]}
+              accessibilityRole="button"
+              accessibilityState={{ selected: isCurrent }}
+            >
+              <Text style={[styles.optionText, isCurrent && styles.currentOptionText]}>{formatLabel(place)}</Text>
+            </TouchableOpacity>
+          )
+        })}
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: '#bae6fd',
+    backgroundColor: '#e0f2fe',
+    padding: 16,
+  },
+  title: {
+    color: '#0f172a',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  message: {
+    color: '#0369a1',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    alignSelf: 'flex-start',
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#bae6fd',
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  currentOption: {
+    borderColor: '#0ea5e9',
+    backgroundColor: '#0ea5e9',
+  },
+  optionText: {
+    color: '#0369a1',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  currentOptionText: {
+    color: '#ffffff',
+  },
+})
+
+export default PlaceChooser
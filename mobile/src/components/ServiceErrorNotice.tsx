@@ -0,0 +1,157 @@
+import { useEffect, useRef, useState } from 'react'
+import { AppState, StyleSheet, Text, TouchableOpacity, View } from 'react-native'
+import type { WeatherErrorNotice } from '@optimistic-weather/core'
+
+interface ServiceErrorNoticeProps {
+  notice: WeatherErrorNotice
+  onRetry?: () => void
+}
+
+const ICONS: Record<WeatherErrorNotice['kind'], string> = {
+  auth: '🔑',
+  'rate-limited': '⏳',
+  'not-found': '🧭',
+  network: '📡',
+  'malformed-response': '🧩',
+  server: '🛠️',
+  unknown: '🌦️',
+}
+
+// Retrying the same query cannot fix these, so they get no retry button.
+const NOT_RETRYABLE = new Set<WeatherErrorNotice['kind']>(['auth', 'not-found'])
+
+// Timers and listeners read the latest callback so parent re-renders don't restart them.
+const useLatest = <T,>(value: T) => {
+  const ref = useRef(value)
+  useEffect(() => {
+    ref.current = value
+  })
+  return ref
+}
+
+const useRetryCountdown = (seconds: number | undefined, onRetry: (() => void) | undefined) => {
+  const [remaining, setRemaining] = useState(seconds)
+  const onRetryRef = useLatest(onRetry)
+
+  useEffect(() => {
+    if (remaining === undefined || !onRetryRef.current) {
+      return
+    }
+    const timeoutId = setTimeout(() => {
+      if (remaining > 1) {
+        setRemaining(remaining - 1)
+        return
+      }
+      setRemaining(undefined)
+      onRetryRef.current?.()
+    }, 1000)
+    return () => {
+      clearTimeout(timeoutId)
+    }
+  }, [remaining, onRetryRef])
+
+  return remaining
+}
+
+// Without a connectivity listener, coming back to the app is the best cue that the network may be back.
+const useRetryWhenForegrounded = (enabled: boolean, onRetry: (() => void) | undefined) => {
+  const onRetryRef = useLatest(onRetry)
+
+  useEffect(() => {
+    if (!enabled) {
+      return
+    }
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        onRetryRef.current?.()
+      }
+    })
+    return () => {
+      subscription.remove()
+    }
+  }, [enabled, onRetryRef])
+}
+
+/**
+ * Recovery UI for a failed forecast or location lookup. Rate limits count down to an automatic
+ * retry, network failures show an offline banner, and key problems point at the setting to fix.
+ * Remount it (via `key`) for each new failure.
+ */
+const ServiceErrorNotice = ({ notice, onRetry }: ServiceErrorNoticeProps) => {
+  const remaining = useRetryCountdown(notice.retryInSeconds, onRetry)
+  const isOffline = notice.kind === 'network'
+  useRetryWhenForegrounded(isOffline, onRetry)
+  const canRetry = Boolean(onRetry) && !NOT_RETRYABLE.has(notice.kind)
+
+  return (
+    <View accessibilityRole="alert" style={[styles.container, isOffline && styles.offlineContainer]}>
+      <Text style={styles.title}>
+        {ICONS[notice.kind]} {notice.title}
+      </Text>
+      <Text style={[styles.message, isOffline && styles.offlineText]}>{notice.message}</Text>
+      {remaining !== undefined && remaining > 0 && onRetry ? (
+        <Text style={styles.caption}>Retrying in {remaining}s</Text>
+      ) : null}
+      {canRetry ? (
+        <TouchableOpacity onPress={onRetry} style={styles.retryButton} accessibilityRole="button">
+          <Text style={[styles.retryText, isOffline && styles.offlineText]}>Try again</Text>
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+    backgroundColor: '#fef2f2',
+    padding: 16,
+  },
+  offlineContainer: {
+    borderColor: '#fde68a',
+    backgroundColor: '#fffbeb',
+  },
+  title: {
+    color: '#0f172a',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  message: {
+    color: '#b91c1c',
+    fontSize: 14,
+    fontWeight: '600',
+    lineHeight: 20,
+  },
+  offlineText: {
+    color: '#92400e',
+  },
+  caption: {
+    color: '#64748b',
+    fontSize: 12,
+    fontWeight: '700',
+    letterSpacing: 0.6,
+    textTransform: 'uppercase',
+  },
+  retryButton: {
+    alignSelf: 'flex-start',
+    marginTop: 4,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#cbd5f5',
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  retryText: {
+    color: '#b91c1c',
+    fontSize: 12,
+    fontWeight: '700',
+    letterSpacing: 0.6,
+    textTransform: 'uppercase',
+  },
+})
+
+export default ServiceErrorNotice
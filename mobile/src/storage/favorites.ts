@@ -0,0 +1,22 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { parseFavorites } from '@optimistic-weather/core'
+import type { FavoriteLocation } from '@optimistic-weather/core'
+
+const FAVORITES_KEY = 'optimistic-weather-favorites-v1'
+
+export const loadFavorites = async (): Promise<FavoriteLocation[]> => {
+  try {
+    return parseFavorites(await AsyncStorage.getItem(FAVORITES_KEY))
+  } catch (error) {
+    console.warn('Failed to load favorites', error)
+    return []
+  }
+}
+
+export const persistFavorites = async (favorites: FavoriteLocation[]): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(FAVORITES_KEY, JSON.stringify(favorites))
+  } catch (error) {
+    console.warn('Failed to persist favorites', error)
+  }
+}
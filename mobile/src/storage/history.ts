@@ -1,5 +1,5 @@
 import AsyncStorage from '@react-native-async-storage/async-storage'
-import type { SearchHistoryEntry } from '../types/weather'
+import type { SearchHistoryEntry } from '@optimistic-weather/core'
 
 const HISTORY_KEY = 'optimistic-weather-history-v1'
 
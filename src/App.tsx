@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import type { ComponentType, FormEvent } from 'react'
 import { AnimatePresence, motion } from 'framer-motion'
 import { Button } from '@/components/ui/button'
@@ -10,33 +10,56 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card'
-import { Input } from '@/components/ui/input'
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
 import {
   fetchOptimisticForecast,
-  reverseGeocode,
+  fetchOptimisticForecastAt,
+  fetchOptimisticForecastFor,
+  searchLocalSuggestions,
   searchLocationSuggestions,
-  formatUsLocationLabel,
+  formatPlaceLabel,
+  rememberPlaceChoice,
+  OPENWEATHER_KEY_LOCATION,
 } from '@/services/openWeather'
 import type {
   Coordinates,
+  FavoriteLocation,
   GeoLocation,
   OptimisticForecast,
   SearchHistoryEntry,
-} from '@/types/weather'
-import type { OptimisticHighlight } from '@/types/weather'
+} from '@optimistic-weather/core'
+import type { OptimisticHighlight } from '@optimistic-weather/core'
+import {
+  addFavorite,
+  describeDataIssues,
+  describeWeatherError,
+  findFavorite,
+  isAbortError,
+  moveFavorite,
+  presentForecast,
+  removeFavorite,
+  renameFavorite,
+} from '@optimistic-weather/core'
+import type { WeatherErrorNotice } from '@optimistic-weather/core'
 import type { LocationSuggestion } from '@/services/openWeather'
 import {
   clearHistoryEntries,
   loadHistoryEntries,
   persistHistoryEntries,
 } from '@/lib/history-storage'
+import { loadFavorites, persistFavorites } from '@/lib/favorites-storage'
+import { buildUrlSearch, isSameUrlTarget, parseUrlState } from '@/lib/url-state'
+import type { UrlState, UrlTarget } from '@/lib/url-state'
 import {
+  Columns3,
+  LayoutGrid,
   Loader2,
   Navigation,
+  Star,
   SunMedium,
   ThermometerSun,
   UmbrellaOff,
+  TriangleAlert,
   X,
   Droplets,
   Binoculars,
@@ -45,15 +68,32 @@ import {
 import TenDayOutlook from '@/components/forecast/TenDayOutlook'
 import RadarView from '@/components/radar/RadarView'
 import HourlyCarousel from '@/components/forecast/HourlyCarousel'
+import ServiceErrorNotice from '@/components/feedback/ServiceErrorNotice'
+import PlaceChooser from '@/components/feedback/PlaceChooser'
+import LocationCombobox from '@/components/search/LocationCombobox'
+import FavoritesBar from '@/components/favorites/FavoritesBar'
+import FavoritesDashboard from '@/components/dashboard/FavoritesDashboard'
+import LocationComparison from '@/components/compare/LocationComparison'
 
 type Units = 'metric' | 'imperial'
 type ActivePanel = 'outlook' | 'radar'
+type MainView = 'forecast' | 'dashboard' | 'compare'
+type RetryTarget = { query: string; location?: GeoLocation } | { coords: Coordinates }
+interface ServiceErrorState {
+  id: number
+  notice: WeatherErrorNotice
+  retry: RetryTarget
+}
+// An ambiguous query and every place it could mean, kept while the user switches between them.
+interface PlaceOptions {
+  query: string
+  places: GeoLocation[]
+}
 const UNIT_STORAGE_KEY = 'optimistic-weather-units-v1'
 const PANEL_STORAGE_KEY = 'optimistic-weather-panel-v1'
 const HISTORY_LIMIT = 8
 const MIN_AUTOCOMPLETE_QUERY_LENGTH = 2
-
-const formatLocationSuggestionLabel = (location: GeoLocation) => formatUsLocationLabel(location)
+const viewToggleClass = 'inline-flex items-center gap-1.5 rounded-full px-2 py-1 text-[10px] font-semibold uppercase tracking-[0.3em] text-slate-500 transition hover:text-slate-700'
 
 const formatTemperature = (value: number, units: Units) => {
   const rounded = Math.round(value)
@@ -79,29 +119,52 @@ const formatRelativeTime = (timestamp: number) => {
 }
 
 function App() {
+  // A shared link (`?q=…&units=…&panel=…`) takes precedence over stored preferences and auto-locate.
+  const [initialUrlState] = useState<UrlState>(() =>
+    typeof window === 'undefined' ? {} : parseUrlState(window.location.search),
+  )
   const [query, setQuery] = useState('')
   const [units, setUnits] = useState<Units>(() => {
+    if (initialUrlState.units) {
+      return initialUrlState.units
+    }
     if (typeof window === 'undefined') {
       return 'imperial'
     }
     const stored = window.localStorage.getItem(UNIT_STORAGE_KEY)
     return stored === 'metric' || stored === 'imperial' ? stored : 'imperial'
   })
-  const [forecast, setForecast] = useState<OptimisticForecast | null>(null)
+  const [forecastData, setForecastData] = useState<OptimisticForecast | null>(null)
+  const forecast = useMemo(
+    () => (forecastData ? presentForecast(forecastData, units) : null),
+    [forecastData, units],
+  )
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [lastQuery, setLastQuery] = useState<string | null>(null)
+  const [serviceError, setServiceError] = useState<ServiceErrorState | null>(null)
+  // The last search that loaded, with the place it resolved to, so retries skip geocoding.
+  const [lastSearch, setLastSearch] = useState<{ query: string; location: GeoLocation } | null>(null)
+  const [placeOptions, setPlaceOptions] = useState<PlaceOptions | null>(null)
   const [history, setHistory] = useState<SearchHistoryEntry[]>(() => loadHistoryEntries())
   const [historyMenuOpen, setHistoryMenuOpen] = useState(false)
+  const [favorites, setFavorites] = useState<FavoriteLocation[]>(() => loadFavorites())
+  const [view, setView] = useState<MainView>('forecast')
+  // The place the URL points at: the last search or coordinates asked for, even if it failed.
+  const [urlTarget, setUrlTarget] = useState<UrlTarget | null>(null)
+  const writtenUrlTargetRef = useRef<UrlTarget | null>(null)
   const [geoSupported] = useState(() => typeof navigator !== 'undefined' && !!navigator.geolocation)
   const [geoError, setGeoError] = useState<string | null>(null)
+  // Where geolocation last put the user; suggestions rank nearby places higher and show distances.
+  const [lastPosition, setLastPosition] = useState<Coordinates | null>(null)
   const searchInputRef = useRef<HTMLInputElement | null>(null)
   const [searchVisible, setSearchVisible] = useState(false)
   const [autoLocateAttempted, setAutoLocateAttempted] = useState(false)
   const [suggestions, setSuggestions] = useState<LocationSuggestion[]>([])
   const [suggestionsLoading, setSuggestionsLoading] = useState(false)
   const [suggestionsError, setSuggestionsError] = useState<string | null>(null)
-  const suggestionRequestIdRef = useRef(0)
+  const suggestionAbortRef = useRef<AbortController | null>(null)
+  const searchAbortRef = useRef<AbortController | null>(null)
+  const searchStartedAtRef = useRef<number | null>(null)
   const [pendingSearchValue, setPendingSearchValue] = useState<string | null>(null)
   const [activePanel, setActivePanel] = useState<ActivePanel | null>(() => {
     if (typeof window === 'undefined') {
@@ -116,11 +179,8 @@ function App() {
   }, [history])
 
   useEffect(() => {
-    if (typeof window === 'undefined') {
-      return
-    }
-    window.localStorage.setItem(UNIT_STORAGE_KEY, units)
-  }, [units])
+    persistFavorites(favorites)
+  }, [favorites])
 
   useEffect(() => {
     if (typeof window === 'undefined') {
@@ -133,6 +193,24 @@ function App() {
     }
   }, [activePanel])
 
+  // New places get their own history entry; unit and panel changes update the current one.
+  useEffect(() => {
+    if (typeof window === 'undefined' || !urlTarget || loading) {
+      return
+    }
+    const search = buildUrlSearch({ target: urlTarget, units, panel: activePanel ?? undefined })
+    if (search !== window.location.search) {
+      const url = `${window.location.pathname}${search}${window.location.hash}`
+      const previous = writtenUrlTargetRef.current
+      if (previous && !isSameUrlTarget(previous, urlTarget)) {
+        window.history.pushState(null, '', url)
+      } else {
+        window.history.replaceState(null, '', url)
+      }
+    }
+    writtenUrlTargetRef.current = urlTarget
+  }, [urlTarget, units, activePanel, loading])
+
   useEffect(() => {
     if (!searchVisible) {
       setSuggestions([])
@@ -149,24 +227,25 @@ function App() {
       return
     }
 
-    const requestId = suggestionRequestIdRef.current + 1
-    suggestionRequestIdRef.current = requestId
-    setSuggestionsLoading(true)
+    // Bundled places show on the keystroke; the debounced lookup below refines them.
+    const context = { origin: lastPosition ?? undefined, history }
+    const localSuggestions = searchLocalSuggestions(trimmedQuery, context)
+    const controller = new AbortController()
+    suggestionAbortRef.current = controller
+    setSuggestions(localSuggestions)
+    setSuggestionsLoading(!localSuggestions.length)
     setSuggestionsError(null)
 
     const timeoutId = window.setTimeout(() => {
-      void searchLocationSuggestions(trimmedQuery)
+      void searchLocationSuggestions(trimmedQuery, { signal: controller.signal, ...context })
         .then((results) => {
-          if (suggestionRequestIdRef.current !== requestId) {
-            return
-          }
           setSuggestions(results)
           if (!results.length) {
             setSuggestionsError(`No matches found for "${trimmedQuery}".`)
           }
         })
         .catch((err) => {
-          if (suggestionRequestIdRef.current !== requestId) {
+          if (isAbortError(err)) {
             return
           }
           const message = err instanceof Error
@@ -176,7 +255,7 @@ function App() {
           setSuggestionsError(message)
         })
         .finally(() => {
-          if (suggestionRequestIdRef.current === requestId) {
+          if (!controller.signal.aborted) {
             setSuggestionsLoading(false)
           }
         })
@@ -184,55 +263,110 @@ function App() {
 
     return () => {
       window.clearTimeout(timeoutId)
+      controller.abort()
+    }
+  }, [query, searchVisible, lastPosition, history])
+
+  useEffect(() => () => {
+    searchAbortRef.current?.abort()
+  }, [])
+
+  // Pairs the service's per-stage timings with time-to-first-render for the search that produced them.
+  useEffect(() => {
+    const startedAt = searchStartedAtRef.current
+    if (!forecastData || startedAt === null) {
+      return
     }
-  }, [query, searchVisible])
+    searchStartedAtRef.current = null
+    if (import.meta.env.DEV) {
+      console.info('Forecast timings (ms):', {
+        ...forecastData.timings,
+        firstRenderMs: Math.round(performance.now() - startedAt),
+      })
+    }
+  }, [forecastData])
 
+  // Each forecast search supersedes the previous one, cancelling its requests mid-flight.
+  const startSearchRequest = useCallback(() => {
+    suggestionAbortRef.current?.abort()
+    searchAbortRef.current?.abort()
+    const controller = new AbortController()
+    searchAbortRef.current = controller
+    searchStartedAtRef.current = performance.now()
+    return controller.signal
+  }, [])
 
   const recordHistory = useCallback((entry: Omit<SearchHistoryEntry, 'id'>) => {
     const id = crypto?.randomUUID ? crypto.randomUUID() : `hist-${Date.now()}`
     setHistory((prev) => {
-      const filtered = prev.filter((item) => item.query.toLowerCase() !== entry.query.toLowerCase())
-      const nextEntries = [{ ...entry, id }, ...filtered]
+      const isSameQuery = (item: SearchHistoryEntry) => item.query.toLowerCase() === entry.query.toLowerCase()
+      const searchCount = prev.find(isSameQuery)?.searchCount ?? 0
+      const filtered = prev.filter((item) => !isSameQuery(item))
+      const nextEntries = [{ ...entry, id, searchCount: entry.success ? searchCount + 1 : searchCount }, ...filtered]
       return nextEntries.slice(0, HISTORY_LIMIT)
     })
   }, [])
 
-  const runSearch = async (searchQuery: string, requestedUnits: Units) => {
-    suggestionRequestIdRef.current += 1
+  // A resolved `location` (from a suggestion or history) is forecast as-is; otherwise the query is geocoded.
+  // `places` keeps the place chooser up when the location was picked from it.
+  const runSearch = async (searchQuery: string, location?: GeoLocation, places?: GeoLocation[]) => {
+    const signal = startSearchRequest()
     setSuggestions([])
     setSuggestionsError(null)
     setSuggestionsLoading(false)
     setPendingSearchValue(null)
     setLoading(true)
     setError(null)
+    setServiceError(null)
     setActivePanel(null)
+    // Resolved places are linked by coordinates, so the link reopens that exact place.
+    setUrlTarget(location ? { coords: { lat: location.lat, lon: location.lon } } : { query: searchQuery })
 
     try {
-      const data = await fetchOptimisticForecast(searchQuery, requestedUnits)
-      setForecast(data)
-      setLastQuery(searchQuery)
+      const data = location
+        ? await fetchOptimisticForecastFor(location, { signal })
+        : await fetchOptimisticForecast(searchQuery, { signal })
+      setForecastData(data)
+      setLastSearch({ query: searchQuery, location: data.location })
+      const candidates = places ?? (data.alternatives ? [data.location, ...data.alternatives] : undefined)
+      setPlaceOptions(candidates ? { query: searchQuery, places: candidates } : null)
       recordHistory({
         query: searchQuery,
         success: true,
         timestamp: Date.now(),
         locationLabel: data.locationLabel,
+        location: data.location,
       })
       setSearchVisible(false)
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Unable to load the forecast right now.'
-      setError(message)
-      setForecast(null)
+      if (isAbortError(err)) {
+        return
+      }
+      const notice = describeWeatherError(err, { keyLocation: OPENWEATHER_KEY_LOCATION })
+      setServiceError({ id: Date.now(), notice, retry: { query: searchQuery, location } })
+      setForecastData(null)
+      setPlaceOptions(null)
       recordHistory({
         query: searchQuery,
         success: false,
         timestamp: Date.now(),
-        errorMessage: message,
+        errorMessage: notice.message,
       })
     } finally {
-      setLoading(false)
+      if (!signal.aborted) {
+        setLoading(false)
+      }
     }
   }
 
+  const handlePlaceChoice = (location: GeoLocation) => {
+    if (!placeOptions) {
+      return
+    }
+    void rememberPlaceChoice(placeOptions.query, location)
+    void runSearch(placeOptions.query, location, placeOptions.places)
+  }
+
   const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault()
     const finalQuery = (pendingSearchValue ?? trimmedQuery).trim()
@@ -240,7 +374,7 @@ function App() {
       setError('Enter a city, state, or zip to see the optimistic outlook.')
       return
     }
-    void runSearch(finalQuery, units)
+    void runSearch(finalQuery)
   }
 
   const handleUnitsSelect = (nextUnits: Units | '') => {
@@ -248,22 +382,54 @@ function App() {
       return
     }
     setUnits(nextUnits)
-    if (lastQuery) {
-      void runSearch(lastQuery, nextUnits)
-    }
+    // Only the user's own choice is remembered; units from a shared link apply to this visit alone.
+    window.localStorage.setItem(UNIT_STORAGE_KEY, nextUnits)
   }
 
   const handleSuggestionSelect = (suggestion: LocationSuggestion) => {
     const nextQuery = suggestion.searchValue
     setQuery(nextQuery)
     setPendingSearchValue(suggestion.searchValue)
-    void runSearch(suggestion.searchValue, units)
+    void runSearch(suggestion.searchValue, suggestion.location)
+  }
+
+  const handleSearchClear = () => {
+    setQuery('')
+    setError(null)
+    setSuggestions([])
+    setSuggestionsError(null)
+    setSuggestionsLoading(false)
+    setPendingSearchValue(null)
+    searchInputRef.current?.focus()
   }
 
   const handleHistorySelect = (entry: SearchHistoryEntry) => {
     setQuery(entry.query)
     setPendingSearchValue(null)
-    void runSearch(entry.query, units)
+    void runSearch(entry.query, entry.location)
+  }
+
+  const handleFavoriteSelect = (favorite: FavoriteLocation) => {
+    const label = formatPlaceLabel(favorite.location)
+    setQuery(label)
+    setPendingSearchValue(null)
+    void runSearch(label, favorite.location)
+  }
+
+  const handleDashboardOpen = (favorite: FavoriteLocation) => {
+    setView('forecast')
+    handleFavoriteSelect(favorite)
+  }
+
+  // Saved under the place's own name; "Edit" in the favorites bar renames it.
+  const handleFavoriteToggle = (location: GeoLocation) => {
+    const existing = findFavorite(favorites, location)
+    if (existing) {
+      setFavorites(removeFavorite(favorites, existing.id))
+      return
+    }
+    const id = crypto?.randomUUID ? crypto.randomUUID() : `fav-${Date.now()}`
+    setFavorites(addFavorite(favorites, { id, nickname: location.name, location, addedAt: Date.now() }))
   }
 
   const handleHistoryDelete = (id: string) => {
@@ -278,6 +444,32 @@ function App() {
   const trimmedQuery = query.trim()
   const shouldShowSuggestions = searchVisible && trimmedQuery.length >= MIN_AUTOCOMPLETE_QUERY_LENGTH
   const errorMessage = error ?? geoError
+  const currentFavorite = forecast ? findFavorite(favorites, forecast.location) : undefined
+  // Favorites plus the place on screen, when it is not one of them.
+  const comparePlaces = useMemo(() => {
+    const places = favorites.map(({ id, nickname, location }) => ({ id, label: nickname, location }))
+    const current = forecastData?.location
+    if (!current || findFavorite(favorites, current)) {
+      return places
+    }
+    return [{ id: `current-${current.lat},${current.lon}`, label: formatPlaceLabel(current), location: current }, ...places]
+  }, [favorites, forecastData])
+  // The dashboard and comparison fall back to the forecast when there is nothing to show in them.
+  const showDashboard = view === 'dashboard' && favorites.length > 0
+  const showComparison = view === 'compare' && comparePlaces.length >= 2
+  const showForecast = !showDashboard && !showComparison
+
+  const retryFailedRequest = () => {
+    const retry = serviceError?.retry
+    if (!retry) {
+      return
+    }
+    if ('query' in retry) {
+      void runSearch(retry.query, retry.location)
+    } else {
+      void runCoordsSearch(retry.coords)
+    }
+  }
 
   const drynessHighlight = forecast?.highlights.find((highlight) =>
     highlight.id === 'dryness'
@@ -359,45 +551,91 @@ function App() {
     )
   }
 
-  const runCoordsSearch = useCallback(async (coords: Coordinates, labelHint?: string) => {
+  // Geolocation, its retries and shared coordinate links land here. Only device positions
+  // (`fromDevice`) count as where the user is.
+  const runCoordsSearch = useCallback(async (coords: Coordinates, { fromDevice = true } = {}) => {
+    const signal = startSearchRequest()
+    if (fromDevice) {
+      setLastPosition(coords)
+    }
     setLoading(true)
     setError(null)
+    setServiceError(null)
     setGeoError(null)
     setActivePanel(null)
+    setUrlTarget({ coords })
 
     try {
-      const place = await reverseGeocode(coords)
-      const labelParts = [place.name]
-      if (place.state) {
-        labelParts.push(place.state)
-      }
-      labelParts.push(place.country)
-      const queryLabel = labelHint ?? labelParts.join(', ')
-
-      const data = await fetchOptimisticForecast(queryLabel, units)
-      setForecast(data)
-      setLastQuery(queryLabel)
+      const data = await fetchOptimisticForecastAt(coords, { signal })
+      setForecastData(data)
+      setLastSearch({ query: data.locationLabel, location: data.location })
+      setPlaceOptions(null)
       recordHistory({
-        query: queryLabel,
+        query: data.locationLabel,
         success: true,
         timestamp: Date.now(),
         locationLabel: data.locationLabel,
+        location: data.location,
       })
       setSearchVisible(false)
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'We could not load your local forecast.'
-      setError(message)
-      setGeoError(message)
-      setForecast(null)
+      if (isAbortError(err)) {
+        return
+      }
+      const notice = describeWeatherError(err, {
+        keyLocation: OPENWEATHER_KEY_LOCATION,
+        fallbackMessage: 'We could not load your local forecast.',
+      })
+      setServiceError({ id: Date.now(), notice, retry: { coords } })
+      setForecastData(null)
+      setPlaceOptions(null)
     } finally {
-      setLoading(false)
+      if (!signal.aborted) {
+        setLoading(false)
+      }
+    }
+  }, [recordHistory, startSearchRequest])
+
+  // Applies a shared link or a back/forward step. Searches close the panels, so the link's panel
+  // is reopened once its search has started.
+  const restoreUrlState = ({ target, units: linkedUnits, panel }: UrlState) => {
+    if (linkedUnits) {
+      setUnits(linkedUnits)
     }
-  }, [units, recordHistory])
+    if (target && !(urlTarget && isSameUrlTarget(target, urlTarget))) {
+      setView('forecast')
+      setPendingSearchValue(null)
+      if ('coords' in target) {
+        void runCoordsSearch(target.coords, { fromDevice: false })
+      } else {
+        setQuery(target.query)
+        void runSearch(target.query)
+      }
+    }
+    setActivePanel(panel ?? null)
+  }
+
+  // Listeners and the bootstrap effect read the latest version without re-subscribing.
+  const restoreUrlStateRef = useRef(restoreUrlState)
+  useEffect(() => {
+    restoreUrlStateRef.current = restoreUrlState
+  })
+
+  useEffect(() => {
+    const handlePopState = () => restoreUrlStateRef.current(parseUrlState(window.location.search))
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
 
   useEffect(() => {
     if (searchVisible || autoLocateAttempted || forecast || loading) {
       return
     }
+    if (initialUrlState.target) {
+      setAutoLocateAttempted(true)
+      restoreUrlStateRef.current(initialUrlState)
+      return
+    }
     if (!geoSupported || !navigator.geolocation) {
       setSearchVisible(true)
       setAutoLocateAttempted(true)
@@ -434,7 +672,7 @@ function App() {
         timeout: 1000 * 10,
       },
     )
-  }, [searchVisible, autoLocateAttempted, forecast, loading, geoSupported, runCoordsSearch])
+  }, [searchVisible, autoLocateAttempted, forecast, loading, geoSupported, initialUrlState, runCoordsSearch])
 
   const handleUseLocation = () => {
     if (!navigator.geolocation) {
@@ -476,6 +714,7 @@ function App() {
   }
 
   const extendedOutlook = forecast?.extendedOutlook
+  const dataIssuesNote = describeDataIssues(forecast?.dataIssues)
 
   const handlePanelSelect = (value: ActivePanel | '') => {
     if (!value) {
@@ -509,10 +748,48 @@ function App() {
               </span>
             </span>
           </div>
+          <FavoritesBar
+            favorites={favorites}
+            activeLocation={forecast?.location}
+            disabled={loading}
+            onSelect={handleFavoriteSelect}
+            onRename={(id, nickname) => setFavorites((prev) => renameFavorite(prev, id, nickname))}
+            onMove={(id, offset) => setFavorites((prev) => moveFavorite(prev, id, offset))}
+            onRemove={(id) => setFavorites((prev) => removeFavorite(prev, id))}
+          />
+          <div className="flex flex-wrap items-center gap-2 sm:justify-center">
+            {favorites.length ? (
+              <button
+                type="button"
+                onClick={() => setView((current) => (current === 'dashboard' ? 'forecast' : 'dashboard'))}
+                aria-pressed={view === 'dashboard'}
+                className={viewToggleClass}
+              >
+                <LayoutGrid className="h-3.5 w-3.5" aria-hidden />
+                {view === 'dashboard' ? 'Back to forecast' : 'All favorites'}
+              </button>
+            ) : null}
+            {comparePlaces.length >= 2 ? (
+              <button
+                type="button"
+                onClick={() => setView((current) => (current === 'compare' ? 'forecast' : 'compare'))}
+                aria-pressed={view === 'compare'}
+                className={viewToggleClass}
+              >
+                <Columns3 className="h-3.5 w-3.5" aria-hidden />
+                {view === 'compare' ? 'Back to forecast' : 'Compare places'}
+              </button>
+            ) : null}
+          </div>
         </header>
 
+        {showDashboard ? (
+          <FavoritesDashboard favorites={favorites} units={units} onOpen={handleDashboardOpen} />
+        ) : null}
+        {showComparison ? <LocationComparison places={comparePlaces} units={units} /> : null}
+
         <AnimatePresence>
-          {searchVisible ? (
+          {showForecast && searchVisible ? (
             <motion.div
               initial={{ opacity: 0, y: 24 }}
               animate={{ opacity: 1, y: 0 }}
@@ -533,77 +810,24 @@ function App() {
                   <label className="text-sm font-medium text-slate-700" htmlFor="location">
                     Where should we look?
                   </label>
-                  <div className="space-y-2">
-                    <div className="relative">
-                      <Input
-                        id="location"
-                        type="text"
-                        placeholder="e.g. Louisville, KY or 40299"
-                        value={query}
-                        onChange={(event) => {
-                          setQuery(event.target.value)
-                          setPendingSearchValue(null)
-                        }}
-                        autoComplete="off"
-                        ref={searchInputRef}
-                        className="pr-10"
-                      />
-                      {query && (
-                        <button
-                          type="button"
-                          onClick={() => {
-                            setQuery('')
-                            setError(null)
-                            setSuggestions([])
-                            setSuggestionsError(null)
-                            setSuggestionsLoading(false)
-                            setPendingSearchValue(null)
-                            searchInputRef.current?.focus()
-                          }}
-                          className="absolute inset-y-0 right-2 flex items-center text-slate-400 transition hover:text-slate-600 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-400 focus-visible:ring-offset-2"
-                          aria-label="Clear search"
-                        >
-                          <X className="h-4 w-4" aria-hidden />
-                        </button>
-                      )}
-                    </div>
-                    {shouldShowSuggestions && (suggestionsLoading || suggestions.length > 0 || suggestionsError) && (
-                      <div className="rounded-2xl border border-slate-200/80 bg-white/95 shadow-md">
-                        {suggestionsLoading ? (
-                          <div className="flex items-center gap-2 px-4 py-3 text-sm text-slate-600">
-                            <Loader2 className="h-4 w-4 animate-spin" aria-hidden />
-                            Looking for matching places…
-                          </div>
-                        ) : suggestions.length > 0 ? (
-                          <ul className="divide-y divide-slate-100">
-                            {suggestions.map((suggestion) => {
-                              const { location, searchValue } = suggestion
-                              const label = formatLocationSuggestionLabel(location)
-                              const key = `${searchValue}:${location.lat}:${location.lon}`
-                              const helperText = searchValue.toLowerCase() === label.toLowerCase()
-                                ? 'Tap to search this spot'
-                                : `Search using "${searchValue}"`
-
-                              return (
-                                <li key={key}>
-                                  <button
-                                    type="button"
-                                    onClick={() => handleSuggestionSelect(suggestion)}
-                                    className="flex w-full flex-col items-start gap-1 px-4 py-3 text-left transition hover:bg-slate-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-400 focus-visible:ring-offset-2"
-                                  >
-                                    <span className="text-sm font-medium text-slate-900">{label}</span>
-                                    <span className="text-xs text-slate-500">{helperText}</span>
-                                  </button>
-                                </li>
-                              )
-                            })}
-                          </ul>
-                        ) : suggestionsError ? (
-                          <div className="px-4 py-3 text-sm text-slate-500">{suggestionsError}</div>
-                        ) : null}
-                      </div>
-                    )}
-                  </div>
+                  <LocationCombobox
+                    id="location"
+                    placeholder="e.g. Louisville, KY, 40299 or 38.25, -85.76"
+                    value={query}
+                    onValueChange={(nextQuery) => {
+                      setQuery(nextQuery)
+                      setPendingSearchValue(null)
+                    }}
+                    onSelect={handleSuggestionSelect}
+                    onClear={handleSearchClear}
+                    suggestions={suggestions}
+                    loading={suggestionsLoading}
+                    error={suggestionsError}
+                    enabled={shouldShowSuggestions}
+                    formatLabel={formatPlaceLabel}
+                    units={units}
+                    inputRef={searchInputRef}
+                  />
                 </div>
 
                 <div className="flex flex-wrap items-center gap-3">
@@ -726,19 +950,31 @@ function App() {
           ) : null}
         </AnimatePresence>
 
-        {errorMessage && (
+        {showForecast && serviceError ? (
+          <ServiceErrorNotice key={serviceError.id} notice={serviceError.notice} onRetry={retryFailedRequest} />
+        ) : null}
+        {showForecast && placeOptions && forecast ? (
+          <PlaceChooser
+            query={placeOptions.query}
+            current={forecast.location}
+            places={placeOptions.places}
+            formatLabel={formatPlaceLabel}
+            onChoose={handlePlaceChoice}
+          />
+        ) : null}
+        {showForecast && errorMessage && (
           <div className="flex items-center gap-2 rounded-xl border border-rose-200 bg-rose-50/80 px-4 py-3 text-sm font-medium text-rose-700 shadow-sm">
             {errorMessage}
           </div>
         )}
-        {loading && !forecast && (
+        {showForecast && loading && !forecast && (
           <div className="flex items-center gap-2 rounded-xl border border-sky-200 bg-sky-50/80 px-4 py-3 text-sm font-medium text-sky-700 shadow-sm">
             <Loader2 className="h-4 w-4 animate-spin" aria-hidden />
             Gathering your optimistic outlook…
           </div>
         )}
 
-        {forecast ? (
+        {!showForecast ? null : forecast ? (
           <motion.div
             initial={{ opacity: 0, y: 40 }}
             animate={{ opacity: 1, y: 0 }}
@@ -762,15 +998,27 @@ function App() {
                         Feels {formatTemperature(forecast.temperature.feelsLike, units)}
                       </p>
                     </div>
-                    <Button
-                      type="button"
-                      variant="outline"
-                      onClick={() => setSearchVisible((visible) => !visible)}
-                      disabled={loading}
-                      className="rounded-full border-slate-300 bg-white/80 px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:bg-white"
-                    >
-                      {searchVisible ? 'Done searching' : 'Change location'}
-                    </Button>
+                    <div className="flex flex-wrap items-center justify-end gap-2">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => handleFavoriteToggle(forecast.location)}
+                        aria-pressed={Boolean(currentFavorite)}
+                        className="flex items-center gap-1.5 rounded-full border-slate-300 bg-white/80 px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:bg-white"
+                      >
+                        <Star className={currentFavorite ? 'h-4 w-4 fill-amber-400 text-amber-500' : 'h-4 w-4'} aria-hidden />
+                        {currentFavorite ? 'Saved' : 'Save'}
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => setSearchVisible((visible) => !visible)}
+                        disabled={loading}
+                        className="rounded-full border-slate-300 bg-white/80 px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:bg-white"
+                      >
+                        {searchVisible ? 'Done searching' : 'Change location'}
+                      </Button>
+                    </div>
                   </div>
                 </div>
 
@@ -783,6 +1031,16 @@ function App() {
                     {highlightCards.map(renderHighlightCard)}
                   </div>
                 ) : null}
+
+                {dataIssuesNote ? (
+                  <p
+                    className="flex items-center gap-2 text-xs font-medium text-slate-500"
+                    title={forecast.dataIssues?.map((issue) => issue.field).join(', ')}
+                  >
+                    <TriangleAlert className="h-3.5 w-3.5 shrink-0 text-amber-500" aria-hidden />
+                    {dataIssuesNote}
+                  </p>
+                ) : null}
               </div>
 
               <div className="flex flex-wrap items-start justify-end gap-4">
@@ -816,7 +1074,7 @@ function App() {
                   isComplete={extendedOutlook?.isComplete ?? false}
                   message={extendedOutlook?.message}
                   isLoading={loading && !(extendedOutlook && extendedOutlook.days.length > 0)}
-                  onRetry={lastQuery ? () => { void runSearch(lastQuery, units) } : undefined}
+                  onRetry={lastSearch ? () => { void runSearch(lastSearch.query, lastSearch.location) } : undefined}
                 />
               ) : null}
 
@@ -827,6 +1085,19 @@ function App() {
                   isLoading={loading}
                 />
               ) : null}
+
+              {forecast.attribution ? (
+                <p className="text-right text-xs text-slate-500">
+                  <a
+                    href={forecast.attribution.url}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="hover:text-slate-700"
+                  >
+                    {forecast.attribution.label}
+                  </a>
+                </p>
+              ) : null}
             </CardContent>
           </Card>
           </motion.div>
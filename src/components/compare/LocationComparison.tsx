@@ -0,0 +1,204 @@
+import { useMemo, useState } from 'react'
+import type { LucideIcon } from 'lucide-react'
+import { Loader2, SunMedium, ThermometerSun, TriangleAlert, UmbrellaOff } from 'lucide-react'
+import { COMPARISON_METRICS, buildComparison, convertTemperature } from '@optimistic-weather/core'
+import type { ComparisonCell, ComparisonMetric, ForecastPlace } from '@optimistic-weather/core'
+import { cn } from '@/lib/utils'
+import { usePlaceForecasts } from '@/lib/use-place-forecasts'
+
+type Units = 'metric' | 'imperial'
+
+// Past four columns the table stops fitting on a laptop screen.
+const MAX_COMPARED = 4
+
+interface ComparedPlace extends ForecastPlace {
+  label: string
+}
+
+const METRIC_BADGES: Record<ComparisonMetric, { label: string; Icon: LucideIcon }> = {
+  dryness: { label: 'Driest', Icon: UmbrellaOff },
+  sun: { label: 'Sunniest', Icon: SunMedium },
+  comfort: { label: 'Comfiest', Icon: ThermometerSun },
+}
+
+const formatTemperature = (celsius: number, units: Units) =>
+  `${Math.round(convertTemperature(celsius, units))}°`
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' })
+
+const describeHours = (cell: ComparisonCell, units: Units) => {
+  if (!cell.hours.length) {
+    return null
+  }
+  const temperatures = cell.hours.map((hour) => hour.temperature)
+  const low = formatTemperature(Math.min(...temperatures), units)
+  const high = formatTemperature(Math.max(...temperatures), units)
+  return `${cell.hours.length}h ahead: ${low === high ? low : `${low}–${high}`}`
+}
+
+interface ComparisonCellViewProps {
+  cell: ComparisonCell
+  wins: ComparisonMetric[]
+  units: Units
+}
+
+const ComparisonCellView = ({ cell, wins, units }: ComparisonCellViewProps) => {
+  const hours = describeHours(cell, units)
+  if (!cell.day && !hours) {
+    return <span className="text-xs text-slate-400">No data</span>
+  }
+
+  return (
+    <div className="space-y-1">
+      {cell.day ? (
+        <p className="text-sm font-semibold text-slate-900">
+          {formatTemperature(cell.day.high, units)}
+          <span className="font-normal text-slate-500"> / {formatTemperature(cell.day.low, units)}</span>
+        </p>
+      ) : null}
+      <p className="text-xs text-slate-500">
+        {cell.scores.dryness === null ? null : `${100 - cell.scores.dryness}% rain`}
+        {cell.scores.dryness !== null && cell.scores.sun !== null ? ' · ' : null}
+        {cell.scores.sun === null ? null : `${100 - cell.scores.sun}% cloud`}
+      </p>
+      {hours ? <p className="text-xs text-slate-500">{hours}</p> : null}
+      {wins.length ? (
+        <ul className="flex flex-wrap gap-1">
+          {wins.map((metric) => {
+            const { label, Icon } = METRIC_BADGES[metric]
+            return (
+              <li
+                key={metric}
+                className="inline-flex items-center gap-1 rounded-full bg-amber-100 px-2 py-0.5 text-[11px] font-semibold text-amber-800"
+              >
+                <Icon className="h-3 w-3" aria-hidden />
+                {label}
+              </li>
+            )
+          })}
+        </ul>
+      ) : null}
+    </div>
+  )
+}
+
+interface LocationComparisonProps {
+  // Places the user can pick from; the first two start out selected.
+  places: ComparedPlace[]
+  units: Units
+}
+
+/**
+ * Side-by-side daily outlooks for up to four places on a shared date axis. Each day marks the
+ * place that wins on dryness, sun and comfort; places still loading or failing sit out until
+ * their forecast arrives.
+ */
+const LocationComparison = ({ places, units }: LocationComparisonProps) => {
+  const [selectedIds, setSelectedIds] = useState(() => places.slice(0, 2).map((place) => place.id))
+  const selected = useMemo(
+    () => places.filter((place) => selectedIds.includes(place.id)),
+    [places, selectedIds],
+  )
+  const { entries, refresh } = usePlaceForecasts(selected)
+
+  const compared = selected.flatMap((place) => {
+    const forecast = entries[place.id]?.forecast
+    return forecast ? [{ place, forecast }] : []
+  })
+  const days = buildComparison(compared.map(({ forecast }) => forecast))
+
+  const togglePlace = (id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((selectedId) => selectedId !== id) : [...prev, id]))
+  }
+
+  return (
+    <section aria-label="Compare places" className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <p className="mr-1 text-xs font-semibold uppercase tracking-[0.35em] text-slate-500">Compare</p>
+        {places.map((place) => {
+          const isSelected = selectedIds.includes(place.id)
+          const entry = isSelected ? entries[place.id] : undefined
+          return (
+            <button
+              key={place.id}
+              type="button"
+              onClick={() => togglePlace(place.id)}
+              disabled={!isSelected && selectedIds.length >= MAX_COMPARED}
+              aria-pressed={isSelected}
+              className={cn(
+                'inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-sm font-semibold shadow-sm transition disabled:opacity-40',
+                isSelected
+                  ? 'border-slate-900 bg-slate-900 text-white'
+                  : 'border-slate-200 bg-white/85 text-slate-700 hover:border-slate-300 hover:bg-white',
+              )}
+            >
+              {entry?.loading ? <Loader2 className="h-3.5 w-3.5 animate-spin" aria-hidden /> : null}
+              {place.label}
+            </button>
+          )
+        })}
+      </div>
+
+      {selected.map((place) => {
+        const notice = entries[place.id]?.notice
+        return notice ? (
+          <p key={place.id} role="alert" className="flex items-center gap-2 text-sm text-rose-700">
+            <TriangleAlert className="h-4 w-4 shrink-0" aria-hidden />
+            {place.label}: {notice.message}
+            <button type="button" onClick={() => refresh([place])} className="font-semibold underline">
+              Retry
+            </button>
+          </p>
+        ) : null
+      })}
+
+      {compared.length < 2 ? (
+        <p className="rounded-3xl bg-white/70 px-6 py-8 text-center text-sm text-slate-600 shadow-sm">
+          {selected.length < 2
+            ? 'Pick at least two places to line up their outlooks.'
+            : selected.some((place) => entries[place.id]?.loading)
+              ? 'Lining up the bright sides…'
+              : 'Comparing needs forecasts for at least two places. Retry or pick another place.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-3xl bg-white/80 shadow-[0_18px_45px_-30px_rgba(15,23,42,0.55)] ring-1 ring-white/60">
+          <table className="w-full min-w-[32rem] border-collapse text-left">
+            <thead>
+              <tr className="border-b border-slate-200/70">
+                <th scope="col" className="px-4 py-3 text-xs font-semibold uppercase tracking-wide text-slate-500">Day</th>
+                {compared.map(({ place }) => (
+                  <th key={place.id} scope="col" className="px-4 py-3 text-sm font-semibold text-slate-900">
+                    {place.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {days.map((day) => (
+                <tr key={day.dateKey} className="border-b border-slate-100 last:border-0">
+                  <th scope="row" className="whitespace-nowrap px-4 py-3 align-top text-sm font-medium text-slate-700">
+                    {formatDay(day.date)}
+                  </th>
+                  {day.cells.map((cell, index) => {
+                    const wins = COMPARISON_METRICS.filter((metric) => day.winners[metric].includes(index))
+                    return (
+                      <td
+                        key={compared[index].place.id}
+                        className={cn('px-4 py-3 align-top', wins.length ? 'bg-amber-50/60' : undefined)}
+                      >
+                        <ComparisonCellView cell={cell} wins={wins} units={units} />
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  )
+}
+
+export default LocationComparison
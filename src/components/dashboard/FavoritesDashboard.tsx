@@ -0,0 +1,130 @@
+import { Loader2, RefreshCw, TriangleAlert } from 'lucide-react'
+import { findOutlookToday, presentForecast } from '@optimistic-weather/core'
+import type { FavoriteLocation, PlaceForecastEntry } from '@optimistic-weather/core'
+import { usePlaceForecasts } from '@/lib/use-place-forecasts'
+
+type Units = 'metric' | 'imperial'
+
+const formatTemperature = (value: number, units: Units) =>
+  `${Math.round(value)}${units === 'metric' ? '°C' : '°F'}`
+
+interface DashboardCardProps {
+  favorite: FavoriteLocation
+  entry?: PlaceForecastEntry
+  units: Units
+  onOpen: () => void
+  onRefresh: () => void
+}
+
+const DashboardCard = ({ favorite, entry, units, onOpen, onRefresh }: DashboardCardProps) => {
+  const presented = entry?.forecast ? presentForecast(entry.forecast, units) : undefined
+  const [topHighlight] = presented?.highlights ?? []
+  // Today's daily high and low; the rolling 24-hour range only stands in when there is no outlook.
+  const today = presented?.extendedOutlook
+    ? findOutlookToday(presented.extendedOutlook.days, presented.timezoneOffsetSeconds)
+    : undefined
+
+  return (
+    <article className="flex flex-col gap-3 rounded-3xl bg-white/80 p-5 shadow-[0_18px_45px_-30px_rgba(15,23,42,0.55)] ring-1 ring-white/60">
+      <div className="flex items-start justify-between gap-2">
+        <button type="button" onClick={onOpen} className="min-w-0 text-left">
+          <h3 className="truncate text-lg font-semibold text-slate-900">{favorite.nickname}</h3>
+          <p className="truncate text-xs text-slate-500">{presented?.locationLabel ?? favorite.location.name}</p>
+        </button>
+        <button
+          type="button"
+          onClick={onRefresh}
+          disabled={entry?.loading}
+          aria-label={`Refresh ${favorite.nickname}`}
+          className="inline-flex h-8 w-8 shrink-0 items-center justify-center rounded-full text-slate-500 transition hover:bg-slate-100 hover:text-slate-700 disabled:opacity-40"
+        >
+          {entry?.loading ? (
+            <Loader2 className="h-4 w-4 animate-spin" aria-hidden />
+          ) : (
+            <RefreshCw className="h-4 w-4" aria-hidden />
+          )}
+        </button>
+      </div>
+
+      {presented ? (
+        <button type="button" onClick={onOpen} className="space-y-2 text-left">
+          <div className="flex items-end justify-between gap-3">
+            <span className="text-4xl font-bold text-slate-900">
+              {formatTemperature(presented.temperature.current, units)}
+            </span>
+            <span className="text-sm font-medium text-slate-500">
+              H {formatTemperature(today?.high ?? presented.temperature.high, units)} · L {formatTemperature(today?.low ?? presented.temperature.low, units)}
+            </span>
+          </div>
+          <p className="text-sm text-slate-600">{presented.skySummary}</p>
+          {topHighlight ? (
+            <p className="rounded-xl bg-amber-50/80 px-3 py-2 text-xs font-semibold text-amber-800">{topHighlight.title}</p>
+          ) : null}
+        </button>
+      ) : entry?.notice ? (
+        <p role="alert" className="flex items-start gap-2 text-sm text-rose-700">
+          <TriangleAlert className="mt-0.5 h-4 w-4 shrink-0" aria-hidden />
+          {entry.notice.message}
+        </p>
+      ) : (
+        <p className="text-sm text-slate-500">Gathering the bright side…</p>
+      )}
+      {presented && entry?.notice ? (
+        <p className="text-xs text-rose-600">Could not refresh: {entry.notice.title}</p>
+      ) : null}
+    </article>
+  )
+}
+
+interface FavoritesDashboardProps {
+  favorites: FavoriteLocation[]
+  units: Units
+  // Opens the full forecast for a favorite.
+  onOpen: (favorite: FavoriteLocation) => void
+}
+
+/**
+ * Compact optimistic cards for every favorite, loaded a few at a time. Each card refreshes on its
+ * own and a failed place only affects its own card.
+ */
+const FavoritesDashboard = ({ favorites, units, onOpen }: FavoritesDashboardProps) => {
+  const { entries, refresh } = usePlaceForecasts(favorites)
+
+  if (!favorites.length) {
+    return (
+      <p className="rounded-3xl bg-white/70 px-6 py-8 text-center text-sm text-slate-600 shadow-sm">
+        Star a forecast to add it here. Every favorite gets a card you can check at a glance.
+      </p>
+    )
+  }
+
+  return (
+    <section aria-label="Favorites dashboard" className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs font-semibold uppercase tracking-[0.35em] text-slate-500">All your places</p>
+        <button
+          type="button"
+          onClick={() => refresh(favorites)}
+          className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-white/80 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-600 transition hover:bg-white"
+        >
+          <RefreshCw className="h-3 w-3" aria-hidden />
+          Refresh all
+        </button>
+      </div>
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        {favorites.map((favorite) => (
+          <DashboardCard
+            key={favorite.id}
+            favorite={favorite}
+            entry={entries[favorite.id]}
+            units={units}
+            onOpen={() => onOpen(favorite)}
+            onRefresh={() => refresh([favorite])}
+          />
+        ))}
+      </div>
+    </section>
+  )
+}
+
+export default FavoritesDashboard
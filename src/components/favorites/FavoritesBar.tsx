@@ -0,0 +1,123 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronUp, Star, X } from 'lucide-react'
+import { isSamePlace } from '@optimistic-weather/core'
+import type { FavoriteLocation, GeoLocation } from '@optimistic-weather/core'
+import { cn } from '@/lib/utils'
+
+interface FavoritesBarProps {
+  favorites: FavoriteLocation[]
+  // The place on screen, so its chip can show as current.
+  activeLocation?: GeoLocation
+  disabled?: boolean
+  onSelect: (favorite: FavoriteLocation) => void
+  onRename: (id: string, nickname: string) => void
+  onMove: (id: string, offset: number) => void
+  onRemove: (id: string) => void
+}
+
+const iconButtonClass = 'inline-flex h-7 w-7 items-center justify-center rounded-full text-slate-500 transition hover:bg-slate-100 hover:text-slate-700 disabled:opacity-30'
+
+/**
+ * Pinned places as one-tap chips under the header. "Edit" turns the chips into rows for renaming,
+ * reordering and removing; nicknames commit on blur or Enter.
+ */
+const FavoritesBar = ({
+  favorites,
+  activeLocation,
+  disabled = false,
+  onSelect,
+  onRename,
+  onMove,
+  onRemove,
+}: FavoritesBarProps) => {
+  const [editing, setEditing] = useState(false)
+
+  if (!favorites.length) {
+    return null
+  }
+
+  return (
+    <nav aria-label="Favorite places" className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 sm:justify-center">
+        {editing ? null : favorites.map((favorite) => {
+          const isActive = activeLocation ? isSamePlace(favorite.location, activeLocation) : false
+          return (
+            <button
+              key={favorite.id}
+              type="button"
+              onClick={() => onSelect(favorite)}
+              disabled={disabled}
+              aria-current={isActive ? 'location' : undefined}
+              className={cn(
+                'inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-sm font-semibold shadow-sm transition disabled:opacity-60',
+                isActive
+                  ? 'border-slate-900 bg-slate-900 text-white'
+                  : 'border-slate-200 bg-white/85 text-slate-700 hover:border-slate-300 hover:bg-white',
+              )}
+            >
+              <Star className="h-3.5 w-3.5 fill-current" aria-hidden />
+              {favorite.nickname}
+            </button>
+          )
+        })}
+        <button
+          type="button"
+          onClick={() => setEditing((open) => !open)}
+          className="rounded-full px-2 py-1 text-[10px] font-semibold uppercase tracking-[0.3em] text-slate-500 transition hover:text-slate-700"
+        >
+          {editing ? 'Done' : 'Edit'}
+        </button>
+      </div>
+      {editing ? (
+        <ul className="mx-auto max-w-md space-y-2">
+          {favorites.map((favorite, index) => (
+            <li
+              key={favorite.id}
+              className="flex items-center gap-2 rounded-xl border border-slate-200 bg-white/90 px-3 py-2 shadow-sm"
+            >
+              <input
+                defaultValue={favorite.nickname}
+                aria-label={`Nickname for ${favorite.location.name}`}
+                onBlur={(event) => onRename(favorite.id, event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') {
+                    event.currentTarget.blur()
+                  }
+                }}
+                className="min-w-0 flex-1 rounded-md bg-transparent px-1 text-sm font-semibold text-slate-900 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-400"
+              />
+              <button
+                type="button"
+                onClick={() => onMove(favorite.id, -1)}
+                disabled={index === 0}
+                aria-label={`Move ${favorite.nickname} up`}
+                className={iconButtonClass}
+              >
+                <ChevronUp className="h-4 w-4" aria-hidden />
+              </button>
+              <button
+                type="button"
+                onClick={() => onMove(favorite.id, 1)}
+                disabled={index === favorites.length - 1}
+                aria-label={`Move ${favorite.nickname} down`}
+                className={iconButtonClass}
+              >
+                <ChevronDown className="h-4 w-4" aria-hidden />
+              </button>
+              <button
+                type="button"
+                onClick={() => onRemove(favorite.id)}
+                aria-label={`Remove ${favorite.nickname} from favorites`}
+                className={cn(iconButtonClass, 'text-rose-600 hover:text-rose-700')}
+              >
+                <X className="h-4 w-4" aria-hidden />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </nav>
+  )
+}
+
+export default FavoritesBar
@@ -0,0 +1,76 @@
+import { MapPinned } from 'lucide-react'
+import { isSamePlace } from '@optimistic-weather/core'
+import type { GeoLocation } from '@optimistic-weather/core'
+import { cn } from '@/lib/utils'
+
+interface PlaceChooserProps {
+  query: string
+  // The place being shown.
+  current: GeoLocation
+  // Every place the query could mean, the current one included, in the order to offer them.
+  places: GeoLocation[]
+  formatLabel: (location: GeoLocation) => string
+  onChoose: (location: GeoLocation) => void
+}
+
+/**
+ * Shown above a forecast whose query was too close to call. One other candidate gets a "Did you
+ * mean" switch; more get a chooser. Both stay up after a pick so the user can switch back.
+ */
+const PlaceChooser = ({ query, current, places, formatLabel, onChoose }: PlaceChooserProps) => {
+  const others = places.filter((place) => !isSamePlace(place, current))
+  const [onlyOther] = others
+  if (!onlyOther) {
+    return null
+  }
+
+  return (
+    <div
+      role="status"
+      className="flex items-start gap-3 rounded-xl border border-sky-200 bg-sky-50/80 px-4 py-3 text-sm text-sky-800 shadow-sm"
+    >
+      <MapPinned className="mt-0.5 h-4 w-4 shrink-0" aria-hidden />
+      {others.length === 1 ? (
+        <p className="flex-1 font-medium">
+          Showing {formatLabel(current)}. Did you mean{' '}
+          <button
+            type="button"
+            onClick={() => onChoose(onlyOther)}
+            className="font-semibold underline decoration-sky-400 underline-offset-2 transition hover:text-sky-950"
+          >
+            {formatLabel(onlyOther)}
+          </button>
+          ?
+        </p>
+      ) : (
+        <div className="flex-1 space-y-2">
+          <p className="font-semibold">Which {query.trim()}?</p>
+          <div className="flex flex-wrap gap-2">
+            {places.map((place) => {
+              const isCurrent = isSamePlace(place, current)
+              return (
+                <button
+                  key={`${place.lat},${place.lon}`}
+                  type="button"
+                  aria-pressed={isCurrent}
+                  disabled={isCurrent}
+                  onClick={() => onChoose(place)}
+                  className={cn(
+                    'rounded-full border px-3 py-1 text-xs font-semibold transition',
+                    isCurrent
+                      ? 'border-sky-500 bg-sky-500 text-white'
+                      : 'border-sky-200 bg-white/80 hover:bg-white',
+                  )}
+                >
+                  {formatLabel(place)}
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PlaceChooser
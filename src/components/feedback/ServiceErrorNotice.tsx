@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState } from 'react'
+import type { ComponentType } from 'react'
+import { CloudOff, KeyRound, MapPinOff, RefreshCw, ServerCrash, Timer, TriangleAlert } from 'lucide-react'
+import type { WeatherErrorNotice } from '@optimistic-weather/core'
+import { cn } from '@/lib/utils'
+
+interface ServiceErrorNoticeProps {
+  notice: WeatherErrorNotice
+  onRetry?: () => void
+}
+
+const ICONS: Record<WeatherErrorNotice['kind'], ComponentType<{ className?: string }>> = {
+  auth: KeyRound,
+  'rate-limited': Timer,
+  'not-found': MapPinOff,
+  network: CloudOff,
+  'malformed-response': TriangleAlert,
+  server: ServerCrash,
+  unknown: TriangleAlert,
+}
+
+// Retrying the same query cannot fix these, so they get no retry button.
+const NOT_RETRYABLE = new Set<WeatherErrorNotice['kind']>(['auth', 'not-found'])
+
+// Timers and listeners read the latest callback so parent re-renders don't restart them.
+const useLatest = <T,>(value: T) => {
+  const ref = useRef(value)
+  useEffect(() => {
+    ref.current = value
+  })
+  return ref
+}
+
+const useRetryCountdown = (seconds: number | undefined, onRetry: (() => void) | undefined) => {
+  const [remaining, setRemaining] = useState(seconds)
+  const onRetryRef = useLatest(onRetry)
+
+  useEffect(() => {
+    if (remaining === undefined || !onRetryRef.current) {
+      return
+    }
+    const timeoutId = window.setTimeout(() => {
+      if (remaining > 1) {
+        setRemaining(remaining - 1)
+        return
+      }
+      setRemaining(undefined)
+      onRetryRef.current?.()
+    }, 1000)
+    return () => {
+      window.clearTimeout(timeoutId)
+    }
+  }, [remaining, onRetryRef])
+
+  return remaining
+}
+
+const useRetryWhenOnline = (enabled: boolean, onRetry: (() => void) | undefined) => {
+  const onRetryRef = useLatest(onRetry)
+
+  useEffect(() => {
+    if (!enabled) {
+      return
+    }
+    const handleOnline = () => onRetryRef.current?.()
+    window.addEventListener('online', handleOnline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+    }
+  }, [enabled, onRetryRef])
+}
+
+/**
+ * Recovery UI for a failed forecast or location lookup. Rate limits count down to an automatic
+ * retry, network failures retry once the browser reports it is back online, and key problems
+ * point at the setting to fix. Remount it (via `key`) for each new failure.
+ */
+const ServiceErrorNotice = ({ notice, onRetry }: ServiceErrorNoticeProps) => {
+  const remaining = useRetryCountdown(notice.retryInSeconds, onRetry)
+  const isOffline = notice.kind === 'network'
+  useRetryWhenOnline(isOffline, onRetry)
+  const Icon = ICONS[notice.kind]
+  const canRetry = Boolean(onRetry) && !NOT_RETRYABLE.has(notice.kind)
+
+  return (
+    <div
+      role="alert"
+      className={cn(
+        'flex items-start gap-3 rounded-xl border px-4 py-3 text-sm shadow-sm',
+        isOffline
+          ? 'border-amber-200 bg-amber-50/80 text-amber-800'
+          : 'border-rose-200 bg-rose-50/80 text-rose-700',
+      )}
+    >
+      <Icon className="mt-0.5 h-4 w-4 shrink-0" aria-hidden />
+      <div className="flex-1 space-y-1">
+        <p className="font-semibold">{notice.title}</p>
+        <p className="font-medium opacity-90">{notice.message}</p>
+        {remaining !== undefined && remaining > 0 && onRetry ? (
+          <p className="text-xs font-semibold uppercase tracking-wide opacity-80" aria-live="polite">
+            Retrying in {remaining}s
+          </p>
+        ) : null}
+        {isOffline && onRetry ? (
+          <p className="text-xs font-semibold uppercase tracking-wide opacity-80">
+            We’ll retry as soon as you’re back online
+          </p>
+        ) : null}
+      </div>
+      {canRetry ? (
+        <button
+          type="button"
+          onClick={onRetry}
+          className="inline-flex shrink-0 items-center gap-1 rounded-full border border-current/30 bg-white/80 px-3 py-1 text-xs font-semibold uppercase tracking-wide transition hover:bg-white"
+        >
+          <RefreshCw className="h-3 w-3" aria-hidden />
+          Try again
+        </button>
+      ) : null}
+    </div>
+  )
+}
+
+export default ServiceErrorNotice
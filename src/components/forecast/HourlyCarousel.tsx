@@ -1,6 +1,6 @@
 import { memo } from 'react'
 import { motion } from 'framer-motion'
-import type { OptimisticHourlyOutlook } from '@/types/weather'
+import type { OptimisticHourlyOutlook } from '@optimistic-weather/core'
 
 interface HourlyCarouselProps {
   hours: OptimisticHourlyOutlook[]
@@ -1,4 +1,4 @@
-import type { OptimisticDailyOutlook } from '@/types/weather'
+import type { OptimisticDailyOutlook } from '@optimistic-weather/core'
 import { buildOptimisticDailyStory } from './optimisticCopy'
 
 interface OptimisticDailyHeadlineProps {
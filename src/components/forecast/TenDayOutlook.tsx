@@ -1,4 +1,4 @@
-import type { OptimisticDailyOutlook } from '@/types/weather'
+import type { OptimisticDailyOutlook } from '@optimistic-weather/core'
 import { cn } from '@/lib/utils'
 import OptimisticDailyHeadline from './OptimisticDailyHeadline'
 
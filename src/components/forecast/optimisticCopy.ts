@@ -1,4 +1,4 @@
-import type { OptimisticDailyOutlook } from '@/types/weather'
+import type { OptimisticDailyOutlook } from '@optimistic-weather/core'
 
 const formatTemperature = (value: number, units: 'metric' | 'imperial') => {
   const suffix = units === 'metric' ? '°C' : '°F'
@@ -1,5 +1,5 @@
 import { useMemo, useState } from 'react'
-import type { Coordinates } from '@/types/weather'
+import type { Coordinates } from '@optimistic-weather/core'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { buildRainViewerUrl } from './rainViewer'
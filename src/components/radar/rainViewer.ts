@@ -1,4 +1,4 @@
-import type { Coordinates } from '@/types/weather'
+import type { Coordinates } from '@optimistic-weather/core'
 
 export const buildRainViewerUrl = ({ lat, lon }: Coordinates, refreshKey: number) => {
   const zoom = 8
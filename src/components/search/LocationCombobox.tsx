@@ -0,0 +1,217 @@
+import { useEffect, useRef, useState } from 'react'
+import type { KeyboardEvent, Ref } from 'react'
+import { Loader2, X } from 'lucide-react'
+import { formatDistance } from '@optimistic-weather/core'
+import type { GeoLocation, LocationSuggestion } from '@optimistic-weather/core'
+import { Input } from '@/components/ui/input'
+import { cn } from '@/lib/utils'
+import { describeSuggestionStatus, matchHighlights, moveActiveIndex } from './combobox'
+
+interface LocationComboboxProps {
+  id: string
+  value: string
+  onValueChange: (value: string) => void
+  onSelect: (suggestion: LocationSuggestion) => void
+  onClear: () => void
+  suggestions: LocationSuggestion[]
+  loading: boolean
+  error: string | null
+  // False while the query is too short to suggest for; the list stays closed.
+  enabled: boolean
+  formatLabel: (location: GeoLocation) => string
+  // For the distance shown beside suggestions that carry one.
+  units: 'metric' | 'imperial'
+  placeholder?: string
+  inputRef?: Ref<HTMLInputElement>
+}
+
+const HighlightedLabel = ({ label, query }: { label: string; query: string }) => (
+  <>
+    {matchHighlights(label, query).map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="bg-transparent font-semibold text-sky-700">
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      ),
+    )}
+  </>
+)
+
+/**
+ * Location search input following the ARIA combobox pattern. Arrow keys move through the
+ * suggestions (wrapping), Enter picks the active one or submits the form when none is active,
+ * and Escape closes the list, then clears the text. Loading, errors and result counts are read
+ * out through a polite live region.
+ */
+const LocationCombobox = ({
+  id,
+  value,
+  onValueChange,
+  onSelect,
+  onClear,
+  suggestions,
+  loading,
+  error,
+  enabled,
+  formatLabel,
+  units,
+  placeholder,
+  inputRef,
+}: LocationComboboxProps) => {
+  const listboxId = `${id}-listbox`
+  const listRef = useRef<HTMLUListElement>(null)
+  // Tied to the list it was chosen in, so a fresh set of suggestions starts with none active.
+  const [active, setActive] = useState({ list: suggestions, index: -1 })
+  const [dismissed, setDismissed] = useState(false)
+
+  const activeIndex = active.list === suggestions ? active.index : -1
+  const open = enabled && !dismissed && (loading || suggestions.length > 0 || Boolean(error))
+  const hasOptions = open && !loading && suggestions.length > 0
+  const optionId = (index: number) => `${id}-option-${index}`
+
+  useEffect(() => {
+    if (activeIndex >= 0) {
+      listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' })
+    }
+  }, [activeIndex])
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        if (!enabled || !suggestions.length) {
+          return
+        }
+        event.preventDefault()
+        setDismissed(false)
+        // The first press on a closed list only opens it.
+        const index = dismissed
+          ? activeIndex
+          : moveActiveIndex(activeIndex, suggestions.length, event.key === 'ArrowDown' ? 1 : -1)
+        setActive({ list: suggestions, index })
+        return
+      }
+      case 'Enter': {
+        const suggestion = hasOptions && activeIndex >= 0 ? suggestions[activeIndex] : undefined
+        if (suggestion) {
+          event.preventDefault()
+          onSelect(suggestion)
+        }
+        return
+      }
+      case 'Escape':
+        if (open) {
+          event.preventDefault()
+          setDismissed(true)
+        } else if (value) {
+          event.preventDefault()
+          onClear()
+        }
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Input
+          id={id}
+          type="text"
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={hasOptions}
+          aria-controls={hasOptions ? listboxId : undefined}
+          aria-activedescendant={hasOptions && activeIndex >= 0 ? optionId(activeIndex) : undefined}
+          placeholder={placeholder}
+          value={value}
+          onChange={(event) => {
+            setDismissed(false)
+            onValueChange(event.target.value)
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setDismissed(false)}
+          onBlur={() => setDismissed(true)}
+          autoComplete="off"
+          ref={inputRef}
+          className="pr-10"
+        />
+        {value && (
+          <button
+            type="button"
+            onClick={onClear}
+            className="absolute inset-y-0 right-2 flex items-center text-slate-400 transition hover:text-slate-600 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-400 focus-visible:ring-offset-2"
+            aria-label="Clear search"
+          >
+            <X className="h-4 w-4" aria-hidden />
+          </button>
+        )}
+      </div>
+      {open && (
+        <div className="rounded-2xl border border-slate-200/80 bg-white/95 shadow-md">
+          {loading ? (
+            <div className="flex items-center gap-2 px-4 py-3 text-sm text-slate-600">
+              <Loader2 className="h-4 w-4 animate-spin" aria-hidden />
+              Looking for matching places…
+            </div>
+          ) : suggestions.length > 0 ? (
+            <ul
+              id={listboxId}
+              ref={listRef}
+              role="listbox"
+              aria-label="Suggested places"
+              className="max-h-80 divide-y divide-slate-100 overflow-y-auto"
+            >
+              {suggestions.map((suggestion, index) => {
+                const { location, searchValue, distanceKm } = suggestion
+                const label = formatLabel(location)
+                const helperText = searchValue.toLowerCase() === label.toLowerCase()
+                  ? 'Tap to search this spot'
+                  : `Search using "${searchValue}"`
+                const isActive = index === activeIndex
+
+                return (
+                  <li
+                    key={`${searchValue}:${location.lat}:${location.lon}`}
+                    id={optionId(index)}
+                    role="option"
+                    aria-selected={isActive}
+                    // Keeps focus in the input so typing and arrow keys carry on after a click.
+                    onMouseDown={(event) => event.preventDefault()}
+                    onMouseMove={() => {
+                      if (!isActive) {
+                        setActive({ list: suggestions, index })
+                      }
+                    }}
+                    onClick={() => onSelect(suggestion)}
+                    className={cn(
+                      'flex cursor-pointer flex-col items-start gap-1 px-4 py-3 text-left transition',
+                      isActive ? 'bg-slate-100' : 'hover:bg-slate-50',
+                    )}
+                  >
+                    <span className="flex w-full items-baseline justify-between gap-3">
+                      <span className="text-sm font-medium text-slate-900">
+                        <HighlightedLabel label={label} query={value} />
+                      </span>
+                      {distanceKm === undefined ? null : (
+                        <span className="shrink-0 text-xs text-slate-500">{formatDistance(distanceKm, units)}</span>
+                      )}
+                    </span>
+                    <span className="text-xs text-slate-500">{helperText}</span>
+                  </li>
+                )
+              })}
+            </ul>
+          ) : error ? (
+            <div className="px-4 py-3 text-sm text-slate-500">{error}</div>
+          ) : null}
+        </div>
+      )}
+      <p role="status" aria-live="polite" className="sr-only">
+        {open ? describeSuggestionStatus({ loading, count: suggestions.length, error }) : ''}
+      </p>
+    </div>
+  )
+}
+
+export default LocationCombobox
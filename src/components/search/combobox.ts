@@ -0,0 +1,78 @@
+import { foldPlaceName } from '@optimistic-weather/core'
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+/**
+ * Splits `label` into runs, flagging the start of each word that a typed word is a prefix of.
+ * Comparison ignores case and accents, so "sao p" highlights "São P" in "São Paulo".
+ */
+export const matchHighlights = (label: string, query: string): HighlightSegment[] => {
+  const typed = foldPlaceName(query).split(' ').filter(Boolean)
+  const matched = new Array<boolean>(label.length).fill(false)
+
+  for (const word of label.matchAll(/[\p{L}\p{N}]+/gu)) {
+    // Folding can drop or expand characters, so track where each original one ends in the folded text.
+    let folded = ''
+    const foldedEnds: number[] = []
+    for (const char of word[0]) {
+      folded += foldPlaceName(char)
+      foldedEnds.push(folded.length)
+    }
+    const longest = Math.max(0, ...typed.filter((token) => folded.startsWith(token)).map((token) => token.length))
+    if (!longest) {
+      continue
+    }
+    // Code units, not characters, index `label`; both agree for everything folding keeps.
+    let offset = word.index
+    for (const [position, char] of Array.from(word[0]).entries()) {
+      if (foldedEnds[position - 1] >= longest) {
+        break
+      }
+      matched.fill(true, offset, offset + char.length)
+      offset += char.length
+    }
+  }
+
+  const segments: HighlightSegment[] = []
+  matched.forEach((match, index) => {
+    const last = segments.at(-1)
+    if (last?.match === match) {
+      last.text += label[index]
+    } else {
+      segments.push({ text: label[index], match })
+    }
+  })
+  return segments
+}
+
+/** The option an arrow key lands on, wrapping at either end; -1 means none is active. */
+export const moveActiveIndex = (index: number, count: number, step: 1 | -1) => {
+  if (!count) {
+    return -1
+  }
+  if (index < 0) {
+    return step > 0 ? 0 : count - 1
+  }
+  return (index + step + count) % count
+}
+
+interface SuggestionStatus {
+  loading: boolean
+  count: number
+  error: string | null
+}
+
+/** What the polite live region reads out as suggestions change. */
+export const describeSuggestionStatus = ({ loading, count, error }: SuggestionStatus) => {
+  if (loading) {
+    return 'Looking for matching places…'
+  }
+  if (count) {
+    const places = count === 1 ? '1 place' : `${count} places`
+    return `${places} found. Use the up and down arrow keys to choose, then press Enter.`
+  }
+  return error ?? ''
+}
@@ -0,0 +1,43 @@
+import { parseFavorites } from '@optimistic-weather/core'
+import type { FavoriteLocation } from '@optimistic-weather/core'
+
+export const FAVORITES_STORAGE_KEY = 'optimistic-weather-favorites-v1'
+
+type StorageLike = Pick<Storage, 'getItem' | 'setItem'>
+
+const getDefaultStorage = (): StorageLike | undefined => {
+  if (typeof window === 'undefined') {
+    return undefined
+  }
+  return window.localStorage
+}
+
+export const loadFavorites = (
+  storage: StorageLike | undefined = getDefaultStorage(),
+): FavoriteLocation[] => {
+  if (!storage) {
+    return []
+  }
+
+  try {
+    return parseFavorites(storage.getItem(FAVORITES_STORAGE_KEY))
+  } catch (error) {
+    console.warn('Unable to parse stored favorites.', error)
+    return []
+  }
+}
+
+export const persistFavorites = (
+  favorites: FavoriteLocation[],
+  storage: StorageLike | undefined = getDefaultStorage(),
+) => {
+  if (!storage) {
+    return
+  }
+
+  try {
+    storage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(favorites))
+  } catch (error) {
+    console.warn('Unable to persist favorites.', error)
+  }
+}
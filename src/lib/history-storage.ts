@@ -1,4 +1,4 @@
-import type { SearchHistoryEntry } from '@/types/weather'
+import type { SearchHistoryEntry } from '@optimistic-weather/core'
 
 export const HISTORY_STORAGE_KEY = 'optimistic-weather-history-v1'
 
@@ -0,0 +1,74 @@
+import type { Coordinates } from '@optimistic-weather/core'
+
+// Shared links carry four decimals (about 11 m), plenty for a forecast.
+const COORDINATE_DECIMALS = 4
+
+// What a link asks to forecast: a search query or an exact point.
+export type UrlTarget = { query: string } | { coords: Coordinates }
+
+/**
+ * The shareable part of the app state, as read from or written to the query string
+ * (`?q=Austin%2C+TX&units=metric&panel=radar` or `?lat=30.2672&lon=-97.7431`).
+ */
+export interface UrlState {
+  target?: UrlTarget
+  units?: 'metric' | 'imperial'
+  panel?: 'outlook' | 'radar'
+}
+
+const readCoordinate = (value: string | null, limit: number) => {
+  if (!value?.trim()) {
+    return undefined
+  }
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && Math.abs(parsed) <= limit ? parsed : undefined
+}
+
+const roundCoordinate = (value: number) => Number(value.toFixed(COORDINATE_DECIMALS))
+
+// Coordinates win over a query when a link has both; malformed values are ignored.
+export const parseUrlState = (search: string): UrlState => {
+  const params = new URLSearchParams(search)
+  const state: UrlState = {}
+
+  const lat = readCoordinate(params.get('lat'), 90)
+  const lon = readCoordinate(params.get('lon'), 180)
+  const query = params.get('q')?.trim()
+  if (lat !== undefined && lon !== undefined) {
+    state.target = { coords: { lat, lon } }
+  } else if (query) {
+    state.target = { query }
+  }
+
+  const units = params.get('units')
+  if (units === 'metric' || units === 'imperial') {
+    state.units = units
+  }
+  const panel = params.get('panel')
+  if (panel === 'outlook' || panel === 'radar') {
+    state.panel = panel
+  }
+  return state
+}
+
+// Returns `?…`, or an empty string when there is nothing to share.
+export const buildUrlSearch = ({ target, units, panel }: UrlState): string => {
+  const params = new URLSearchParams()
+  if (target && 'coords' in target) {
+    params.set('lat', String(roundCoordinate(target.coords.lat)))
+    params.set('lon', String(roundCoordinate(target.coords.lon)))
+  } else if (target) {
+    params.set('q', target.query)
+  }
+  if (units) {
+    params.set('units', units)
+  }
+  if (panel) {
+    params.set('panel', panel)
+  }
+  const search = params.toString()
+  return search ? `?${search}` : ''
+}
+
+export const isSameUrlTarget = (a: UrlTarget | undefined, b: UrlTarget | undefined) =>
+  buildUrlSearch({ target: a }) === buildUrlSearch({ target: b })
@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react'
+import { createPlaceForecasts } from '@optimistic-weather/core'
+import type { ForecastPlace, PlaceForecastEntries } from '@optimistic-weather/core'
+import { OPENWEATHER_KEY_LOCATION, fetchOptimisticForecastFor } from '@/services/openWeather'
+
+/**
+ * React binding for `createPlaceForecasts`: places load once when they appear, `refresh` reloads
+ * any of them, and unmounting cancels whatever is still in flight.
+ */
+export const usePlaceForecasts = (places: ForecastPlace[]) => {
+  const [entries, setEntries] = useState<PlaceForecastEntries>({})
+  const [placeForecasts] = useState(() => createPlaceForecasts({
+    fetchForecast: fetchOptimisticForecastFor,
+    keyLocation: OPENWEATHER_KEY_LOCATION,
+    onChange: setEntries,
+  }))
+
+  useEffect(() => {
+    placeForecasts.load(places)
+  }, [places, placeForecasts])
+
+  useEffect(() => () => placeForecasts.dispose(), [placeForecasts])
+
+  return { entries, refresh: placeForecasts.refresh }
+}
@@ -0,0 +1,83 @@
+import { buildRequestKey } from '@optimistic-weather/core'
+import type { FetchJsonOptions, JsonFetcher } from '@optimistic-weather/core'
+
+export type FixtureMode = 'off' | 'record' | 'replay'
+
+// Served by the dev server plugin in `vite/fixtureStorePlugin.ts`.
+export const FIXTURE_ENDPOINT = '/__fixtures'
+
+export interface FixtureStore {
+  load: (key: string) => Promise<unknown>
+  save: (key: string, body: unknown) => Promise<void>
+}
+
+export const readFixtureMode = (): FixtureMode => {
+  const mode = (import.meta.env.VITE_FIXTURE_MODE as string | undefined)?.trim().toLowerCase()
+  return mode === 'record' || mode === 'replay' ? mode : 'off'
+}
+
+// Recordings keep four coordinate decimals (about 11 m) so nearby lookups stay distinct.
+export const buildFixtureKey = (url: string) => buildRequestKey(url, { coordinateDigits: 4 })
+
+export const createDevServerFixtureStore = (endpoint = FIXTURE_ENDPOINT): FixtureStore => {
+  const urlFor = (key: string) => `${endpoint}?key=${encodeURIComponent(key)}`
+
+  return {
+    load: async (key) => {
+      const response = await fetch(urlFor(key))
+      if (response.status === 404) {
+        return undefined
+      }
+      if (!response.ok) {
+        throw new Error(`Fixture store error (${response.status}): ${await response.text()}`)
+      }
+      return response.json() as Promise<unknown>
+    },
+    save: async (key, body) => {
+      const response = await fetch(urlFor(key), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      if (!response.ok) {
+        throw new Error(`Fixture store error (${response.status}): ${await response.text()}`)
+      }
+    },
+  }
+}
+
+export const createRecordingFetcher = (fetchJson: JsonFetcher, store: FixtureStore): JsonFetcher =>
+  async <T>(url: string, options?: FetchJsonOptions) => {
+    const body = await fetchJson<T>(url, options)
+    store.save(buildFixtureKey(url), body).catch((error: unknown) => {
+      if (import.meta.env.DEV) {
+        console.warn('Unable to record fixture:', error)
+      }
+    })
+    return body
+  }
+
+export const createReplayFetcher = (store: FixtureStore): JsonFetcher =>
+  async <T>(url: string, options?: FetchJsonOptions) => {
+    const key = buildFixtureKey(url)
+    const body = await store.load(key)
+    if (body === undefined) {
+      const source = options?.source ?? 'Weather service'
+      throw new Error(`${source} fixture missing for ${key}. Record it with VITE_FIXTURE_MODE=record.`)
+    }
+    return body as T
+  }
+
+export const withFixtureMode = (
+  fetchJson: JsonFetcher,
+  mode: FixtureMode = readFixtureMode(),
+  store: FixtureStore = createDevServerFixtureStore(),
+): JsonFetcher => {
+  if (mode === 'record') {
+    return createRecordingFetcher(fetchJson, store)
+  }
+  if (mode === 'replay') {
+    return createReplayFetcher(store)
+  }
+  return fetchJson
+}
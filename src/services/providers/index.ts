@@ -0,0 +1,122 @@
+import {
+  PROXY_KEY_LOCATION,
+  createCachedFetcher,
+  createNwsProvider,
+  createOpenMeteoProvider,
+  createOpenWeatherProvider,
+  createWeatherError,
+  fetchJson,
+} from '@optimistic-weather/core'
+import type { WeatherProvider } from '@optimistic-weather/core'
+import { readFixtureMode, withFixtureMode } from '@/services/fixtures'
+import type { FixtureMode } from '@/services/fixtures'
+
+export {
+  DAILY_FORECAST_TARGET_DAYS,
+  createNwsProvider,
+  createOpenMeteoProvider,
+  createOpenWeatherProvider,
+} from '@optimistic-weather/core'
+export type { ForecastSeries, Units, WeatherProvider } from '@optimistic-weather/core'
+
+const fixtureMode = readFixtureMode()
+
+const readProxyUrl = () => {
+  const url = (import.meta.env.VITE_OPENWEATHER_PROXY_URL as string | undefined)?.trim()
+  return url === '' ? undefined : url
+}
+
+const openWeatherProxyUrl = readProxyUrl()
+
+// Where a rejected key has to be fixed: on the proxy when one is configured, otherwise in the build env.
+export const OPENWEATHER_KEY_LOCATION = openWeatherProxyUrl
+  ? PROXY_KEY_LOCATION
+  : 'VITE_OPENWEATHER_API_KEY in .env.local'
+
+const assertApiKey = () => {
+  const key = import.meta.env.VITE_OPENWEATHER_API_KEY as string | undefined
+  if (!key) {
+    throw createWeatherError(
+      'auth',
+      'Missing OpenWeather API key. Add VITE_OPENWEATHER_API_KEY to your environment or set VITE_OPENWEATHER_PROXY_URL.',
+      { source: 'OpenWeather' },
+    )
+  }
+  return key
+}
+
+// Replayed responses are keyed without `appid`, so demos run without a configured key.
+const resolveApiKey = () => (fixtureMode === 'replay' ? 'replay' : assertApiKey())
+
+export const warnInDevelopment = (message: string, error: unknown) => {
+  if (import.meta.env.DEV) {
+    console.warn(message, error)
+  }
+}
+
+// Recording and replaying need every request to reach the fixture layer, so caching sits out.
+const sharedFetchJson = fixtureMode === 'off'
+  ? createCachedFetcher({
+      fetchJson,
+      storage: typeof window === 'undefined' ? undefined : window.localStorage,
+      onWarning: warnInDevelopment,
+    })
+  : withFixtureMode(fetchJson, fixtureMode)
+
+// Behind the proxy the key stays server-side, so requests go out without one.
+export const openWeatherProvider = createOpenWeatherProvider({
+  fetchJson: sharedFetchJson,
+  baseUrl: openWeatherProxyUrl,
+  getApiKey: openWeatherProxyUrl ? undefined : resolveApiKey,
+  onWarning: warnInDevelopment,
+})
+
+export const openMeteoProvider = createOpenMeteoProvider({ fetchJson: sharedFetchJson })
+
+interface ProviderEnvironment {
+  requestedProvider?: string
+  openWeatherApiKey?: string
+  openWeatherProxyUrl?: string
+  fixtureMode?: FixtureMode
+}
+
+const readProviderEnvironment = (): ProviderEnvironment => ({
+  requestedProvider: import.meta.env.VITE_WEATHER_PROVIDER as string | undefined,
+  openWeatherApiKey: import.meta.env.VITE_OPENWEATHER_API_KEY as string | undefined,
+  openWeatherProxyUrl,
+  fixtureMode: readFixtureMode(),
+})
+
+const canReachOpenWeather = ({ openWeatherApiKey, openWeatherProxyUrl, fixtureMode }: ProviderEnvironment) =>
+  Boolean(openWeatherApiKey?.trim()) || Boolean(openWeatherProxyUrl) || fixtureMode === 'replay'
+
+// NWS has no place search of its own. It borrows OpenWeather's only when a key or proxy is set up,
+// and keyless Open-Meteo otherwise, so NWS mode never needs an OpenWeather account.
+export const resolveNwsGeocoder = (environment: ProviderEnvironment): WeatherProvider =>
+  canReachOpenWeather(environment) ? openWeatherProvider : openMeteoProvider
+
+export const nwsProvider = createNwsProvider({
+  fetchJson: sharedFetchJson,
+  geocoder: resolveNwsGeocoder(readProviderEnvironment()),
+  onWarning: warnInDevelopment,
+})
+
+const providersById: Partial<Record<string, WeatherProvider>> = {
+  [openWeatherProvider.id]: openWeatherProvider,
+  [nwsProvider.id]: nwsProvider,
+  [openMeteoProvider.id]: openMeteoProvider,
+}
+
+// An explicit VITE_WEATHER_PROVIDER wins; otherwise builds without an OpenWeather key or proxy use
+// keyless Open-Meteo, unless recorded OpenWeather responses are being replayed.
+export const resolveWeatherProvider = (environment: ProviderEnvironment): WeatherProvider => {
+  const requested = environment.requestedProvider?.trim().toLowerCase()
+  const explicit = requested ? providersById[requested] : undefined
+  if (explicit) {
+    return explicit
+  }
+  return canReachOpenWeather(environment) ? openWeatherProvider : openMeteoProvider
+}
+
+export const getDefaultWeatherProvider = (): WeatherProvider =>
+  resolveWeatherProvider(readProviderEnvironment())
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { mapWithConcurrency } from '@optimistic-weather/core'
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('mapWithConcurrency', () => {
+  it('never runs more than the limit at once and keeps results in order', async () => {
+    let running = 0
+    let peak = 0
+
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (value) => {
+      running += 1
+      peak = Math.max(peak, running)
+      await tick()
+      running -= 1
+      return value * 10
+    })
+
+    expect(peak).toBe(2)
+    expect(results).toEqual([10, 20, 30, 40, 50].map((value) => ({ status: 'fulfilled', value })))
+  })
+
+  it('settles each failure on its own', async () => {
+    const boom = new Error('boom')
+
+    const results = await mapWithConcurrency(['a', 'b', 'c'], 3, (value) =>
+      value === 'b' ? Promise.reject(boom) : Promise.resolve(value),
+    )
+
+    expect(results).toEqual([
+      { status: 'fulfilled', value: 'a' },
+      { status: 'rejected', reason: boom },
+      { status: 'fulfilled', value: 'c' },
+    ])
+  })
+
+  it('starts nothing new once aborted and rejects', async () => {
+    const controller = new AbortController()
+    const started: number[] = []
+
+    const pending = mapWithConcurrency([1, 2, 3], 1, async (value) => {
+      started.push(value)
+      controller.abort()
+      await tick()
+      return value
+    }, controller.signal)
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' })
+    expect(started).toEqual([1])
+  })
+})
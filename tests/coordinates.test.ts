@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  createWeatherService,
+  formatCoordinates,
+  parseCoordinateQuery,
+  recoverPlusCode,
+} from '@optimistic-weather/core'
+import type { Coordinates, GeoLocation, WeatherProvider } from '@optimistic-weather/core'
+import { createStubProvider } from './stub-provider'
+
+const coordsOf = (query: string) => {
+  const parsed = parseCoordinateQuery(query)
+  return parsed?.kind === 'coordinates' ? parsed.coords : null
+}
+
+const expectNear = (actual: Coordinates | null, lat: number, lon: number) => {
+  expect(actual?.lat).toBeCloseTo(lat, 4)
+  expect(actual?.lon).toBeCloseTo(lon, 4)
+}
+
+const sanFrancisco: GeoLocation = { name: 'San Francisco', lat: 37.7793, lon: -122.4193, state: 'California', country: 'US' }
+
+const createProvider = (overrides: Partial<WeatherProvider> = {}) => createStubProvider({
+  geocode: vi.fn(() => Promise.resolve([sanFrancisco])),
+  reverseGeocode: vi.fn(() => Promise.resolve([sanFrancisco])),
+  ...overrides,
+})
+
+describe('parseCoordinateQuery', () => {
+  it('reads decimal degrees with a comma or space between them', () => {
+    expectNear(coordsOf('37.77,-122.42'), 37.77, -122.42)
+    expectNear(coordsOf(' 37.77  -122.42 '), 37.77, -122.42)
+  })
+
+  it('reads degrees, minutes and seconds with hemispheres in either position', () => {
+    expectNear(coordsOf('37°46\'30"N 122°25\'10"W'), 37.775, -122.419444)
+    expectNear(coordsOf('N 37° 46.5\' W 122° 25.2\''), 37.775, -122.42)
+    expectNear(coordsOf('33.87° S, 151.21° E'), -33.87, 151.21)
+  })
+
+  it('accepts axes given longitude first when the hemispheres say so', () => {
+    expectNear(coordsOf('122.42°W, 37.77°N'), 37.77, -122.42)
+  })
+
+  it('reads geo: URIs, ignoring altitude and parameters', () => {
+    expectNear(coordsOf('geo:37.786971,-122.399677;u=35'), 37.786971, -122.399677)
+    expectNear(coordsOf('GEO:48,2,35?z=12'), 48, 2)
+  })
+
+  it('decodes full plus codes, including padded ones', () => {
+    expectNear(coordsOf('849VCWC8+R9'), 37.4220625, -122.0840625)
+    expectNear(coordsOf('849V0000+'), 37.5, -122.5)
+  })
+
+  it('keeps the locality of short plus codes for later recovery', () => {
+    expect(parseCoordinateQuery('CWC8+R9, Mountain View')).toEqual({
+      kind: 'short-plus-code',
+      code: 'CWC8+R9',
+      locality: 'Mountain View',
+    })
+  })
+
+  it('leaves postal codes, place names and impossible values alone', () => {
+    expect(parseCoordinateQuery('94103')).toBeNull()
+    expect(parseCoordinateQuery('114 55')).toBeNull()
+    expect(parseCoordinateQuery('75008 Paris')).toBeNull()
+    expect(parseCoordinateQuery('Seattle, WA')).toBeNull()
+    expect(parseCoordinateQuery('91.5, 10.5')).toBeNull()
+    expect(parseCoordinateQuery('37°75\'N 122°W')).toBeNull()
+  })
+})
+
+describe('recoverPlusCode', () => {
+  it('completes a short code from a nearby reference point', () => {
+    expectNear(recoverPlusCode('CWC8+R9', { lat: 37.3861, lon: -122.0839 }), 37.4220625, -122.0840625)
+  })
+
+  it('picks the neighbouring cell when the reference sits across an edge', () => {
+    // The reference sits just inside the cell south-west of the one the code names.
+    const recovered = recoverPlusCode('2222+22', { lat: 37.999, lon: -122.001 })
+
+    expectNear(recovered, 38.0000625, -121.9999375)
+  })
+})
+
+describe('coordinate searches', () => {
+  it('forecasts at the exact coordinates while labelling with the nearest place', async () => {
+    const provider = createProvider()
+    const { geocodeLocation } = createWeatherService(() => provider)
+
+    const location = await geocodeLocation('37.77,-122.42')
+
+    expect(location).toMatchObject({ name: 'San Francisco', state: 'California', lat: 37.77, lon: -122.42 })
+    expect(provider.geocode).not.toHaveBeenCalled()
+  })
+
+  it('falls back to the coordinates as a label where nothing is nearby', async () => {
+    const provider = createProvider({ reverseGeocode: vi.fn(() => Promise.resolve([])) })
+    const { geocodeLocation } = createWeatherService(() => provider)
+
+    const location = await geocodeLocation('geo:0,-140')
+
+    expect(location).toEqual({ name: '0.0, -140.0', lat: 0, lon: -140, country: '' })
+  })
+
+  it('suggests a single place whose search value repeats the coordinates', async () => {
+    const { searchLocationSuggestions } = createWeatherService(() => createProvider())
+
+    const suggestions = await searchLocationSuggestions('CWC8+R9 Mountain View')
+
+    expect(suggestions).toHaveLength(1)
+    expect(suggestions[0]?.searchValue).toBe(formatCoordinates({ lat: 37.4220625, lon: -122.0840625 }))
+    expect(coordsOf(suggestions[0]?.searchValue ?? '')).not.toBeNull()
+  })
+
+  it('reports short plus codes whose locality cannot be found', async () => {
+    const provider = createProvider({ geocode: vi.fn(() => Promise.resolve([])) })
+    const { geocodeLocation } = createWeatherService(() => provider)
+
+    await expect(geocodeLocation('CWC8+R9 Atlantis')).rejects.toMatchObject({ kind: 'not-found' })
+  })
+})
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest'
-import type { DailyForecastEntry } from '@/types/weather'
-import { __internal } from '@/services/openWeather'
+import type { DailyForecastEntry } from '@optimistic-weather/core'
+import { buildExtendedOutlook, findOutlookToday } from '@optimistic-weather/core'
 
 const createDailyEntry = (overrides: Partial<DailyForecastEntry> = {}): DailyForecastEntry => ({
   dt: 1_700_000_000,
@@ -27,7 +27,7 @@ describe('buildExtendedOutlook', () => {
       createDailyEntry({ dt: 1_700_000_000 + index * 86_400 }),
     )
 
-    const result = __internal.buildExtendedOutlook(entries, 0)
+    const result = buildExtendedOutlook(entries, 0)
 
     expect(result).toHaveLength(10)
     expect(result[0]?.precipitationChancePercent).toBe(40)
@@ -42,12 +42,19 @@ describe('buildExtendedOutlook', () => {
       createDailyEntry({ pop: undefined, dt: 1_700_086_400 }),
     ]
 
-    const result = __internal.buildExtendedOutlook(entries, 0)
+    const result = buildExtendedOutlook(entries, 0)
 
     expect(result[0]?.precipitationChancePercent).toBe(100)
     expect(result[1]?.precipitationChancePercent).toBeNull()
   })
 
+  it('carries daily cloud cover when the provider reports it', () => {
+    const result = buildExtendedOutlook([createDailyEntry({ clouds: 42.4 }), createDailyEntry({ dt: 1_700_086_400 })], 0)
+
+    expect(result[0]?.cloudCoverPercent).toBe(42)
+    expect(result[1]?.cloudCoverPercent).toBeUndefined()
+  })
+
   it('filters out entries missing temperature bounds', () => {
     const entries: DailyForecastEntry[] = [
       {
@@ -58,7 +65,7 @@ describe('buildExtendedOutlook', () => {
       createDailyEntry({ dt: 1_700_086_400 }),
     ]
 
-    const result = __internal.buildExtendedOutlook(entries, 0)
+    const result = buildExtendedOutlook(entries, 0)
 
     expect(result).toHaveLength(1)
     expect(result[0]?.date.getTime()).toBe((1_700_086_400) * 1000)
@@ -68,9 +75,33 @@ describe('buildExtendedOutlook', () => {
     const offsetSeconds = 3_600
     const entry = createDailyEntry({ sunrise: 100, sunset: 200 })
 
-    const [first] = __internal.buildExtendedOutlook([entry], offsetSeconds)
+    const [first] = buildExtendedOutlook([entry], offsetSeconds)
 
     expect(first?.sunrise?.getTime()).toBe((100 + offsetSeconds) * 1000)
     expect(first?.sunset?.getTime()).toBe((200 + offsetSeconds) * 1000)
   })
 })
+
+describe('findOutlookToday', () => {
+  // 2023-11-14 22:13:20 UTC: already the 15th in Tokyo, still the 14th in New York.
+  const now = new Date(1_700_000_000 * 1000)
+  const days = (offsetSeconds: number) =>
+    buildExtendedOutlook(
+      [
+        createDailyEntry({ dt: Date.UTC(2023, 10, 14, 12) / 1000 - offsetSeconds, temp: { day: 10, max: 12, min: 8 } }),
+        createDailyEntry({ dt: Date.UTC(2023, 10, 15, 12) / 1000 - offsetSeconds, temp: { day: 20, max: 24, min: 16 } }),
+      ],
+      offsetSeconds,
+    )
+
+  it('picks the day matching the place\'s local date', () => {
+    expect(findOutlookToday(days(-5 * 3_600), -5 * 3_600, now)?.high).toBe(12)
+    expect(findOutlookToday(days(9 * 3_600), 9 * 3_600, now)?.high).toBe(24)
+  })
+
+  it('returns undefined when the outlook does not cover today', () => {
+    const later = new Date(now.getTime() + 3 * 86_400_000)
+    expect(findOutlookToday(days(0), 0, later)).toBeUndefined()
+    expect(findOutlookToday([], 0, now)).toBeUndefined()
+  })
+})
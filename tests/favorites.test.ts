@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import {
+  addFavorite,
+  findFavorite,
+  moveFavorite,
+  removeFavorite,
+  renameFavorite,
+} from '@optimistic-weather/core'
+import type { FavoriteLocation, GeoLocation } from '@optimistic-weather/core'
+import { FAVORITES_STORAGE_KEY, loadFavorites, persistFavorites } from '@/lib/favorites-storage'
+
+const place = (name: string, lat: number, lon: number): GeoLocation => ({ name, lat, lon, country: 'US' })
+
+const favorite = (id: string, location: GeoLocation, nickname = location.name): FavoriteLocation => ({
+  id,
+  nickname,
+  location,
+  addedAt: 1,
+})
+
+const home = favorite('home', place('Louisville', 38.25, -85.76), 'Home')
+const office = favorite('office', place('Cincinnati', 39.1, -84.51), 'Office')
+const cabin = favorite('cabin', place('Gatlinburg', 35.71, -83.51), 'The cabin')
+
+const createMemoryStorage = () => {
+  const data: Record<string, string> = {}
+  return {
+    data,
+    getItem: (key: string) => (key in data ? data[key] : null),
+    setItem: (key: string, value: string) => {
+      data[key] = value
+    },
+  }
+}
+
+describe('favorite list helpers', () => {
+  it('appends new places and ignores ones already pinned', () => {
+    const nearbyHome = favorite('again', { ...home.location, lat: 38.26 })
+
+    expect(addFavorite([home], office)).toEqual([home, office])
+    expect(addFavorite([home], nearbyHome)).toEqual([home])
+  })
+
+  it('falls back to the place name for blank nicknames', () => {
+    const [added] = addFavorite([], favorite('x', place('Denver', 39.74, -104.99), '  '))
+
+    expect(added.nickname).toBe('Denver')
+    expect(renameFavorite([home], 'home', ' ')).toEqual([home])
+    expect(renameFavorite([home], 'home', ' Casa ')[0].nickname).toBe('Casa')
+  })
+
+  it('moves favorites within the list, stopping at the ends', () => {
+    const favorites = [home, office, cabin]
+
+    expect(moveFavorite(favorites, 'cabin', -1).map(({ id }) => id)).toEqual(['home', 'cabin', 'office'])
+    expect(moveFavorite(favorites, 'home', -1)).toBe(favorites)
+    expect(moveFavorite(favorites, 'home', 5).map(({ id }) => id)).toEqual(['office', 'cabin', 'home'])
+  })
+
+  it('finds and removes favorites by place and id', () => {
+    expect(findFavorite([home, office], { ...office.location, lon: -84.5 })).toBe(office)
+    expect(removeFavorite([home, office], 'home')).toEqual([office])
+  })
+})
+
+describe('favorites storage', () => {
+  it('round-trips favorites in order', () => {
+    const storage = createMemoryStorage()
+
+    persistFavorites([cabin, home], storage)
+
+    expect(loadFavorites(storage)).toEqual([cabin, home])
+  })
+
+  it('drops malformed payloads and entries', () => {
+    const storage = createMemoryStorage()
+    storage.setItem(FAVORITES_STORAGE_KEY, '{ malformed')
+    expect(loadFavorites(storage)).toEqual([])
+
+    storage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify([home, { id: 'broken', nickname: 'Nowhere' }]))
+    expect(loadFavorites(storage)).toEqual([home])
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  buildFixtureKey,
+  createRecordingFetcher,
+  createReplayFetcher,
+  withFixtureMode,
+} from '@/services/fixtures'
+import type { FixtureStore } from '@/services/fixtures'
+import { createOpenWeatherProvider } from '@/services/providers'
+import { searchLocationSuggestions } from '@/services/openWeather'
+
+const createMemoryStore = (): FixtureStore & { entries: Map<string, unknown> } => {
+  const entries = new Map<string, unknown>()
+  return {
+    entries,
+    load: (key) => Promise.resolve(entries.get(key)),
+    save: (key, body) => {
+      entries.set(key, body)
+      return Promise.resolve()
+    },
+  }
+}
+
+const denver = [{ name: 'Denver', state: 'Colorado', country: 'US', lat: 39.7392, lon: -104.9903 }]
+
+describe('fixture keys', () => {
+  it('drops the API key and sorts params', () => {
+    expect(buildFixtureKey('https://api.openweathermap.org/geo/1.0/direct?q=Denver&limit=5&appid=secret')).toBe(
+      'api.openweathermap.org/geo/1.0/direct?limit=5&q=denver',
+    )
+  })
+
+  it('normalizes coordinates and typed queries', () => {
+    const a = buildFixtureKey('https://api.openweathermap.org/data/2.5/forecast?lat=39.73921&lon=-104.99&units=metric')
+    const b = buildFixtureKey('https://api.openweathermap.org/data/2.5/forecast?units=metric&lon=-104.9900&lat=39.7392')
+    expect(a).toBe(b)
+    expect(buildFixtureKey('https://example.test/search?q=%20New%20%20York%20')).toBe('example.test/search?q=new+york')
+  })
+})
+
+describe('record and replay', () => {
+  it('records live responses and replays them without the network', async () => {
+    const store = createMemoryStore()
+    const live = vi.fn(() => Promise.resolve(denver))
+    const recording = createRecordingFetcher(live as never, store)
+
+    await recording('https://api.openweathermap.org/geo/1.0/direct?q=Denver&limit=5&appid=live-key')
+    await Promise.resolve()
+
+    const replay = createReplayFetcher(store)
+    const replayed = await replay('https://api.openweathermap.org/geo/1.0/direct?limit=5&q=denver&appid=other')
+
+    expect(live).toHaveBeenCalledTimes(1)
+    expect(replayed).toEqual(denver)
+  })
+
+  it('reports missing recordings with their key', async () => {
+    const replay = createReplayFetcher(createMemoryStore())
+
+    await expect(replay('https://api.openweathermap.org/geo/1.0/reverse?lat=1&lon=2', { source: 'OpenWeather' }))
+      .rejects.toThrow('OpenWeather fixture missing for api.openweathermap.org/geo/1.0/reverse?lat=1.0000&lon=2.0000')
+  })
+
+  it('passes requests straight through when fixtures are off', () => {
+    const live = vi.fn()
+    expect(withFixtureMode(live as never, 'off', createMemoryStore())).toBe(live)
+  })
+
+  it('drives location suggestions from replayed OpenWeather responses', async () => {
+    const store = createMemoryStore()
+    store.entries.set('api.openweathermap.org/geo/1.0/direct?limit=5&q=denver', denver)
+    const provider = createOpenWeatherProvider({
+      fetchJson: withFixtureMode(vi.fn() as never, 'replay', store),
+      getApiKey: () => 'replay',
+    })
+
+    const suggestions = await searchLocationSuggestions('Denver', { provider })
+
+    expect(suggestions[0]?.searchValue).toBe('Denver, CO')
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { convertTemperature, presentForecast } from '@optimistic-weather/core'
+import type { ForecastEntry, OptimisticForecast } from '@optimistic-weather/core'
+
+const createEntry = (dt: number): ForecastEntry => ({
+  dt,
+  main: { temp: 20, feels_like: 18, temp_min: 15, temp_max: 25, pressure: 1012, humidity: 45 },
+  weather: [{ id: 800, main: 'Clear', description: 'clear sky', icon: '01d' }],
+  clouds: { all: 10 },
+  wind: { speed: 5, deg: 180 },
+  visibility: 10_000,
+  pop: 0,
+})
+
+const canonicalForecast: OptimisticForecast = {
+  locationLabel: 'Denver, CO',
+  nextUpdate: new Date(Date.UTC(2025, 5, 1, 15)),
+  temperature: { current: 20, feelsLike: 18, high: 25, low: 10 },
+  skySummary: 'Clear sky',
+  horizon: [createEntry(1_700_000_000), createEntry(1_700_010_800)],
+  timezoneOffsetSeconds: 0,
+  extendedOutlook: {
+    days: [
+      {
+        date: new Date(Date.UTC(2025, 5, 1)),
+        high: 30,
+        low: 0,
+        dayAverage: 15,
+        precipitationChancePercent: null,
+        condition: 'Clear',
+        description: 'clear sky',
+        source: 'onecall',
+      },
+    ],
+    isComplete: false,
+  },
+  hourlyOutlook: [
+    {
+      id: 'hour-0',
+      time: new Date(Date.UTC(2025, 5, 1, 15)),
+      temperature: -40,
+      feelsLike: 100,
+      precipitationChancePercent: 0,
+      condition: 'Clear',
+      description: 'clear sky',
+    },
+  ],
+  coordinates: { lat: 39.7392, lon: -104.9903 },
+  location: { name: 'Denver', lat: 39.7392, lon: -104.9903, state: 'Colorado', country: 'US' },
+  timings: { geocodeMs: 0, forecastMs: 0, dailyMs: 0, hourlyMs: 0, totalMs: 0 },
+}
+
+describe('forecast presentation', () => {
+  it('converts Celsius to Fahrenheit only for imperial', () => {
+    expect(convertTemperature(100, 'imperial')).toBe(212)
+    expect(convertTemperature(-40, 'imperial')).toBe(-40)
+    expect(convertTemperature(21.5, 'metric')).toBe(21.5)
+  })
+
+  it('passes metric values through untouched', () => {
+    const presented = presentForecast(canonicalForecast, 'metric')
+
+    expect(presented.temperature).toEqual({ current: 20, feelsLike: 18, high: 25, low: 10, units: 'metric' })
+    expect(presented.extendedOutlook?.days[0]).toMatchObject({ high: 30, low: 0, dayAverage: 15 })
+    expect(presented.hourlyOutlook?.[0]).toMatchObject({ temperature: -40, feelsLike: 100 })
+  })
+
+  it('converts every temperature for imperial', () => {
+    const presented = presentForecast(canonicalForecast, 'imperial')
+
+    expect(presented.temperature).toEqual({ current: 68, feelsLike: 64.4, high: 77, low: 50, units: 'imperial' })
+    expect(presented.extendedOutlook?.days[0]).toMatchObject({ high: 86, low: 32, dayAverage: 59 })
+    expect(presented.hourlyOutlook?.[0]).toMatchObject({ temperature: -40, feelsLike: 212 })
+  })
+
+  it('words highlights in the selected units', () => {
+    const metricBreeze = presentForecast(canonicalForecast, 'metric').highlights.find(({ id }) => id === 'breeze')
+    const imperialBreeze = presentForecast(canonicalForecast, 'imperial').highlights.find(({ id }) => id === 'breeze')
+
+    expect(metricBreeze?.heroStatValue).toBe('18.0 km/h')
+    expect(imperialBreeze?.heroStatValue).toBe('11.2 mph')
+  })
+
+  it('leaves the canonical forecast untouched', () => {
+    presentForecast(canonicalForecast, 'imperial')
+
+    expect(canonicalForecast.temperature.current).toBe(20)
+    expect(canonicalForecast.horizon[0]?.wind?.speed).toBe(5)
+  })
+})
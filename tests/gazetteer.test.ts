@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from 'vitest'
+import { bundledGazetteer, createGazetteer, createWeatherService, createWeatherError } from '@optimistic-weather/core'
+import type { GeoLocation, WeatherProvider } from '@optimistic-weather/core'
+import { createStubProvider } from './stub-provider'
+
+const names = (places: GeoLocation[]) => places.map((place) => `${place.name}, ${place.state ?? ''}, ${place.country}`)
+
+const springfields: GeoLocation[] = [
+  { name: 'Springfield', lat: 39.7990, lon: -89.6440, state: 'Illinois', country: 'US' },
+  { name: 'Springfield', lat: 42.1015, lon: -72.5898, state: 'Massachusetts', country: 'US' },
+  { name: 'Springfield', lat: 37.2153, lon: -93.2982, state: 'Missouri', country: 'US' },
+]
+
+const createProvider = (geocode: WeatherProvider['geocode']) => createStubProvider({ geocode: vi.fn(geocode) })
+
+describe('gazetteer search', () => {
+  const gazetteer = createGazetteer(`
+    Portland|OR|US|652503|45.5152|-122.6784
+    Portland|ME|US|68408|43.6591|-70.2568
+    Porto|Porto|PT|231800|41.1579|-8.6291
+    Paris|Île-de-France|FR|2148271|48.8566|2.3522
+    Paris|TX|US|24476|33.6609|-95.5555
+    St. Louis|MO|US|301578|38.6270|-90.1994
+    Málaga|Andalusia|ES|577405|36.7213|-4.4214
+  `)
+
+  it('matches name prefixes, ranked by population', () => {
+    expect(names(gazetteer.search('Port'))).toEqual([
+      'Portland, Oregon, US',
+      'Portland, Maine, US',
+      'Porto, Porto, PT',
+    ])
+  })
+
+  it('narrows by a region or country after the comma, even half typed', () => {
+    expect(names(gazetteer.search('Portland, M'))).toEqual(['Portland, Maine, US'])
+    expect(names(gazetteer.search('Paris, France'))).toEqual(['Paris, Île-de-France, FR'])
+    expect(gazetteer.search('Portland, UK')).toEqual([])
+  })
+
+  it('puts home-country places first when names match exactly', () => {
+    expect(names(gazetteer.search('Paris'))[0]).toBe('Paris, Texas, US')
+    expect(names(gazetteer.search('Paris', { homeCountry: 'GB' }))[0]).toBe('Paris, Île-de-France, FR')
+  })
+
+  it('ignores accents, punctuation and spelled-out saints', () => {
+    expect(names(gazetteer.search('malaga'))).toEqual(['Málaga, Andalusia, ES'])
+    expect(names(gazetteer.search('Saint Lou'))).toEqual(['St. Louis, Missouri, US'])
+  })
+
+  it('finds the bundled entry for a nearby geocoding result', () => {
+    expect(gazetteer.find({ name: 'Portland', lat: 45.52, lon: -122.67, country: 'us' })?.population).toBe(652503)
+    expect(gazetteer.find({ name: 'Portland', lat: 38.2, lon: -85.7, country: 'US' })).toBeUndefined()
+  })
+
+  it('bundles enough places to answer common searches', () => {
+    expect(bundledGazetteer.search('Louis')[0]).toMatchObject({ name: 'Louisville', state: 'Kentucky' })
+    expect(bundledGazetteer.search('Toky')[0]).toMatchObject({ name: 'Tokyo', country: 'JP' })
+  })
+})
+
+describe('offline suggestions', () => {
+  it('answers synchronously without touching the provider', () => {
+    const provider = createProvider(() => Promise.resolve([]))
+    const { searchLocalSuggestions } = createWeatherService(() => provider)
+
+    expect(searchLocalSuggestions('Denv').map((suggestion) => suggestion.searchValue)).toEqual(['Denver, CO'])
+    expect(searchLocalSuggestions('80302')).toEqual([])
+    expect(provider.geocode).not.toHaveBeenCalled()
+  })
+
+  it('keeps the bundled suggestions when the network is down', async () => {
+    const provider = createProvider(() => Promise.reject(createWeatherError('network', 'offline')))
+    const { searchLocationSuggestions } = createWeatherService(() => provider)
+
+    const suggestions = await searchLocationSuggestions('Seatt')
+
+    expect(suggestions.map((suggestion) => suggestion.searchValue)).toEqual(['Seattle, WA'])
+  })
+
+  it('still reports failures it has nothing to show for', async () => {
+    const provider = createProvider(() => Promise.reject(createWeatherError('network', 'offline')))
+    const { searchLocationSuggestions } = createWeatherService(() => provider)
+
+    await expect(searchLocationSuggestions('Atlantis')).rejects.toMatchObject({ kind: 'network' })
+  })
+
+  it('lists network places once, with bundled extras after them', async () => {
+    const provider = createProvider(() => Promise.resolve([
+      { name: 'Portland', lat: 45.5202, lon: -122.6742, state: 'Oregon', country: 'US' },
+    ]))
+    const { searchLocationSuggestions } = createWeatherService(() => provider)
+
+    const suggestions = await searchLocationSuggestions('Portland')
+
+    expect(suggestions.map((suggestion) => suggestion.searchValue)).toEqual(['Portland, OR', 'Portland, ME'])
+    expect(suggestions[0]?.location).toMatchObject({ lat: 45.5202, population: 652503 })
+  })
+
+  it('ranks same-name network results by the population the gazetteer knows', async () => {
+    const provider = createProvider(() => Promise.resolve(springfields))
+    const { geocodeLocation } = createWeatherService(() => provider)
+
+    const location = await geocodeLocation('Springfield')
+
+    expect(location.state).toBe('Missouri')
+  })
+})
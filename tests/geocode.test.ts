@@ -1,6 +1,14 @@
-import { describe, expect, it } from 'vitest'
-import type { GeoLocation } from '@/types/weather'
-import { __internal, formatUsLocationLabel } from '@/services/openWeather'
+import { describe, expect, it, vi } from 'vitest'
+import { createWeatherService } from '@optimistic-weather/core'
+import type { GeoLocation } from '@optimistic-weather/core'
+import {
+  dedupeLocations,
+  formatLocationLabel,
+  pickBestMatch,
+  resolveHomeCountry,
+} from '@optimistic-weather/core/geocoding'
+import { __internal } from '@optimistic-weather/core/placeNames'
+import { createStubProvider } from './stub-provider'
 
 const sampleOptions: GeoLocation[] = [
   { name: 'Cincinnati', lat: 39.1031, lon: -84.512, state: 'OH', country: 'US' },
@@ -17,6 +25,17 @@ const seattleOptions: GeoLocation[] = [
   { name: 'Seattle', lat: 21.1743, lon: -104.833, state: 'Jalisco', country: 'MX' },
 ]
 
+const londonOptions: GeoLocation[] = [
+  { name: 'London', lat: 51.5073, lon: -0.1276, state: 'England', country: 'GB' },
+  { name: 'London', lat: 42.9834, lon: -81.2331, state: 'Ontario', country: 'CA' },
+  { name: 'London', lat: 37.129, lon: -84.0833, state: 'Kentucky', country: 'US' },
+]
+
+const parisOptions: GeoLocation[] = [
+  { name: 'Paris', lat: 48.8589, lon: 2.32, state: 'Ile-de-France', country: 'FR' },
+  { name: 'Paris', lat: 33.6609, lon: -95.5555, state: 'Texas', country: 'US' },
+]
+
 const seattleStateMissing: GeoLocation[] = [
   { name: 'Seattle', lat: 47.6062, lon: -122.3321, country: 'US' },
   { name: 'Seattle', lat: 21.1743, lon: -104.833, state: 'Jalisco', country: 'MX' },
@@ -24,23 +43,23 @@ const seattleStateMissing: GeoLocation[] = [
 
 describe('geocoding helpers', () => {
   it('selects the closest matching location label for misspelled queries', () => {
-    const match = __internal.pickBestMatch('Cincinatti, OH, US', sampleOptions)
+    const match = pickBestMatch('Cincinatti, OH, US', sampleOptions)
     expect(match?.name).toBe('Cincinnati')
   })
 
   it('prioritises country matches when the query names a country', () => {
-    const match = __internal.pickBestMatch('Sydney, Australia', sydneyOptions)
+    const match = pickBestMatch('Sydney, Australia', sydneyOptions)
     expect(match?.country).toBe('AU')
   })
 
   it('accounts for US state hints when differentiating same-name cities', () => {
-    const match = __internal.pickBestMatch('Seattle, WA', seattleOptions)
+    const match = pickBestMatch('Seattle, WA', seattleOptions)
     expect(match?.state).toBe('Washington')
     expect(match?.country).toBe('US')
   })
 
   it('still prefers the US city when state metadata is missing', () => {
-    const match = __internal.pickBestMatch('Seatle, WA', seattleStateMissing)
+    const match = pickBestMatch('Seatle, WA', seattleStateMissing)
     expect(match?.country).toBe('US')
   })
 
@@ -48,17 +67,6 @@ describe('geocoding helpers', () => {
     expect(__internal.levenshteinDistance('Lisbon', 'Lisbon')).toBe(0)
   })
 
-  it('zip regex captures postal code and country when provided', () => {
-    const result = __internal.ZIP_QUERY_REGEX.exec('94103, us')
-    expect(result?.[1]).toBe('94103')
-    expect(result?.[2]).toBe('us')
-  })
-
-  it('zip regex ignores plain city queries to avoid false positives', () => {
-    const result = __internal.ZIP_QUERY_REGEX.exec('Lisbon, PT')
-    expect(result).toBeNull()
-  })
-
   it('deduplicates repeating geo results while keeping unique entries', () => {
     const items: GeoLocation[] = [
       { name: 'Paris', lat: 48.8566, lon: 2.3522, country: 'FR' },
@@ -66,7 +74,7 @@ describe('geocoding helpers', () => {
       { name: 'Paris', lat: 33.6609, lon: -95.5555, state: 'Texas', country: 'US' },
     ]
 
-    const deduped = __internal.dedupeLocations(items)
+    const deduped = dedupeLocations(items)
 
     expect(deduped).toHaveLength(2)
     expect(deduped.some((location) => location.country === 'FR')).toBe(true)
@@ -74,7 +82,7 @@ describe('geocoding helpers', () => {
   })
 
   it('formats US labels as city and state code when available', () => {
-    const label = formatUsLocationLabel({
+    const label = formatLocationLabel({
       name: 'Louisville',
       state: 'Kentucky',
       lat: 38.2527,
@@ -84,4 +92,61 @@ describe('geocoding helpers', () => {
 
     expect(label).toBe('Louisville, KY')
   })
+
+  it('labels places abroad with their region code and country', () => {
+    const toronto: GeoLocation = { name: 'Toronto', lat: 43.6535, lon: -79.3839, state: 'Ontario', country: 'CA' }
+
+    expect(formatLocationLabel(toronto)).toBe('Toronto, ON, CA')
+    expect(formatLocationLabel(toronto, { homeCountry: 'CA' })).toBe('Toronto, ON')
+    expect(formatLocationLabel(londonOptions[0])).toBe('London, England, GB')
+    expect(formatLocationLabel(sydneyOptions[0], { homeCountry: 'GB' })).toBe('Sydney, NSW, AU')
+  })
+
+  it('resolves the home country from configuration, then locale', () => {
+    expect(resolveHomeCountry('gb', 'en-US')).toBe('GB')
+    expect(resolveHomeCountry(undefined, 'en-AU')).toBe('AU')
+    expect(resolveHomeCountry('  ', 'zh_Hant_TW')).toBe('TW')
+    expect(resolveHomeCountry('Canada', 'fr')).toBe('US')
+  })
+})
+
+describe('ambiguous place names across countries', () => {
+  it('prefers the home country when the query names no region', () => {
+    expect(pickBestMatch('London', londonOptions, { homeCountry: 'GB' })?.country).toBe('GB')
+    expect(pickBestMatch('London', londonOptions, { homeCountry: 'CA' })?.country).toBe('CA')
+    expect(pickBestMatch('London', londonOptions, { homeCountry: 'US' })?.country).toBe('US')
+    expect(pickBestMatch('Sydney', sydneyOptions, { homeCountry: 'AU' })?.country).toBe('AU')
+    expect(pickBestMatch('Paris', parisOptions, { homeCountry: 'FR' })?.country).toBe('FR')
+  })
+
+  it('lets a region or country qualifier override the home country', () => {
+    expect(pickBestMatch('London, ON', londonOptions, { homeCountry: 'US' })?.country).toBe('CA')
+    expect(pickBestMatch('London, UK', londonOptions, { homeCountry: 'US' })?.country).toBe('GB')
+    expect(pickBestMatch('London, Kentucky', londonOptions, { homeCountry: 'GB' })?.country).toBe('US')
+    expect(pickBestMatch('Paris, TX', parisOptions, { homeCountry: 'FR' })?.country).toBe('US')
+    expect(pickBestMatch('Paris, France', parisOptions, { homeCountry: 'US' })?.country).toBe('FR')
+    expect(pickBestMatch('Sydney, NS', sydneyOptions, { homeCountry: 'AU' })?.country).toBe('CA')
+  })
+
+  it('does not read ordinary words as region codes', () => {
+    const stratfordOptions: GeoLocation[] = [
+      { name: 'Stratford-upon-Avon', lat: 52.1917, lon: -1.7073, state: 'England', country: 'GB' },
+      { name: 'Stratford', lat: 43.3701, lon: -80.9822, state: 'Ontario', country: 'CA' },
+    ]
+
+    expect(pickBestMatch('Stratford on Avon', stratfordOptions, { homeCountry: 'GB' })?.country).toBe('GB')
+  })
+
+  it('suggests places outside the home country with country-aware labels', async () => {
+    const provider = createStubProvider({ geocode: vi.fn(() => Promise.resolve(londonOptions)) })
+    const { searchLocationSuggestions } = createWeatherService(() => provider, { homeCountry: 'GB' })
+
+    const suggestions = await searchLocationSuggestions('London')
+
+    expect(suggestions.map((suggestion) => suggestion.searchValue)).toEqual([
+      'London, England',
+      'London, ON, CA',
+      'London, KY, US',
+    ])
+  })
 })
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import type { SearchHistoryEntry } from '@/types/weather'
+import type { SearchHistoryEntry } from '@optimistic-weather/core'
 import {
   HISTORY_STORAGE_KEY,
   clearHistoryEntries,
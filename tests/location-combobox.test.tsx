@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { renderToStaticMarkup } from 'react-dom/server'
+import type { LocationSuggestion } from '@optimistic-weather/core'
+import LocationCombobox from '@/components/search/LocationCombobox'
+import { describeSuggestionStatus, matchHighlights, moveActiveIndex } from '@/components/search/combobox'
+import { formatPlaceLabel } from '@/services/openWeather'
+
+const highlighted = (label: string, query: string) =>
+  matchHighlights(label, query).filter((segment) => segment.match).map((segment) => segment.text)
+
+const suggestions: LocationSuggestion[] = [
+  { searchValue: 'Portland, OR', location: { name: 'Portland', lat: 45.5, lon: -122.7, state: 'Oregon', country: 'US' } },
+  { searchValue: 'Portland, ME', location: { name: 'Portland', lat: 43.7, lon: -70.3, state: 'Maine', country: 'US' } },
+]
+
+const render = (props: Partial<Parameters<typeof LocationCombobox>[0]> = {}) => renderToStaticMarkup(
+  <LocationCombobox
+    id="location"
+    value="Port"
+    onValueChange={() => undefined}
+    onSelect={() => undefined}
+    onClear={() => undefined}
+    suggestions={suggestions}
+    loading={false}
+    error={null}
+    enabled
+    formatLabel={formatPlaceLabel}
+    units="imperial"
+    {...props}
+  />,
+)
+
+describe('suggestion highlighting', () => {
+  it('marks the typed prefix of each matching word', () => {
+    expect(highlighted('Portland, ME', 'port')).toEqual(['Port'])
+    expect(highlighted('Fort Worth, TX', 'fort wo')).toEqual(['Fort', 'Wo'])
+  })
+
+  it('ignores accents and keeps the label intact', () => {
+    const segments = matchHighlights('São Paulo, BR', 'sao pa')
+
+    expect(segments.map((segment) => segment.text).join('')).toBe('São Paulo, BR')
+    expect(highlighted('São Paulo, BR', 'sao pa')).toEqual(['São', 'Pa'])
+  })
+
+  it('marks nothing when no word starts with what was typed', () => {
+    expect(matchHighlights('Denver, CO', 'nver')).toEqual([{ text: 'Denver, CO', match: false }])
+  })
+})
+
+describe('active option movement', () => {
+  it('starts at either end and wraps around', () => {
+    expect(moveActiveIndex(-1, 3, 1)).toBe(0)
+    expect(moveActiveIndex(-1, 3, -1)).toBe(2)
+    expect(moveActiveIndex(2, 3, 1)).toBe(0)
+    expect(moveActiveIndex(0, 3, -1)).toBe(2)
+    expect(moveActiveIndex(0, 0, 1)).toBe(-1)
+  })
+})
+
+describe('suggestion announcements', () => {
+  it('reads out loading, counts and errors', () => {
+    expect(describeSuggestionStatus({ loading: true, count: 0, error: null })).toContain('Looking')
+    expect(describeSuggestionStatus({ loading: false, count: 1, error: null })).toMatch(/^1 place found/)
+    expect(describeSuggestionStatus({ loading: false, count: 4, error: null })).toMatch(/^4 places found/)
+    expect(describeSuggestionStatus({ loading: false, count: 0, error: 'No matches found.' })).toBe('No matches found.')
+  })
+})
+
+describe('LocationCombobox', () => {
+  it('exposes the suggestions as a listbox owned by the input', () => {
+    const html = render()
+
+    expect(html).toContain('role="combobox"')
+    expect(html).toContain('aria-expanded="true"')
+    expect(html).toContain('aria-controls="location-listbox"')
+    expect(html).toContain('<ul id="location-listbox"')
+    expect(html.match(/role="option"/g)).toHaveLength(2)
+    expect(html).toContain('<mark class="bg-transparent font-semibold text-sky-700">Port</mark>')
+    expect(html).toContain('2 places found')
+  })
+
+  it('shows how far away suggestions with a known distance are', () => {
+    const html = render({ suggestions: [{ ...suggestions[0], distanceKm: 19.3 }, suggestions[1]] })
+
+    expect(html).toContain('12 mi away')
+    expect(html.match(/ away</g)).toHaveLength(1)
+  })
+
+  it('stays collapsed while the query is too short', () => {
+    const html = render({ enabled: false })
+
+    expect(html).toContain('aria-expanded="false"')
+    expect(html).not.toContain('role="listbox"')
+    expect(html).toContain('role="status" aria-live="polite" class="sr-only"></p>')
+  })
+
+  it('announces loading and errors without a listbox', () => {
+    expect(render({ suggestions: [], loading: true })).toContain('Looking for matching places…</p>')
+    expect(render({ suggestions: [], error: 'No matches found for "Atl".' })).not.toContain('role="listbox"')
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { buildComparison } from '@optimistic-weather/core'
+import type { OptimisticDailyOutlook, OptimisticForecast, OptimisticHourlyOutlook } from '@optimistic-weather/core'
+
+const day = (date: string, overrides: Partial<OptimisticDailyOutlook> = {}): OptimisticDailyOutlook => ({
+  date: new Date(`${date}T12:00:00Z`),
+  high: 24,
+  low: 12,
+  dayAverage: 18,
+  precipitationChancePercent: 20,
+  cloudCoverPercent: 40,
+  condition: 'Clouds',
+  description: 'scattered clouds',
+  source: 'onecall',
+  ...overrides,
+})
+
+const hour = (time: string, overrides: Partial<OptimisticHourlyOutlook> = {}): OptimisticHourlyOutlook => ({
+  id: `hour-${time}`,
+  time: new Date(time),
+  temperature: 20,
+  feelsLike: 20,
+  precipitationChancePercent: 10,
+  condition: 'Clear',
+  description: 'clear sky',
+  ...overrides,
+})
+
+const forecastFor = (
+  name: string,
+  days: OptimisticDailyOutlook[],
+  hours: OptimisticHourlyOutlook[] = [],
+): OptimisticForecast => ({
+  locationLabel: name,
+  nextUpdate: new Date(0),
+  temperature: { current: 20, feelsLike: 20, high: 24, low: 12 },
+  skySummary: 'Clear sky',
+  horizon: [],
+  timezoneOffsetSeconds: 0,
+  extendedOutlook: { days, isComplete: true },
+  hourlyOutlook: hours,
+  coordinates: { lat: 0, lon: 0 },
+  location: { name, lat: 0, lon: 0, country: 'US' },
+  timings: { geocodeMs: 0, forecastMs: 0, dailyMs: 0, hourlyMs: 0, totalMs: 0 },
+})
+
+describe('buildComparison', () => {
+  it('aligns places on a shared date axis and keeps days only some cover', () => {
+    const denver = forecastFor('Denver', [day('2025-06-06'), day('2025-06-07')])
+    const boulder = forecastFor('Boulder', [day('2025-06-07'), day('2025-06-08')])
+
+    const days = buildComparison([denver, boulder])
+
+    expect(days.map(({ dateKey }) => dateKey)).toEqual(['2025-06-06', '2025-06-07', '2025-06-08'])
+    expect(days[0].cells[1].day).toBeUndefined()
+    expect(days[0].cells[1].scores).toEqual({ dryness: null, sun: null, comfort: null })
+    expect(days[0].winners).toEqual({ dryness: [], sun: [], comfort: [] })
+  })
+
+  it('picks a winner per metric and leaves full ties unmarked', () => {
+    const denver = forecastFor('Denver', [day('2025-06-07', { precipitationChancePercent: 60, cloudCoverPercent: 10, dayAverage: 30 })])
+    const boulder = forecastFor('Boulder', [day('2025-06-07', { precipitationChancePercent: 10, cloudCoverPercent: 10, dayAverage: 21 })])
+    const golden = forecastFor('Golden', [day('2025-06-07', { precipitationChancePercent: 10, cloudCoverPercent: 70, dayAverage: 12 })])
+
+    const [saturday] = buildComparison([denver, boulder, golden])
+
+    expect(saturday.winners.dryness).toEqual([1, 2])
+    expect(saturday.winners.sun).toEqual([0, 1])
+    expect(saturday.winners.comfort).toEqual([1])
+    expect(buildComparison([denver, denver])[0].winners.dryness).toEqual([])
+  })
+
+  it('groups hours by local date and scores from them when the daily series is missing', () => {
+    const denver = forecastFor('Denver', [], [
+      hour('2025-06-06T22:00:00Z', { precipitationChancePercent: 70, feelsLike: 19 }),
+      hour('2025-06-07T01:00:00Z', { precipitationChancePercent: 5, feelsLike: 21 }),
+    ])
+    const boulder = forecastFor('Boulder', [day('2025-06-06', { precipitationChancePercent: 50 })])
+
+    const [friday, saturday] = buildComparison([denver, boulder])
+
+    expect(friday.cells[0].hours).toHaveLength(1)
+    expect(friday.cells[0].scores).toEqual({ dryness: 30, sun: null, comfort: 90 })
+    expect(friday.winners.dryness).toEqual([1])
+    expect(friday.winners.sun).toEqual([])
+    expect(saturday.dateKey).toBe('2025-06-07')
+    expect(saturday.cells[0].scores.comfort).toBe(100)
+  })
+})
@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createNwsProvider } from '@/services/providers'
+import { __internal } from '@optimistic-weather/core/providers/nwsProvider'
+import { presentForecast } from '@optimistic-weather/core'
+import { fetchOptimisticForecast } from '@/services/openWeather'
+import points from './fixtures/nws/points.json'
+import forecast from './fixtures/nws/forecast.json'
+import forecastHourly from './fixtures/nws/forecast-hourly.json'
+
+const louisville = { lat: 38.2527, lon: -85.7585 }
+
+const createFixtureFetcher = () =>
+  vi.fn((url: string) => {
+    if (url.includes('/points/')) {
+      return Promise.resolve(points)
+    }
+    if (url.includes('/forecast/hourly')) {
+      return Promise.resolve(forecastHourly)
+    }
+    if (url.includes('/forecast')) {
+      return Promise.resolve(forecast)
+    }
+    return Promise.reject(new Error(`Unexpected request ${url}`))
+  })
+
+const createFixtureProvider = (fetchJson = createFixtureFetcher()) =>
+  createNwsProvider({
+    fetchJson: fetchJson as never,
+    geocoder: {
+      geocode: () => Promise.resolve([{ name: 'Louisville', state: 'Kentucky', country: 'US', ...louisville }]),
+      geocodeByZip: () => Promise.resolve(null),
+    },
+  })
+
+describe('NWS provider adapter', () => {
+  it('reverse geocodes through the points relative location', async () => {
+    const provider = createFixtureProvider()
+
+    const [place] = await provider.reverseGeocode(louisville)
+
+    expect(place).toMatchObject({ name: 'Louisville', state: 'KY', country: 'US' })
+  })
+
+  it('maps hourly periods into three-hour forecast entries', async () => {
+    const provider = createFixtureProvider()
+
+    const series = await provider.fetchForecast(louisville, 'imperial')
+
+    expect(series.entries).toHaveLength(8)
+    expect(series.timezoneOffsetSeconds).toBe(-4 * 3600)
+    expect(series.entries[0]?.main.temp).toBe(60)
+    expect(series.entries[0]?.main.temp_max).toBe(65)
+    expect(series.entries[0]?.weather[0]?.main).toBe('Clouds')
+    expect(series.entries[4]?.pop).toBeCloseTo(0.3)
+    expect(series.entries[4]?.weather[0]?.main).toBe('Rain')
+  })
+
+  it('pairs day and night periods into daily entries', async () => {
+    const provider = createFixtureProvider()
+
+    const series = await provider.fetchDailyForecast(louisville, 'imperial')
+
+    expect(series?.entries).toHaveLength(7)
+    expect(series?.entries[0]?.temp).toMatchObject({ max: 78, min: 58 })
+    expect(series?.entries[0]?.pop).toBeCloseTo(0.3)
+    expect(series?.entries[2]?.weather[0]?.main).toBe('Thunderstorm')
+  })
+
+  it('converts temperatures and wind into metric units', async () => {
+    const provider = createFixtureProvider()
+
+    const hourly = await provider.fetchHourlyForecast(louisville, 'metric')
+    const shortRange = await provider.fetchForecast(louisville, 'metric')
+
+    expect(hourly?.entries[0]?.temp).toBeCloseTo(15.56, 1)
+    expect(shortRange.entries[0]?.wind?.speed).toBeCloseTo(6 * 0.44704, 3)
+  })
+
+  it('reuses grid lookups and hourly periods across requests', async () => {
+    const fetchJson = createFixtureFetcher()
+    const provider = createFixtureProvider(fetchJson)
+
+    await provider.fetchForecast(louisville, 'imperial')
+    await provider.fetchHourlyForecast(louisville, 'imperial')
+
+    expect(fetchJson).toHaveBeenCalledTimes(2)
+  })
+
+  it('reports daily and hourly failures as unavailable instead of rejecting', async () => {
+    const onWarning = vi.fn()
+    const provider = createNwsProvider({
+      fetchJson: ((url: string) =>
+        url.includes('/points/') ? Promise.resolve(points) : Promise.reject(new Error('NWS 500'))) as never,
+      geocoder: { geocode: () => Promise.resolve([]), geocodeByZip: () => Promise.resolve(null) },
+      onWarning,
+    })
+
+    await expect(provider.fetchDailyForecast(louisville, 'imperial')).resolves.toBeNull()
+    await expect(provider.fetchHourlyForecast(louisville, 'imperial')).resolves.toBeNull()
+    await expect(provider.fetchForecast(louisville, 'imperial')).rejects.toThrow('NWS 500')
+    expect(onWarning).toHaveBeenCalledTimes(2)
+  })
+
+  it('feeds the optimistic forecast builders unchanged', async () => {
+    const provider = createFixtureProvider()
+
+    const result = presentForecast(await fetchOptimisticForecast('Louisville, KY', { provider }), 'imperial')
+
+    expect(result.locationLabel).toBe('Louisville, KY')
+    expect(result.highlights.map((highlight) => highlight.id)).toEqual(
+      expect.arrayContaining(['clouds', 'visibility']),
+    )
+    expect(result.extendedOutlook?.days).toHaveLength(7)
+    expect(result.extendedOutlook?.isComplete).toBe(false)
+    expect(result.hourlyOutlook?.[0]?.temperature).toBeCloseTo(60)
+  })
+})
+
+describe('NWS parsing helpers', () => {
+  it('reads the leading condition code from icon URLs', () => {
+    expect(__internal.parseIconCode('https://api.weather.gov/icons/land/day/tsra_hi,40/rain,60?size=medium')).toBe('tsra_hi')
+    expect(__internal.parseIconCode('https://api.weather.gov/icons/land/night/wind_few?size=small')).toBe('few')
+  })
+
+  it('averages wind speed ranges', () => {
+    expect(__internal.parseWindSpeed('5 to 15 mph', 'imperial')).toBe(10)
+    expect(__internal.parseWindSpeed('18 km/h', 'metric')).toBeCloseTo(5)
+    expect(__internal.parseWindSpeed('calm', 'imperial')).toBeUndefined()
+  })
+})
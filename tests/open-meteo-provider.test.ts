@@ -0,0 +1,143 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createOpenMeteoProvider, resolveNwsGeocoder, resolveWeatherProvider } from '@/services/providers'
+import { __internal } from '@optimistic-weather/core/providers/openMeteoProvider'
+import { presentForecast } from '@optimistic-weather/core'
+import { fetchOptimisticForecast } from '@/services/openWeather'
+import forecast from './fixtures/open-meteo/forecast.json'
+import search from './fixtures/open-meteo/search.json'
+
+const boulder = { lat: 40.015, lon: -105.2705 }
+// 2025-06-01 14:30 in Boulder (UTC-6).
+const fixtureNow = () => Date.UTC(2025, 5, 1, 20, 30)
+
+const reverseGeocodeResponse = {
+  latitude: boulder.lat,
+  longitude: boulder.lon,
+  city: '',
+  locality: 'Boulder',
+  principalSubdivision: 'Colorado',
+  countryCode: 'US',
+}
+
+const createFixtureFetcher = () =>
+  vi.fn((url: string) => {
+    if (url.includes('geocoding-api.open-meteo.com')) {
+      return Promise.resolve(search)
+    }
+    if (url.includes('api.bigdatacloud.net')) {
+      return Promise.resolve(reverseGeocodeResponse)
+    }
+    if (url.includes('api.open-meteo.com/v1/forecast')) {
+      return Promise.resolve(forecast)
+    }
+    return Promise.reject(new Error(`Unexpected request ${url}`))
+  })
+
+const createFixtureProvider = (fetchJson = createFixtureFetcher()) =>
+  createOpenMeteoProvider({ fetchJson: fetchJson as never, now: fixtureNow })
+
+describe('Open-Meteo provider adapter', () => {
+  it('maps geocoding results onto locations', async () => {
+    const provider = createFixtureProvider()
+
+    const results = await provider.geocode('Boulder')
+
+    expect(results).toHaveLength(3)
+    expect(results[0]).toMatchObject({ name: 'Boulder', state: 'Colorado', country: 'US' })
+  })
+
+  it('reverse geocodes without a key, skipping blank fields', async () => {
+    const provider = createFixtureProvider()
+
+    const [place] = await provider.reverseGeocode(boulder)
+
+    expect(place).toMatchObject({ name: 'Boulder', state: 'Colorado', country: 'US', ...boulder })
+  })
+
+  it('groups hourly data into three-hour entries from the current hour', async () => {
+    const provider = createFixtureProvider()
+
+    const series = await provider.fetchForecast(boulder, 'imperial')
+
+    expect(series.timezoneOffsetSeconds).toBe(-6 * 3600)
+    expect(series.entries[0]?.dt).toBe(forecast.hourly.time[14])
+    expect(series.entries[0]?.main).toMatchObject({ temp: 76, temp_max: 78 })
+    expect(series.entries[0]?.visibility).toBeCloseTo(10_000, 0)
+    expect(series.entries[1]?.weather[0]?.main).toBe('Rain')
+    expect(series.entries[1]?.pop).toBeCloseTo(0.6)
+    expect(series.entries[1]?.rain?.['3h']).toBeCloseTo(0.09)
+  })
+
+  it('stamps daily entries at local midday', async () => {
+    const provider = createFixtureProvider()
+
+    const series = await provider.fetchDailyForecast(boulder, 'imperial')
+
+    expect(series?.entries).toHaveLength(10)
+    expect(series?.entries[0]?.dt).toBe(forecast.daily.time[0] + 12 * 3600)
+    expect(series?.entries[0]?.temp).toMatchObject({ max: 78, min: 55 })
+    expect(series?.entries[5]?.weather[0]?.main).toBe('Thunderstorm')
+  })
+
+  it('serves every series from a single forecast request', async () => {
+    const fetchJson = createFixtureFetcher()
+    const provider = createFixtureProvider(fetchJson)
+
+    await provider.fetchForecast(boulder, 'imperial')
+    await provider.fetchDailyForecast(boulder, 'imperial')
+    await provider.fetchHourlyForecast(boulder, 'imperial')
+
+    expect(fetchJson).toHaveBeenCalledTimes(1)
+    expect(fetchJson.mock.calls[0]?.[0]).toContain('temperature_unit=fahrenheit')
+  })
+
+  it('fills the full optimistic forecast', async () => {
+    const provider = createFixtureProvider()
+
+    const result = await fetchOptimisticForecast('Boulder, CO', { provider })
+    const presented = presentForecast(result, 'metric')
+
+    expect(result.locationLabel).toBe('Boulder, CO')
+    expect(result.temperature.current).toBe(76)
+    expect(presented.highlights.length).toBeGreaterThan(0)
+    expect(result.extendedOutlook?.isComplete).toBe(true)
+    expect(result.hourlyOutlook?.[0]?.temperature).toBe(76)
+    expect(result.attribution?.url).toBe('https://open-meteo.com/')
+  })
+
+  it('requests the canonical metric forecast', async () => {
+    const fetchJson = createFixtureFetcher()
+    const provider = createFixtureProvider(fetchJson)
+
+    await fetchOptimisticForecast('Boulder, CO', { provider })
+
+    const forecastUrl = fetchJson.mock.calls.find(([url]) => url.includes('api.open-meteo.com/v1/forecast'))?.[0]
+    expect(forecastUrl).toContain('temperature_unit=celsius')
+  })
+})
+
+describe('Open-Meteo weather codes', () => {
+  it('maps WMO codes onto OpenWeather conditions', () => {
+    expect(__internal.toForecastWeather(63)).toMatchObject({ main: 'Rain', icon: '10d' })
+    expect(__internal.toForecastWeather(0, false)).toMatchObject({ main: 'Clear', icon: '01n' })
+    expect(__internal.toForecastWeather(null).main).toBe('Clear')
+  })
+})
+
+describe('default provider resolution', () => {
+  it('falls back to Open-Meteo when no OpenWeather key is configured', () => {
+    expect(resolveWeatherProvider({}).id).toBe('open-meteo')
+    expect(resolveWeatherProvider({ openWeatherApiKey: '  ' }).id).toBe('open-meteo')
+    expect(resolveWeatherProvider({ openWeatherApiKey: 'abc123' }).id).toBe('openweather')
+  })
+
+  it('honours an explicitly requested provider', () => {
+    expect(resolveWeatherProvider({ requestedProvider: 'NWS', openWeatherApiKey: 'abc123' }).id).toBe('nws')
+    expect(resolveWeatherProvider({ requestedProvider: 'unknown' }).id).toBe('open-meteo')
+  })
+
+  it('geocodes NWS searches without OpenWeather unless a key or proxy is set up', () => {
+    expect(resolveNwsGeocoder({ requestedProvider: 'nws' }).id).toBe('open-meteo')
+    expect(resolveNwsGeocoder({ requestedProvider: 'nws', openWeatherProxyUrl: '/api' }).id).toBe('openweather')
+  })
+})
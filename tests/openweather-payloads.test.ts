@@ -0,0 +1,188 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  createWeatherService,
+  describeDataIssues,
+  isWeatherServiceError,
+  presentForecast,
+} from '@optimistic-weather/core'
+import {
+  parseForecastResponse,
+  parseLegacyDailyResponse,
+  parseOneCallResponse,
+} from '@optimistic-weather/core/providers/openWeatherPayloads'
+import { createOpenWeatherProvider } from '@/services/providers'
+
+const clear = [{ id: 800, main: 'Clear', description: 'clear sky', icon: '01d' }]
+
+const forecastEntry = (dt: number) => ({
+  dt,
+  main: { temp: 20, feels_like: 19, temp_min: 18, temp_max: 22, pressure: 1012, humidity: 45 },
+  weather: clear,
+  clouds: { all: 10 },
+  wind: { speed: 3, deg: 180 },
+  visibility: 10_000,
+  pop: 0,
+})
+
+const dailyEntry = (dt: number) => ({ dt, temp: { day: 21, min: 14, max: 25 }, weather: clear, pop: 0.1 })
+
+const louisville = { name: 'Louisville', lat: 38.2527, lon: -85.7585, state: 'Kentucky', country: 'US' }
+
+const createService = (payloads: { forecast: unknown; oneCall: unknown }) => {
+  const fetchJson = vi.fn((url: string) => {
+    if (url.includes('/geo/1.0/direct')) {
+      return Promise.resolve([louisville])
+    }
+    if (url.includes('/data/3.0/onecall')) {
+      return Promise.resolve(payloads.oneCall)
+    }
+    if (url.includes('/data/2.5/forecast/daily')) {
+      return Promise.reject(new Error('Legacy daily disabled'))
+    }
+    return Promise.resolve(payloads.forecast)
+  })
+  const provider = createOpenWeatherProvider({
+    fetchJson: fetchJson as never,
+    getApiKey: () => 'test-key',
+    legacyHedgeDelayMs: 60_000,
+  })
+  return createWeatherService(() => provider)
+}
+
+describe('OpenWeather payload validation', () => {
+  it('drops entries without a timestamp or temperature and repairs derived readings', () => {
+    const { main: { feels_like: _feelsLike, ...mainWithoutFeelsLike }, ...entry } = forecastEntry(2)
+    const series = parseForecastResponse({
+      city: { timezone: 3_600 },
+      list: [
+        forecastEntry(1),
+        { ...entry, main: mainWithoutFeelsLike },
+        { ...forecastEntry(3), main: { humidity: 40 } },
+        { ...forecastEntry(4), dt: 'soon' },
+        null,
+      ],
+    })
+
+    expect(series.entries.map((item) => item.dt)).toEqual([1, 2])
+    expect(series.entries[1]?.main.feels_like).toBe(20)
+    expect(series.timezoneOffsetSeconds).toBe(3_600)
+    expect(series.issues).toEqual([
+      { field: 'list[1].main.feels_like', resolution: 'repaired' },
+      { field: 'list[2].main.temp', resolution: 'dropped' },
+      { field: 'list[3].dt', resolution: 'dropped' },
+      { field: 'list[4]', resolution: 'dropped' },
+    ])
+  })
+
+  it('leaves out readings that have no stand-in', () => {
+    const { visibility: _visibility, wind: _wind, ...entry } = forecastEntry(1)
+
+    const series = parseForecastResponse({ city: { timezone: 0 }, list: [entry] })
+
+    expect(series.entries[0]?.visibility).toBeUndefined()
+    expect(series.entries[0]?.wind).toBeUndefined()
+    expect(series.issues).toEqual([
+      { field: 'list[0].wind.speed', resolution: 'missing' },
+      { field: 'list[0].visibility', resolution: 'missing' },
+    ])
+  })
+
+  it('treats a payload without a list as an empty, flagged series', () => {
+    const series = parseForecastResponse({ message: 'oops' })
+
+    expect(series.entries).toEqual([])
+    expect(series.issues).toEqual([
+      { field: 'list', resolution: 'dropped' },
+      { field: 'city.timezone', resolution: 'repaired' },
+    ])
+  })
+
+  it('splits One Call into daily and hourly series with their own issues', () => {
+    const { daily, hourly } = parseOneCallResponse({
+      timezone_offset: -18_000,
+      daily: [dailyEntry(1), { dt: 2, temp: { min: 10 } }, { dt: 3, temp: { min: 10, max: 16 }, weather: clear }],
+    })
+
+    expect(daily.entries.map((entry) => entry.dt)).toEqual([1, 3])
+    expect(daily.entries[1]?.temp.day).toBe(13)
+    expect(daily.timezoneOffsetSeconds).toBe(-18_000)
+    expect(daily.issues).toEqual([
+      { field: 'daily[1].temp.max', resolution: 'dropped' },
+      { field: 'daily[2].temp.day', resolution: 'repaired' },
+    ])
+    expect(hourly).toEqual({ entries: [], timezoneOffsetSeconds: -18_000, issues: [] })
+  })
+
+  it('keeps the legacy wind keys on daily entries', () => {
+    const series = parseLegacyDailyResponse({ city: { timezone: 0 }, list: [{ ...dailyEntry(1), speed: 4 }] })
+
+    expect(series.entries[0]?.speed).toBe(4)
+    expect(series.issues).toEqual([])
+  })
+})
+
+describe('forecasts from repaired payloads', () => {
+  it('reports repairs and skips highlights that lost their readings', async () => {
+    const { main: { humidity: _humidity, ...main }, ...entry } = forecastEntry(1_700_000_000)
+    const { fetchOptimisticForecast } = createService({
+      forecast: { city: { timezone: 0 }, list: [{ ...entry, main }] },
+      oneCall: { timezone_offset: 0, daily: [dailyEntry(1_700_000_000)] },
+    })
+
+    const forecast = await fetchOptimisticForecast('Louisville, KY')
+    const ids = presentForecast(forecast, 'metric').highlights.map((highlight) => highlight.id)
+
+    expect(forecast.dataIssues).toEqual([{ field: 'list[0].main.humidity', resolution: 'missing' }])
+    expect(ids).toContain('dryness')
+    expect(ids).not.toContain('humidity')
+    expect(ids).not.toContain('hydration')
+  })
+
+  it('falls back to hourly entries when the short-range list is empty', async () => {
+    const { fetchOptimisticForecast } = createService({
+      forecast: { city: { timezone: 0 }, list: [] },
+      oneCall: {
+        timezone_offset: 0,
+        daily: [],
+        hourly: [
+          { dt: 1_700_000_000, temp: 18, feels_like: 17, weather: clear, pop: 0 },
+          { dt: 1_700_003_600, temp: 21, feels_like: 21, weather: clear, pop: 0.1 },
+        ],
+      },
+    })
+
+    const forecast = await fetchOptimisticForecast('Louisville, KY')
+    const ids = presentForecast(forecast, 'metric').highlights.map((highlight) => highlight.id)
+
+    expect(forecast.temperature).toEqual({ current: 18, feelsLike: 17, high: 21, low: 18 })
+    expect(forecast.skySummary).toContain('Sun-forward')
+    expect(ids).toEqual(['dryness', 'feels-like'])
+  })
+
+  it('fails with a malformed-response error when nothing usable is left', async () => {
+    const { fetchOptimisticForecast } = createService({
+      forecast: { list: [{ dt: 1 }] },
+      oneCall: { daily: [] },
+    })
+
+    const error = await fetchOptimisticForecast('Louisville, KY').catch((reason: unknown) => reason)
+
+    expect(isWeatherServiceError(error)).toBe(true)
+    expect(error).toMatchObject({ kind: 'malformed-response', source: 'OpenWeather' })
+  })
+})
+
+describe('describeDataIssues', () => {
+  it('names the readings that went missing', () => {
+    expect(describeDataIssues([
+      { field: 'list[0].main.humidity', resolution: 'missing' },
+      { field: 'list[1].main.humidity', resolution: 'missing' },
+      { field: 'list[0].clouds.all', resolution: 'missing' },
+    ])).toContain('(humidity, cloud cover)')
+  })
+
+  it('stays quiet for clean payloads', () => {
+    expect(describeDataIssues([])).toBeUndefined()
+    expect(describeDataIssues(undefined)).toBeUndefined()
+  })
+})
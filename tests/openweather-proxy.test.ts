@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createWeatherError } from '@optimistic-weather/core'
+import { createHttpError } from '@optimistic-weather/core/errors'
+import { createProxyHandler } from '../docker/proxy/proxyHandler'
+
+const proxyUrl = (path: string) => new URL(`http://localhost/api/openweather${path}`)
+
+const createHandler = (options: Partial<Parameters<typeof createProxyHandler>[0]> = {}) => {
+  const fetchJson = vi.fn(() => Promise.resolve({ list: [] }))
+  const handle = createProxyHandler({ apiKey: 'server-key', fetchJson: fetchJson as never, ...options })
+  return { handle, fetchJson }
+}
+
+describe('OpenWeather proxy', () => {
+  it('adds the server key and replaces any key the client sent', async () => {
+    const { handle, fetchJson } = createHandler()
+
+    const response = await handle(proxyUrl('/data/2.5/forecast?lat=1&lon=2&units=metric&appid=leaked'), 'client-a')
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ list: [] })
+    expect(fetchJson).toHaveBeenCalledWith(
+      'https://api.openweathermap.org/data/2.5/forecast?lat=1&lon=2&units=metric&appid=server-key',
+      expect.objectContaining({ source: 'OpenWeather' }),
+    )
+  })
+
+  it('refuses endpoints the apps never call', async () => {
+    const { handle, fetchJson } = createHandler()
+
+    const responses = await Promise.all([
+      handle(proxyUrl('/data/2.5/weather?q=x'), 'client-a'),
+      handle(new URL('http://localhost/geo/1.0/direct?q=x'), 'client-a'),
+    ])
+
+    expect(responses.map((response) => response.status)).toEqual([404, 404])
+    expect(fetchJson).not.toHaveBeenCalled()
+  })
+
+  it('reports a missing server key without calling upstream', async () => {
+    const { handle, fetchJson } = createHandler({ apiKey: undefined })
+
+    const response = await handle(proxyUrl('/geo/1.0/direct?q=boulder'), 'client-a')
+
+    expect(response.status).toBe(503)
+    expect(fetchJson).not.toHaveBeenCalled()
+  })
+
+  it('serves repeat requests from its cache', async () => {
+    const { handle, fetchJson } = createHandler()
+
+    await handle(proxyUrl('/geo/1.0/direct?q=Boulder&limit=5'), 'client-a')
+    const repeat = await handle(proxyUrl('/geo/1.0/direct?limit=5&q=boulder'), 'client-b')
+
+    expect(repeat.status).toBe(200)
+    expect(fetchJson).toHaveBeenCalledTimes(1)
+  })
+
+  it('rate limits each client separately', async () => {
+    let time = 0
+    const { handle } = createHandler({ rateLimit: { limit: 2, windowMs: 60_000 }, now: () => time })
+    const request = (clientId: string) => handle(proxyUrl('/data/3.0/onecall?lat=1&lon=2'), clientId)
+
+    await request('client-a')
+    await request('client-a')
+    time = 15_000
+    const limited = await request('client-a')
+    const other = await request('client-b')
+    time = 60_000
+    const afterWindow = await request('client-a')
+
+    expect(limited.status).toBe(429)
+    expect(limited.headers.get('Retry-After')).toBe('45')
+    expect(other.status).toBe(200)
+    expect(afterWindow.status).toBe(200)
+  })
+
+  it('passes upstream failures through with their status and body', async () => {
+    const { handle } = createHandler({
+      fetchJson: vi.fn(() =>
+        Promise.reject(createHttpError('OpenWeather', 429, '{"message":"slow down"}', '30')),
+      ) as never,
+    })
+
+    const response = await handle(proxyUrl('/geo/1.0/reverse?lat=1&lon=2'), 'client-a')
+
+    expect(response.status).toBe(429)
+    expect(response.headers.get('Retry-After')).toBe('30')
+    expect(await response.text()).toBe('{"message":"slow down"}')
+  })
+
+  it('answers 502 when OpenWeather cannot be reached', async () => {
+    const { handle } = createHandler({
+      fetchJson: vi.fn(() => Promise.reject(createWeatherError('network', 'offline'))) as never,
+    })
+
+    const response = await handle(proxyUrl('/geo/1.0/zip?zip=80302,US'), 'client-a')
+
+    expect(response.status).toBe(502)
+  })
+})
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest'
 import { buildOptimisticDailyStory } from '@/components/forecast/optimisticCopy'
-import type { OptimisticDailyOutlook } from '@/types/weather'
+import type { OptimisticDailyOutlook } from '@optimistic-weather/core'
 
 const baseOutlook: OptimisticDailyOutlook = {
   date: new Date('2025-05-10T12:00:00Z'),
@@ -0,0 +1,159 @@
+import { describe, expect, it, vi } from 'vitest'
+import { renderToStaticMarkup } from 'react-dom/server'
+import {
+  PLACE_CHOICES_STORAGE_KEY,
+  createPlaceChoices,
+  createWeatherService,
+  findCloseMatches,
+  rankLocationMatches,
+} from '@optimistic-weather/core'
+import type { CacheStorage, GeoLocation } from '@optimistic-weather/core'
+import PlaceChooser from '@/components/feedback/PlaceChooser'
+import { formatPlaceLabel } from '@/services/openWeather'
+import { createStubProvider } from './stub-provider'
+
+const portlandOr: GeoLocation = { name: 'Portland', lat: 45.5202, lon: -122.6742, state: 'Oregon', country: 'US' }
+const portlandMe: GeoLocation = { name: 'Portland', lat: 43.6615, lon: -70.2553, state: 'Maine', country: 'US' }
+const parisTx: GeoLocation = { name: 'Paris', lat: 33.6609, lon: -95.5555, state: 'Texas', country: 'US' }
+const parisFr: GeoLocation = { name: 'Paris', lat: 48.8566, lon: 2.3522, state: 'Île-de-France', country: 'FR' }
+
+const createMemoryStorage = (): CacheStorage & { values: Map<string, string> } => {
+  const values = new Map<string, string>()
+  return {
+    values,
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value)
+    },
+  }
+}
+
+const createProvider = (results: GeoLocation[]) => createStubProvider({
+  geocode: vi.fn(() => Promise.resolve(results)),
+  fetchForecast: vi.fn(() => Promise.resolve({
+    entries: [{
+      dt: 1_700_000_000,
+      main: { temp: 20, feels_like: 20, temp_min: 18, temp_max: 22, pressure: 1012, humidity: 45 },
+      weather: [{ id: 800, main: 'Clear', description: 'clear sky', icon: '01d' }],
+      clouds: { all: 10 },
+      wind: { speed: 3, deg: 180 },
+      visibility: 10_000,
+      pop: 0,
+    }],
+    timezoneOffsetSeconds: 0,
+  })),
+})
+
+describe('close matches', () => {
+  it('keeps runners-up only when the ranking is too close to call', () => {
+    const portlands = findCloseMatches(rankLocationMatches('Portland', [portlandMe, portlandOr]))
+    const parises = findCloseMatches(rankLocationMatches('Paris', [parisFr, parisTx]))
+
+    expect(portlands.map((match) => match.location.state)).toEqual(['Maine', 'Oregon'])
+    expect(parises.map((match) => match.location)).toEqual([parisTx])
+  })
+
+  it('lists a place reported twice once', () => {
+    const nudged = { ...portlandOr, lat: portlandOr.lat + 0.01 }
+
+    expect(findCloseMatches(rankLocationMatches('Portland', [portlandOr, nudged]))).toHaveLength(1)
+  })
+})
+
+describe('ambiguous forecasts', () => {
+  it('offers the other places an ambiguous query could mean', async () => {
+    const { fetchOptimisticForecast } = createWeatherService(() => createProvider([portlandMe, portlandOr]))
+
+    const forecast = await fetchOptimisticForecast('Portland')
+
+    expect(forecast.location.state).toBe('Oregon')
+    expect(forecast.alternatives?.map((place) => place.state)).toEqual(['Maine'])
+  })
+
+  it('leaves clear winners alone', async () => {
+    const { fetchOptimisticForecast } = createWeatherService(() => createProvider([parisFr, parisTx]))
+
+    const forecast = await fetchOptimisticForecast('Paris')
+
+    expect(forecast.location).toMatchObject({ state: 'Texas' })
+    expect(forecast).not.toHaveProperty('alternatives')
+  })
+
+  it('uses the place picked last time and offers the former winner instead', async () => {
+    const placeChoices = createPlaceChoices()
+    await placeChoices.remember('portland', portlandMe)
+    const { fetchOptimisticForecast } = createWeatherService(
+      () => createProvider([portlandOr, portlandMe]),
+      { placeChoices },
+    )
+
+    const forecast = await fetchOptimisticForecast('Portland ')
+
+    expect(forecast.location).toEqual(portlandMe)
+    expect(forecast.alternatives?.map((place) => place.state)).toEqual(['Oregon'])
+  })
+})
+
+describe('remembered place choices', () => {
+  it('persists picks under the folded query and reads them back in a new session', async () => {
+    const storage = createMemoryStorage()
+    await createPlaceChoices({ storage }).remember('St. Petersburg', parisTx)
+
+    const recalled = await createPlaceChoices({ storage }).recall('saint petersburg')
+
+    expect(recalled).toEqual(parisTx)
+    expect(storage.values.has(PLACE_CHOICES_STORAGE_KEY)).toBe(true)
+  })
+
+  it('keeps the most recent picks within the limit', async () => {
+    const placeChoices = createPlaceChoices({ maxEntries: 2 })
+    await placeChoices.remember('Portland', portlandOr)
+    await placeChoices.remember('Paris', parisFr)
+    await placeChoices.remember('Portland', portlandMe)
+    await placeChoices.remember('Springfield', parisTx)
+
+    expect(await placeChoices.recall('Portland')).toEqual(portlandMe)
+    expect(await placeChoices.recall('Paris')).toBeUndefined()
+  })
+
+  it('ignores unreadable storage', async () => {
+    const storage = createMemoryStorage()
+    await storage.setItem(PLACE_CHOICES_STORAGE_KEY, '{ malformed')
+    const onWarning = vi.fn()
+
+    expect(await createPlaceChoices({ storage, onWarning }).recall('Portland')).toBeUndefined()
+    expect(onWarning).toHaveBeenCalled()
+  })
+})
+
+describe('PlaceChooser', () => {
+  const render = (places: GeoLocation[]) => renderToStaticMarkup(
+    <PlaceChooser
+      query="Portland"
+      current={portlandOr}
+      places={places}
+      formatLabel={formatPlaceLabel}
+      onChoose={() => undefined}
+    />,
+  )
+
+  it('asks "did you mean" when there is one other place', () => {
+    const html = render([portlandOr, portlandMe])
+
+    expect(html).toContain('Showing Portland, OR')
+    expect(html).toContain('Portland, ME')
+  })
+
+  it('lists every place, marking the current one, when there are several', () => {
+    const portlandIn: GeoLocation = { name: 'Portland', lat: 40.4345, lon: -84.9777, state: 'Indiana', country: 'US' }
+    const html = render([portlandOr, portlandMe, portlandIn])
+
+    expect(html).toContain('Which Portland?')
+    expect(html).toContain('aria-pressed="true"')
+    expect(html.match(/<button/g)).toHaveLength(3)
+  })
+
+  it('renders nothing without another place to offer', () => {
+    expect(render([portlandOr])).toBe('')
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createPlaceForecasts, createWeatherError, createWeatherService } from '@optimistic-weather/core'
+import type { GeoLocation, OptimisticForecast, PlaceForecastEntries } from '@optimistic-weather/core'
+import { createStubProvider } from './stub-provider'
+
+const portland: GeoLocation = { name: 'Portland', lat: 45.5202, lon: -122.6742, state: 'Oregon', country: 'US' }
+const boston: GeoLocation = { name: 'Boston', lat: 42.3601, lon: -71.0589, state: 'Massachusetts', country: 'US' }
+const places = [{ id: 'portland', location: portland }, { id: 'boston', location: boston }]
+
+const { fetchOptimisticForecastFor } = createWeatherService(() => createStubProvider({
+  fetchForecast: vi.fn(() => Promise.resolve({
+    entries: [{
+      dt: 1_700_000_000,
+      main: { temp: 20, feels_like: 20, temp_min: 18, temp_max: 22, pressure: 1012, humidity: 45 },
+      weather: [{ id: 800, main: 'Clear', description: 'clear sky', icon: '01d' }],
+      clouds: { all: 10 },
+      wind: { speed: 3, deg: 180 },
+      visibility: 10_000,
+      pop: 0,
+    }],
+    timezoneOffsetSeconds: 0,
+  })),
+}))
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+// Each fetch waits until the test resolves or rejects it by hand.
+const createManualFetch = async () => {
+  const base = await fetchOptimisticForecastFor(portland)
+  const pending: { location: GeoLocation; resolve: (label: string) => void; reject: (error: unknown) => void }[] = []
+  const fetchForecast = vi.fn((location: GeoLocation, { signal }: { signal?: AbortSignal }) =>
+    new Promise<OptimisticForecast>((resolve, reject) => {
+      signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+      pending.push({
+        location,
+        resolve: (label) => resolve({ ...base, locationLabel: label }),
+        reject,
+      })
+    }),
+  )
+  return { fetchForecast, pending }
+}
+
+const createTracked = async () => {
+  const { fetchForecast, pending } = await createManualFetch()
+  let entries: PlaceForecastEntries = {}
+  const placeForecasts = createPlaceForecasts({
+    fetchForecast,
+    keyLocation: 'the key',
+    onChange: (next) => {
+      entries = next
+    },
+  })
+  return { placeForecasts, fetchForecast, pending, entries: () => entries }
+}
+
+describe('createPlaceForecasts', () => {
+  it('loads each place once and keeps failures to their own entry', async () => {
+    const { placeForecasts, fetchForecast, pending, entries } = await createTracked()
+
+    placeForecasts.load(places)
+    placeForecasts.load(places)
+    await tick()
+    pending[0]?.resolve('Portland, OR')
+    pending[1]?.reject(createWeatherError('server', 'down', { source: 'Stub', status: 500 }))
+    await tick()
+
+    expect(fetchForecast).toHaveBeenCalledTimes(2)
+    expect(entries().portland).toMatchObject({ loading: false, forecast: { locationLabel: 'Portland, OR' } })
+    expect(entries().boston).toMatchObject({ loading: false, notice: { kind: 'server' } })
+    expect(entries().boston?.forecast).toBeUndefined()
+  })
+
+  it('drops a response that a refresh of the same place has superseded', async () => {
+    const { placeForecasts, pending, entries } = await createTracked()
+
+    placeForecasts.refresh([places[0]])
+    await tick()
+    placeForecasts.refresh([places[0]])
+    await tick()
+    pending[1]?.resolve('newer')
+    pending[0]?.resolve('older')
+    await tick()
+
+    expect(entries().portland).toMatchObject({ loading: false, forecast: { locationLabel: 'newer' } })
+  })
+
+  it('cancels everything in flight once disposed', async () => {
+    const { placeForecasts, fetchForecast, pending, entries } = await createTracked()
+
+    placeForecasts.load(places)
+    await tick()
+    placeForecasts.dispose()
+    pending.forEach(({ resolve }) => resolve('late'))
+    await tick()
+
+    expect(entries().portland?.forecast).toBeUndefined()
+    placeForecasts.load(places)
+    expect(fetchForecast).toHaveBeenCalledTimes(4)
+  })
+})
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest'
+import { rankLocationMatches } from '@optimistic-weather/core'
+import type { GeoLocation } from '@optimistic-weather/core'
+import { __internal, placeNameTokens, placeNameVariants, tokenSimilarity } from '@optimistic-weather/core/placeNames'
+
+const place = (name: string, state: string, country: string, population?: number): GeoLocation => ({
+  name,
+  state,
+  country,
+  lat: 0,
+  lon: 0,
+  ...(population === undefined ? {} : { population }),
+})
+
+const places = {
+  albuquerque: place('Albuquerque', 'New Mexico', 'US'),
+  alexandria: place('Alexandria', 'Virginia', 'US'),
+  cambridgeMa: place('Cambridge', 'Massachusetts', 'US'),
+  cambridgeUk: place('Cambridge', 'England', 'GB'),
+  centerville: place('Centerville', 'Ohio', 'US'),
+  cincinnati: place('Cincinnati', 'Ohio', 'US'),
+  fairfield: place('Fairfield', 'Connecticut', 'US'),
+  fortLauderdale: place('Fort Lauderdale', 'Florida', 'US'),
+  lauderdaleLakes: place('Lauderdale Lakes', 'Florida', 'US'),
+  londonGb: place('London', 'England', 'GB'),
+  londonKy: place('London', 'Kentucky', 'US'),
+  louisville: place('Louisville', 'Kentucky', 'US'),
+  mountVernonNy: place('Mount Vernon', 'New York', 'US'),
+  mountVernonWa: place('Mount Vernon', 'Washington', 'US'),
+  parisFr: place('Paris', 'Île-de-France', 'FR'),
+  parisTx: place('Paris', 'Texas', 'US'),
+  pauloAfonso: place('Paulo Afonso', 'Bahia', 'BR'),
+  petersburg: place('Petersburg', 'Virginia', 'US'),
+  philadelphia: place('Philadelphia', 'Pennsylvania', 'US'),
+  pittsburgh: place('Pittsburgh', 'Pennsylvania', 'US'),
+  sacramento: place('Sacramento', 'California', 'US'),
+  saintLouis: place('St. Louis', 'Missouri', 'US'),
+  saintPetersburgFl: place('St. Petersburg', 'Florida', 'US'),
+  saintPetersburgRu: place('Saint Petersburg', 'Saint Petersburg', 'RU'),
+  saoPaulo: place('São Paulo', 'São Paulo', 'BR'),
+  sarasota: place('Sarasota', 'Florida', 'US'),
+  seattleMx: place('Seattle', 'Jalisco', 'MX'),
+  seattleUs: place('Seattle', 'Washington', 'US'),
+  springfieldIl: place('Springfield', 'Illinois', 'US', 114394),
+  springfieldMo: place('Springfield', 'Missouri', 'US', 169176),
+  stratfordCa: place('Stratford', 'Ontario', 'CA'),
+  stratfordGb: place('Stratford-upon-Avon', 'England', 'GB'),
+  sydneyAu: place('Sydney', 'New South Wales', 'AU'),
+  sydneyCa: place('Sydney', 'Nova Scotia', 'CA'),
+}
+
+type PlaceId = keyof typeof places
+
+// query, candidates in provider order, home country, expected winner
+const corpus: [string, PlaceId[], string, PlaceId][] = [
+  ['Cincinatti', ['centerville', 'cincinnati'], 'US', 'cincinnati'],
+  ['Filadelfia', ['fairfield', 'philadelphia'], 'US', 'philadelphia'],
+  ['Albukerke', ['alexandria', 'albuquerque'], 'US', 'albuquerque'],
+  ['Pitsburg', ['petersburg', 'pittsburgh'], 'US', 'pittsburgh'],
+  ['Saint Louis', ['louisville', 'saintLouis'], 'US', 'saintLouis'],
+  ['Ft. Lauderdale', ['lauderdaleLakes', 'fortLauderdale'], 'US', 'fortLauderdale'],
+  ['Mt Vernon, WA', ['mountVernonNy', 'mountVernonWa'], 'US', 'mountVernonWa'],
+  ['Sacra', ['sarasota', 'sacramento'], 'US', 'sacramento'],
+  ['Sao Paulo', ['pauloAfonso', 'saoPaulo'], 'US', 'saoPaulo'],
+  ['St Petersburg', ['saintPetersburgRu', 'saintPetersburgFl'], 'US', 'saintPetersburgFl'],
+  ['Saint Petersburg Russia', ['saintPetersburgFl', 'saintPetersburgRu'], 'US', 'saintPetersburgRu'],
+  ['Seatle, WA', ['seattleMx', 'seattleUs'], 'US', 'seattleUs'],
+  ['Paris, TX', ['parisFr', 'parisTx'], 'FR', 'parisTx'],
+  ['Paris France', ['parisTx', 'parisFr'], 'US', 'parisFr'],
+  ['London Kentucky', ['londonGb', 'londonKy'], 'GB', 'londonKy'],
+  ['London', ['londonKy', 'londonGb'], 'GB', 'londonGb'],
+  ['Cambridge, UK', ['cambridgeMa', 'cambridgeUk'], 'US', 'cambridgeUk'],
+  ['Cambridge, MA', ['cambridgeUk', 'cambridgeMa'], 'GB', 'cambridgeMa'],
+  ['Sydney, NS', ['sydneyAu', 'sydneyCa'], 'AU', 'sydneyCa'],
+  ['Stratford on Avon', ['stratfordCa', 'stratfordGb'], 'GB', 'stratfordGb'],
+  ['Springfield', ['springfieldIl', 'springfieldMo'], 'US', 'springfieldMo'],
+]
+
+describe('place matching corpus', () => {
+  it.each(corpus)('"%s" among %j (home %s) picks %s', (query, candidates, homeCountry, expected) => {
+    const [best] = rankLocationMatches(query, candidates.map((id) => places[id]), { homeCountry })
+
+    expect(best?.location).toBe(places[expected])
+  })
+})
+
+describe('match confidence', () => {
+  const confidenceOf = (query: string, location: GeoLocation) =>
+    rankLocationMatches(query, [location])[0]?.confidence ?? 0
+
+  it('is full for exact names and names with their region or country', () => {
+    expect(confidenceOf('Denver', place('Denver', 'Colorado', 'US'))).toBe(1)
+    expect(confidenceOf('Portland, ME', place('Portland', 'Maine', 'US'))).toBe(1)
+    expect(confidenceOf('ft worth', place('Fort Worth', 'Texas', 'US'))).toBe(1)
+  })
+
+  it('drops with misspellings, untyped words and unexplained qualifiers', () => {
+    const portland = place('Portland', 'Oregon', 'US')
+
+    expect(confidenceOf('Denvr', place('Denver', 'Colorado', 'US'))).toBeGreaterThan(0.7)
+    expect(confidenceOf('Denvr', place('Denver', 'Colorado', 'US'))).toBeLessThan(1)
+    expect(confidenceOf('Frankfurt', place('Frankfurt am Main', 'Hesse', 'DE'))).toBeGreaterThan(0.6)
+    expect(confidenceOf('Portland, ME', portland)).toBeLessThan(confidenceOf('Portland, OR', portland))
+  })
+
+  it('is low for unrelated places', () => {
+    expect(confidenceOf('Atlantis', place('Denver', 'Colorado', 'US'))).toBeLessThan(0.3)
+  })
+
+  it('returns every option, best first', () => {
+    const matches = rankLocationMatches('Cincinatti', [places.centerville, places.cincinnati])
+
+    expect(matches.map((match) => match.location)).toEqual([places.cincinnati, places.centerville])
+    expect(matches[0].confidence).toBeGreaterThan(matches[1].confidence)
+  })
+})
+
+describe('place name tokens', () => {
+  it('spells out common abbreviations and folds accents', () => {
+    expect(placeNameTokens('Ft. Myers')).toEqual(['fort', 'myers'])
+    expect(placeNameTokens('Ste-Foy')).toEqual(['sainte', 'foy'])
+    expect(placeNameTokens('Mt. Shasta')).toEqual(['mount', 'shasta'])
+    expect(placeNameTokens('Zürich')).toEqual(['zurich'])
+  })
+
+  it('lists both spellings of abbreviated names for prefix indexes', () => {
+    expect(placeNameVariants('St. Louis')).toEqual(['saint louis', 'st louis'])
+    expect(placeNameVariants('Denver')).toEqual(['denver'])
+  })
+
+  it('scores words still being typed by how much is there', () => {
+    expect(tokenSimilarity('sacra', 'sacramento', true)).toBeCloseTo(0.85)
+    expect(tokenSimilarity('sa', 'sacramento', false)).toBeLessThan(0.5)
+  })
+
+  it('gives words that sound alike the same phonetic key', () => {
+    expect(__internal.phoneticKey('filadelfia')).toBe(__internal.phoneticKey('philadelphia'))
+    expect(__internal.phoneticKey('albukerke')).toBe(__internal.phoneticKey('albuquerque'))
+    expect(__internal.phoneticKey('pitsburg')).toBe(__internal.phoneticKey('pittsburgh'))
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createWeatherService, formatPostalCode, parsePostalCode } from '@optimistic-weather/core'
+import type { GeoLocation } from '@optimistic-weather/core'
+import { createStubProvider } from './stub-provider'
+
+const createProvider = (places: GeoLocation[] = []) => {
+  const geocodeByZip = vi.fn((zip: string, country: string) =>
+    Promise.resolve<GeoLocation | null>({ name: `${zip} area`, lat: 1, lon: 2, country }),
+  )
+  const provider = createStubProvider({ geocode: vi.fn(() => Promise.resolve(places)), geocodeByZip })
+  return { provider, geocodeByZip }
+}
+
+describe('parsePostalCode', () => {
+  it('infers the country from distinctive formats and normalizes spacing', () => {
+    expect(parsePostalCode('m5v2t6')).toEqual({ code: 'M5V 2T6', lookupCode: 'M5V', countries: ['CA'] })
+    expect(parsePostalCode('SW1A1AA')).toMatchObject({ code: 'SW1A 1AA', lookupCode: 'SW1A', countries: ['GB'] })
+    expect(parsePostalCode('M1  1AE')).toMatchObject({ code: 'M1 1AE', countries: ['GB'] })
+    expect(parsePostalCode('1012ab')).toMatchObject({ code: '1012 AB', countries: ['NL'] })
+    expect(parsePostalCode('100-0001')).toMatchObject({ code: '100-0001', countries: ['JP'] })
+    expect(parsePostalCode('94103-1234')).toMatchObject({ code: '94103', countries: ['US'] })
+  })
+
+  it('captures the country qualifier when provided', () => {
+    expect(parsePostalCode('94103, us')).toMatchObject({ code: '94103', countries: ['US'] })
+    expect(parsePostalCode('W1A,GB')).toMatchObject({ code: 'W1A', countries: ['GB'] })
+    expect(parsePostalCode('SW1A 1AA, UK')).toMatchObject({ countries: ['GB'] })
+  })
+
+  it('puts the home country first for shared formats', () => {
+    expect(parsePostalCode('75008')?.countries[0]).toBe('US')
+    expect(parsePostalCode('75008', { homeCountry: 'FR' })?.countries[0]).toBe('FR')
+    expect(parsePostalCode('2000', { homeCountry: 'GB' })?.countries[0]).toBe('AU')
+  })
+
+  it('keeps a place typed next to the code', () => {
+    expect(parsePostalCode('75008 Paris')).toMatchObject({ code: '75008', place: 'Paris' })
+    expect(parsePostalCode('Toronto M5V 2T6')).toMatchObject({ code: 'M5V 2T6', place: 'Toronto' })
+    expect(parsePostalCode('10001, New York')).toMatchObject({ code: '10001', place: 'New York' })
+  })
+
+  it('ignores plain city queries and partial codes without a country', () => {
+    expect(parsePostalCode('Lisbon, PT')).toBeNull()
+    expect(parsePostalCode('Paris, TX')).toBeNull()
+    expect(parsePostalCode('W1A')).toBeNull()
+    expect(parsePostalCode('W1A', { homeCountry: 'GB' })).toMatchObject({ code: 'W1A', countries: ['GB'] })
+  })
+
+  it('formats a query that leads back to the same code', () => {
+    const postal = { code: 'M5V 2T6', lookupCode: 'M5V', countries: ['CA'] }
+
+    expect(formatPostalCode(postal, 'CA')).toBe('M5V 2T6, CA')
+    expect(formatPostalCode(postal, 'CA', { homeCountry: 'CA' })).toBe('M5V 2T6')
+  })
+})
+
+describe('postal code lookups', () => {
+  it('sends the outward code and inferred country to the provider', async () => {
+    const { provider, geocodeByZip } = createProvider()
+    const { searchLocationSuggestions } = createWeatherService(() => provider)
+
+    const [suggestion] = await searchLocationSuggestions('sw1a 1aa')
+
+    expect(geocodeByZip).toHaveBeenCalledWith('SW1A', 'GB', expect.anything())
+    expect(suggestion?.searchValue).toBe('SW1A 1AA, GB')
+  })
+
+  it('uses the place name to pick the country of an ambiguous code', async () => {
+    const paris: GeoLocation = { name: 'Paris', lat: 48.8589, lon: 2.32, state: 'Ile-de-France', country: 'FR' }
+    const { provider, geocodeByZip } = createProvider([paris])
+    const { geocodeLocation } = createWeatherService(() => provider)
+
+    const location = await geocodeLocation('75008 Paris')
+
+    expect(geocodeByZip).toHaveBeenCalledWith('75008', 'FR', expect.anything())
+    expect(location.country).toBe('FR')
+  })
+})
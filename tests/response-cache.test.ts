@@ -0,0 +1,180 @@
+import { describe, expect, it, vi } from 'vitest'
+import { RESPONSE_CACHE_STORAGE_KEY, createCachedFetcher } from '@optimistic-weather/core'
+import type { CacheStorage } from '@optimistic-weather/core'
+
+const FORECAST_URL = 'https://api.openweathermap.org/data/2.5/forecast?lat=39.7392&lon=-104.9903&units=metric&appid=key'
+const MINUTE_MS = 60 * 1000
+
+const createMemoryStorage = (): CacheStorage & { values: Map<string, string> } => {
+  const values = new Map<string, string>()
+  return {
+    values,
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value)
+    },
+  }
+}
+
+const createHarness = (storage = createMemoryStorage()) => {
+  let clock = Date.UTC(2025, 5, 1, 12)
+  let version = 0
+  const fetchJson = vi.fn(() => {
+    version += 1
+    return Promise.resolve({ version })
+  })
+  const cached = createCachedFetcher({ fetchJson: fetchJson as never, storage, now: () => clock })
+  return {
+    storage,
+    fetchJson,
+    cached,
+    advance: (ms: number) => {
+      clock += ms
+    },
+  }
+}
+
+describe('response cache', () => {
+  it('serves fresh entries without refetching', async () => {
+    const { cached, fetchJson, advance } = createHarness()
+
+    await cached(FORECAST_URL)
+    advance(5 * MINUTE_MS)
+    const second = await cached(FORECAST_URL)
+
+    expect(second).toEqual({ version: 1 })
+    expect(fetchJson).toHaveBeenCalledTimes(1)
+  })
+
+  it('shares entries across nearby coordinates and rotated keys', async () => {
+    const { cached, fetchJson } = createHarness()
+
+    await cached(FORECAST_URL)
+    await cached('https://api.openweathermap.org/data/2.5/forecast?units=metric&lat=39.741&lon=-104.991&appid=new')
+
+    expect(fetchJson).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps units in the key', async () => {
+    const { cached, fetchJson } = createHarness()
+
+    await cached(FORECAST_URL)
+    await cached(FORECAST_URL.replace('units=metric', 'units=imperial'))
+
+    expect(fetchJson).toHaveBeenCalledTimes(2)
+  })
+
+  it('returns stale data instantly and revalidates in the background', async () => {
+    const { cached, fetchJson, advance } = createHarness()
+
+    await cached(FORECAST_URL)
+    advance(30 * MINUTE_MS)
+    const stale = await cached(FORECAST_URL)
+    await vi.waitFor(() => expect(fetchJson).toHaveBeenCalledTimes(2))
+    const refreshed = await cached(FORECAST_URL)
+
+    expect(stale).toEqual({ version: 1 })
+    expect(refreshed).toEqual({ version: 2 })
+  })
+
+  it('refetches once entries fall outside the stale window', async () => {
+    const { cached, advance } = createHarness()
+
+    await cached(FORECAST_URL)
+    advance(7 * 60 * MINUTE_MS)
+
+    expect(await cached(FORECAST_URL)).toEqual({ version: 2 })
+  })
+
+  it('applies longer lifetimes to geocoding', async () => {
+    const { cached, fetchJson, advance } = createHarness()
+    const geocodeUrl = 'https://api.openweathermap.org/geo/1.0/direct?q=Denver&limit=5&appid=key'
+
+    await cached(geocodeUrl)
+    advance(24 * 60 * MINUTE_MS)
+    await cached(geocodeUrl)
+
+    expect(fetchJson).toHaveBeenCalledTimes(1)
+  })
+
+  it('persists entries so a new session starts warm', async () => {
+    const first = createHarness()
+    await first.cached(FORECAST_URL)
+    await vi.waitFor(() => expect(first.storage.values.has(RESPONSE_CACHE_STORAGE_KEY)).toBe(true))
+
+    const second = createHarness(first.storage)
+    const result = await second.cached(FORECAST_URL)
+
+    expect(result).toEqual({ version: 1 })
+    expect(second.fetchJson).not.toHaveBeenCalled()
+  })
+
+  it('persists only the newest entries that fit the size budget', async () => {
+    const storage = createMemoryStorage()
+    const fetchJson = vi.fn((url: string) => Promise.resolve({ padding: url.includes('big') ? 'x'.repeat(500) : 'small' }))
+    const cached = createCachedFetcher({ fetchJson: fetchJson as never, storage, maxStoredChars: 400 })
+
+    await cached('https://example.com/small')
+    await cached('https://example.com/big')
+    await vi.waitFor(() => expect(storage.values.get(RESPONSE_CACHE_STORAGE_KEY)).toContain('small'))
+
+    const stored = storage.values.get(RESPONSE_CACHE_STORAGE_KEY) ?? ''
+    expect(stored.length).toBeLessThanOrEqual(400)
+    expect(stored).not.toContain('xxx')
+    expect(await cached('https://example.com/big')).toEqual({ padding: 'x'.repeat(500) })
+    expect(fetchJson).toHaveBeenCalledTimes(2)
+  })
+
+  it('ignores corrupt persisted data', async () => {
+    const storage = createMemoryStorage()
+    storage.values.set(RESPONSE_CACHE_STORAGE_KEY, '{not json')
+    const { cached, fetchJson } = createHarness(storage)
+
+    await cached(FORECAST_URL)
+
+    expect(fetchJson).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps a shared request alive until every caller aborts', async () => {
+    const signals: AbortSignal[] = []
+    let respond: (body: unknown) => void = () => undefined
+    const fetchJson = vi.fn((_url: string, options?: { signal?: AbortSignal }) => {
+      if (options?.signal) {
+        signals.push(options.signal)
+      }
+      return new Promise((resolve) => {
+        respond = resolve
+      })
+    })
+    const cached = createCachedFetcher({ fetchJson: fetchJson as never })
+    const first = new AbortController()
+    const second = new AbortController()
+
+    const abandoned = cached(FORECAST_URL, { signal: first.signal })
+    const kept = cached(FORECAST_URL, { signal: second.signal })
+    await vi.waitFor(() => expect(fetchJson).toHaveBeenCalledTimes(1))
+    first.abort()
+    respond({ version: 1 })
+
+    await expect(abandoned).rejects.toMatchObject({ name: 'AbortError' })
+    await expect(kept).resolves.toEqual({ version: 1 })
+    expect(signals[0]?.aborted).toBe(false)
+  })
+
+  it('cancels the upstream request once its only caller aborts', async () => {
+    const fetchJson = vi.fn((_url: string, options?: { signal?: AbortSignal }) =>
+      new Promise((_resolve, reject) => {
+        options?.signal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })))
+      }))
+    const cached = createCachedFetcher({ fetchJson: fetchJson as never })
+    const controller = new AbortController()
+
+    const request = cached(FORECAST_URL, { signal: controller.signal })
+    await vi.waitFor(() => expect(fetchJson).toHaveBeenCalledTimes(1))
+    controller.abort()
+
+    await expect(request).rejects.toMatchObject({ name: 'AbortError' })
+    const upstreamSignal = (fetchJson.mock.calls[0]?.[1] as { signal: AbortSignal }).signal
+    expect(upstreamSignal.aborted).toBe(true)
+  })
+})
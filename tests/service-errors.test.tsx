@@ -0,0 +1,164 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { renderToStaticMarkup } from 'react-dom/server'
+import {
+  PROXY_KEY_LOCATION,
+  createWeatherError,
+  createWeatherService,
+  describeWeatherError,
+  fetchJson,
+  isAbortError,
+  isWeatherServiceError,
+} from '@optimistic-weather/core'
+import ServiceErrorNotice from '@/components/feedback/ServiceErrorNotice'
+import { createStubProvider } from './stub-provider'
+
+const KEY_LOCATION = 'VITE_OPENWEATHER_API_KEY in .env.local'
+
+const stubFetch = (implementation: () => Promise<Response>) => {
+  vi.stubGlobal('fetch', vi.fn(implementation))
+}
+
+const captureError = async (request: Promise<unknown>) => {
+  try {
+    await request
+  } catch (error) {
+    return error
+  }
+  throw new Error('Expected the request to fail')
+}
+
+describe('fetchJson error classification', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it.each([
+    [401, 'auth'],
+    [403, 'auth'],
+    [404, 'not-found'],
+    [429, 'rate-limited'],
+    [503, 'server'],
+  ])('maps HTTP %i onto %s', async (status, kind) => {
+    stubFetch(() => Promise.resolve(new Response('{"message":"nope"}', { status })))
+
+    const error = await captureError(fetchJson('https://example.test', { source: 'OpenWeather' }))
+
+    expect(isWeatherServiceError(error)).toBe(true)
+    expect(error).toMatchObject({ kind, status, source: 'OpenWeather', detail: '{"message":"nope"}' })
+  })
+
+  it('reads Retry-After on rate limits', async () => {
+    stubFetch(() => Promise.resolve(new Response('', { status: 429, headers: { 'Retry-After': '42' } })))
+
+    const error = await captureError(fetchJson('https://example.test'))
+
+    expect(error).toMatchObject({ kind: 'rate-limited', retryAfterSeconds: 42 })
+  })
+
+  it('treats failed connections as network errors', async () => {
+    stubFetch(() => Promise.reject(new TypeError('Failed to fetch')))
+
+    const error = await captureError(fetchJson('https://example.test'))
+
+    expect(error).toMatchObject({ kind: 'network' })
+  })
+
+  it('flags unreadable bodies as malformed responses', async () => {
+    stubFetch(() => Promise.resolve(new Response('<html>', { status: 200 })))
+
+    const error = await captureError(fetchJson('https://example.test'))
+
+    expect(error).toMatchObject({ kind: 'malformed-response' })
+  })
+
+  it('lets aborts through untouched', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    stubFetch(() => Promise.reject(new DOMException('Aborted', 'AbortError')))
+
+    const error = await captureError(fetchJson('https://example.test', { signal: controller.signal }))
+
+    expect(isAbortError(error)).toBe(true)
+    expect(isWeatherServiceError(error)).toBe(false)
+  })
+})
+
+describe('service errors', () => {
+  it('reports unknown places as not-found', async () => {
+    const { geocodeLocation } = createWeatherService(() => createStubProvider())
+
+    const error = await captureError(geocodeLocation('Atlantis'))
+
+    expect(error).toMatchObject({ kind: 'not-found', source: 'Stub' })
+  })
+})
+
+describe('recovery copy', () => {
+  it('points key problems at the setting to fix', () => {
+    const notice = describeWeatherError(
+      createWeatherError('auth', 'bad key', { source: 'OpenWeather', status: 401 }),
+      { keyLocation: KEY_LOCATION },
+    )
+
+    expect(notice.kind).toBe('auth')
+    expect(notice.message).toContain(KEY_LOCATION)
+    expect(notice.message).toContain('Open-Meteo')
+  })
+
+  it('offers the Open-Meteo fallback only for client-side keys', () => {
+    const notice = describeWeatherError(
+      createWeatherError('auth', 'bad key', { source: 'OpenWeather', status: 401 }),
+      { keyLocation: PROXY_KEY_LOCATION },
+    )
+
+    expect(notice.message).toContain(PROXY_KEY_LOCATION)
+    expect(notice.message).not.toContain('Open-Meteo')
+  })
+
+  it('schedules a retry for rate limits', () => {
+    const withHeader = createWeatherError('rate-limited', 'slow down', { retryAfterSeconds: 12 })
+    const withoutHeader = createWeatherError('rate-limited', 'slow down')
+
+    expect(describeWeatherError(withHeader, { keyLocation: KEY_LOCATION }).retryInSeconds).toBe(12)
+    expect(describeWeatherError(withoutHeader, { keyLocation: KEY_LOCATION }).retryInSeconds).toBe(30)
+  })
+
+  it('falls back to the raw message for unexpected errors', () => {
+    expect(describeWeatherError(new Error('boom'), { keyLocation: KEY_LOCATION })).toMatchObject({
+      kind: 'unknown',
+      message: 'boom',
+    })
+  })
+})
+
+describe('ServiceErrorNotice', () => {
+  it('offers a retry and a countdown for rate limits', () => {
+    const notice = describeWeatherError(
+      createWeatherError('rate-limited', 'slow down', { retryAfterSeconds: 5 }),
+      { keyLocation: KEY_LOCATION },
+    )
+
+    const html = renderToStaticMarkup(<ServiceErrorNotice notice={notice} onRetry={() => undefined} />)
+
+    expect(html).toContain('Retrying in 5s')
+    expect(html).toContain('Try again')
+  })
+
+  it('shows the offline banner without a retry countdown', () => {
+    const notice = describeWeatherError(createWeatherError('network', 'offline'), { keyLocation: KEY_LOCATION })
+
+    const html = renderToStaticMarkup(<ServiceErrorNotice notice={notice} onRetry={() => undefined} />)
+
+    expect(html).toContain('You’re offline')
+    expect(html).toContain('back online')
+    expect(html).not.toContain('Retrying in')
+  })
+
+  it('skips the retry button when retrying cannot help', () => {
+    const notice = describeWeatherError(createWeatherError('auth', 'bad key'), { keyLocation: KEY_LOCATION })
+
+    const html = renderToStaticMarkup(<ServiceErrorNotice notice={notice} onRetry={() => undefined} />)
+
+    expect(html).not.toContain('Try again')
+  })
+})
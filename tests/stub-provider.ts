@@ -0,0 +1,18 @@
+import { vi } from 'vitest'
+import type { GeoLocation, WeatherProvider } from '@optimistic-weather/core'
+
+/**
+ * A provider that finds no places and has no forecast data. Tests override the methods they
+ * exercise; every method is a `vi.fn`, so calls can be asserted.
+ */
+export const createStubProvider = (overrides: Partial<WeatherProvider> = {}): WeatherProvider => ({
+  id: 'stub',
+  label: 'Stub',
+  geocode: vi.fn(() => Promise.resolve<GeoLocation[]>([])),
+  geocodeByZip: vi.fn(() => Promise.resolve(null)),
+  reverseGeocode: vi.fn(() => Promise.resolve<GeoLocation[]>([])),
+  fetchForecast: vi.fn(() => Promise.resolve({ entries: [], timezoneOffsetSeconds: 0 })),
+  fetchDailyForecast: vi.fn(() => Promise.resolve(null)),
+  fetchHourlyForecast: vi.fn(() => Promise.resolve(null)),
+  ...overrides,
+})
@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createWeatherService, distanceKm, formatDistance, rankSuggestions } from '@optimistic-weather/core'
+import type { GeoLocation, LocationSuggestion, SearchHistoryEntry } from '@optimistic-weather/core'
+import { createStubProvider } from './stub-provider'
+
+const NOW = Date.UTC(2025, 5, 1, 12)
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const portlandOr: GeoLocation = { name: 'Portland', lat: 45.5152, lon: -122.6784, state: 'Oregon', country: 'US', population: 652503 }
+const portlandMe: GeoLocation = { name: 'Portland', lat: 43.6591, lon: -70.2568, state: 'Maine', country: 'US', population: 68408 }
+const boston = { lat: 42.3601, lon: -71.0589 }
+
+const toSuggestion = (location: GeoLocation): LocationSuggestion => ({
+  location,
+  searchValue: `${location.name}, ${location.state ?? ''}`,
+})
+
+const searched = (location: GeoLocation, ageDays: number, searchCount = 1): SearchHistoryEntry => ({
+  id: `${location.state ?? location.name}-${ageDays}`,
+  query: location.name,
+  timestamp: NOW - ageDays * DAY_MS,
+  success: true,
+  location,
+  searchCount,
+})
+
+const states = (suggestions: LocationSuggestion[]) => suggestions.map((suggestion) => suggestion.location.state)
+
+describe('suggestion ranking', () => {
+  const portlands = [toSuggestion(portlandOr), toSuggestion(portlandMe)]
+
+  it('ranks by the text match alone without a position or history', () => {
+    expect(states(rankSuggestions('Portland', portlands, {}, {}, NOW))).toEqual(['Oregon', 'Maine'])
+  })
+
+  it('lifts places near the last known position and reports their distance', () => {
+    const ranked = rankSuggestions('Portland', portlands, { origin: boston }, {}, NOW)
+
+    expect(states(ranked)).toEqual(['Maine', 'Oregon'])
+    expect(ranked[0].distanceKm).toBe(distanceKm(boston, portlandMe))
+  })
+
+  it('lifts places searched often or lately, fading with age', () => {
+    const recent = { history: [searched(portlandMe, 1)] }
+    const stale = { history: [searched(portlandMe, 120)] }
+
+    expect(states(rankSuggestions('Portland', portlands, recent, {}, NOW))).toEqual(['Maine', 'Oregon'])
+    expect(states(rankSuggestions('Portland', portlands, stale, {}, NOW))).toEqual(['Oregon', 'Maine'])
+  })
+
+  it('ignores failed searches and lets a typed region outweigh both signals', () => {
+    const failed = { ...searched(portlandMe, 0, 5), success: false }
+
+    expect(states(rankSuggestions('Portland', portlands, { history: [failed] }, {}, NOW))).toEqual(['Oregon', 'Maine'])
+    expect(states(rankSuggestions('Portland, OR', portlands, { origin: boston, history: [searched(portlandMe, 0)] }, {}, NOW)))
+      .toEqual(['Oregon', 'Maine'])
+  })
+})
+
+describe('distances', () => {
+  it('measures great-circle kilometres', () => {
+    expect(distanceKm(boston, portlandMe)).toBeGreaterThan(155)
+    expect(distanceKm(boston, portlandMe)).toBeLessThan(165)
+    expect(distanceKm(boston, boston)).toBe(0)
+  })
+
+  it('formats them in the chosen units', () => {
+    expect(formatDistance(19.3, 'imperial')).toBe('12 mi away')
+    expect(formatDistance(4.26, 'metric')).toBe('4.3 km away')
+    expect(formatDistance(4000, 'metric')).toBe('4,000 km away')
+  })
+})
+
+describe('suggestion search with context', () => {
+  it('ranks network and bundled places together by position', async () => {
+    const provider = createStubProvider({
+      geocode: vi.fn(() => Promise.resolve([{ name: 'Portland', lat: 45.5202, lon: -122.6742, state: 'Oregon', country: 'US' }])),
+    })
+    const { searchLocalSuggestions, searchLocationSuggestions } = createWeatherService(() => provider)
+
+    const local = searchLocalSuggestions('Portl', { origin: boston })
+    const suggestions = await searchLocationSuggestions('Portland', { origin: boston })
+
+    expect(states(local)[0]).toBe('Maine')
+    expect(suggestions.map((suggestion) => suggestion.searchValue)).toEqual(['Portland, ME', 'Portland, OR'])
+    expect(suggestions.every((suggestion) => suggestion.distanceKm !== undefined)).toBe(true)
+  })
+})
@@ -1,7 +1,7 @@
 import { describe, expect, it } from 'vitest'
 import { renderToStaticMarkup } from 'react-dom/server'
 import TenDayOutlook from '@/components/forecast/TenDayOutlook'
-import type { OptimisticDailyOutlook } from '@/types/weather'
+import type { OptimisticDailyOutlook } from '@optimistic-weather/core'
 
 const makeOutlook = (overrides: Partial<OptimisticDailyOutlook> = {}): OptimisticDailyOutlook => ({
   date: new Date('2025-05-10T12:00:00Z'),
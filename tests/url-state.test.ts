@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { buildUrlSearch, isSameUrlTarget, parseUrlState } from '@/lib/url-state'
+
+describe('url state', () => {
+  it('reads a shared search link', () => {
+    expect(parseUrlState('?q=Austin%2C+TX&units=metric&panel=radar')).toEqual({
+      target: { query: 'Austin, TX' },
+      units: 'metric',
+      panel: 'radar',
+    })
+  })
+
+  it('prefers coordinates over a query and ignores malformed values', () => {
+    expect(parseUrlState('?q=Austin&lat=30.2672&lon=-97.7431').target).toEqual({ coords: { lat: 30.2672, lon: -97.7431 } })
+    expect(parseUrlState('?q=Austin&lat=120&lon=-97.7431').target).toEqual({ query: 'Austin' })
+    expect(parseUrlState('?lat=&lon=5&units=kelvin&panel=hourly')).toEqual({})
+  })
+
+  it('round-trips state and rounds coordinates', () => {
+    const state = { target: { coords: { lat: 30.267153, lon: -97.743061 } }, units: 'imperial' as const }
+
+    expect(buildUrlSearch(state)).toBe('?lat=30.2672&lon=-97.7431&units=imperial')
+    expect(parseUrlState(buildUrlSearch({ target: { query: 'São Paulo & co' }, panel: 'outlook' }))).toEqual({
+      target: { query: 'São Paulo & co' },
+      panel: 'outlook',
+    })
+    expect(buildUrlSearch({})).toBe('')
+  })
+
+  it('compares targets the way they are written', () => {
+    expect(isSameUrlTarget({ coords: { lat: 1.00001, lon: 2 } }, { coords: { lat: 1, lon: 2 } })).toBe(true)
+    expect(isSameUrlTarget({ query: 'Austin' }, { query: 'Boston' })).toBe(false)
+  })
+})
@@ -0,0 +1,335 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { DailyForecastEntry, ForecastEntry, GeoLocation } from '@optimistic-weather/core'
+import { createWeatherService, presentForecast } from '@optimistic-weather/core'
+import type { WeatherProvider } from '@/services/providers'
+import { createOpenWeatherProvider } from '@/services/providers'
+import {
+  fetchOptimisticForecast,
+  fetchOptimisticForecastAt,
+  fetchOptimisticForecastFor,
+} from '@/services/openWeather'
+
+const louisville: GeoLocation = { name: 'Louisville', lat: 38.2527, lon: -85.7585, state: 'Kentucky', country: 'US' }
+
+const createForecastEntry = (dt: number, overrides: Partial<ForecastEntry> = {}): ForecastEntry => ({
+  dt,
+  main: {
+    temp: 20,
+    feels_like: 20,
+    temp_min: 18,
+    temp_max: 22,
+    pressure: 1012,
+    humidity: 45,
+  },
+  weather: [{ id: 800, main: 'Clear', description: 'clear sky', icon: '01d' }],
+  clouds: { all: 10 },
+  wind: { speed: 3, deg: 180 },
+  visibility: 10_000,
+  pop: 0,
+  ...overrides,
+})
+
+const createDailyEntry = (dt: number): DailyForecastEntry => ({
+  dt,
+  temp: { day: 21, min: 14, max: 25 },
+  weather: [{ id: 800, main: 'Clear', description: 'clear sky', icon: '01d' }],
+  pop: 0.1,
+})
+
+const createStubProvider = (overrides: Partial<WeatherProvider> = {}): WeatherProvider => ({
+  id: 'stub',
+  label: 'Stub',
+  geocode: vi.fn(() => Promise.resolve([louisville])),
+  geocodeByZip: vi.fn(() => Promise.resolve(null)),
+  reverseGeocode: vi.fn(() => Promise.resolve([louisville])),
+  fetchForecast: vi.fn(() => Promise.resolve({
+    entries: Array.from({ length: 8 }, (_, index) =>
+      createForecastEntry(1_700_000_000 + index * 10_800, {
+        main: { temp: 18 + index, feels_like: 18 + index, temp_min: 16, temp_max: 26, pressure: 1012, humidity: 45 },
+      }),
+    ),
+    timezoneOffsetSeconds: 0,
+  })),
+  fetchDailyForecast: vi.fn(() => Promise.resolve({
+    entries: Array.from({ length: 10 }, (_, index) => createDailyEntry(1_700_000_000 + index * 86_400)),
+    timezoneOffsetSeconds: 0,
+  })),
+  fetchHourlyForecast: vi.fn(() => Promise.resolve(null)),
+  ...overrides,
+})
+
+describe('fetchOptimisticForecast with a custom provider', () => {
+  it('builds highlights and outlooks from provider data', async () => {
+    const provider = createStubProvider()
+
+    const forecast = await fetchOptimisticForecast('Louisville, KY', { provider })
+    const presented = presentForecast(forecast, 'metric')
+
+    expect(provider.geocode).toHaveBeenCalledWith('Louisville, KY', { signal: undefined })
+    expect(provider.fetchForecast).toHaveBeenCalledWith({ lat: louisville.lat, lon: louisville.lon }, 'metric', { signal: undefined })
+    expect(forecast.locationLabel).toBe('Louisville, KY')
+    expect(forecast.temperature.high).toBe(25)
+    expect(forecast.temperature.low).toBe(18)
+    expect(presented.highlights.map((highlight) => highlight.id)).toContain('dryness')
+    expect(forecast.extendedOutlook?.days).toHaveLength(10)
+    expect(forecast.extendedOutlook?.isComplete).toBe(true)
+    expect(forecast.hourlyOutlook).toBeUndefined()
+  })
+
+  it('flags the extended outlook as unavailable when the provider has no daily data', async () => {
+    const provider = createStubProvider({ fetchDailyForecast: vi.fn(() => Promise.resolve(null)) })
+
+    const forecast = await fetchOptimisticForecast('Louisville, KY', { provider })
+
+    expect(forecast.extendedOutlook?.days).toEqual([])
+    expect(forecast.extendedOutlook?.message).toContain('unavailable')
+  })
+
+  it('threads the abort signal through to the provider', async () => {
+    const provider = createStubProvider()
+    const controller = new AbortController()
+
+    await fetchOptimisticForecast('Louisville, KY', { provider, signal: controller.signal })
+
+    expect(provider.geocode).toHaveBeenCalledWith('Louisville, KY', { signal: controller.signal })
+    expect(provider.fetchForecast).toHaveBeenCalledWith(expect.anything(), 'metric', { signal: controller.signal })
+  })
+
+  it('rejects with an AbortError once the caller cancels', async () => {
+    const controller = new AbortController()
+    const provider = createStubProvider({
+      fetchForecast: vi.fn(() => {
+        controller.abort()
+        return createStubProvider().fetchForecast(louisville, 'metric')
+      }),
+    })
+
+    await expect(
+      fetchOptimisticForecast('Louisville, KY', { provider, signal: controller.signal }),
+    ).rejects.toMatchObject({ name: 'AbortError' })
+  })
+})
+
+describe('forecasting a chosen point', () => {
+  it('forecasts the exact coordinates and names them by reverse geocoding', async () => {
+    const provider = createStubProvider()
+    const point = { lat: 38.2, lon: -85.7 }
+
+    const forecast = await fetchOptimisticForecastAt(point, { provider })
+
+    expect(provider.geocode).not.toHaveBeenCalled()
+    expect(provider.reverseGeocode).toHaveBeenCalledWith(point, { signal: undefined })
+    expect(provider.fetchForecast).toHaveBeenCalledWith(point, 'metric', { signal: undefined })
+    expect(forecast.coordinates).toEqual(point)
+    expect(forecast.location).toEqual({ ...louisville, ...point })
+    expect(forecast.locationLabel).toBe('Louisville, KY')
+  })
+
+  it('does not wait for the label before requesting the series', async () => {
+    let releaseLabel: () => void = () => undefined
+    const provider = createStubProvider({
+      reverseGeocode: vi.fn(() => new Promise<GeoLocation[]>((resolve) => {
+        releaseLabel = () => {
+          resolve([louisville])
+        }
+      })),
+    })
+
+    const pending = fetchOptimisticForecastAt({ lat: 38.2, lon: -85.7 }, { provider })
+    await vi.waitFor(() => expect(provider.fetchForecast).toHaveBeenCalled())
+    releaseLabel()
+
+    expect((await pending).locationLabel).toBe('Louisville, KY')
+  })
+
+  it('keeps the forecast when the label lookup fails', async () => {
+    const provider = createStubProvider({ reverseGeocode: vi.fn(() => Promise.reject(new Error('offline'))) })
+
+    const forecast = await fetchOptimisticForecastAt({ lat: 38.2, lon: -85.7 }, { provider })
+
+    expect(forecast.locationLabel).toBe('38.2, -85.7')
+  })
+
+  it('forecasts a resolved location without geocoding it again', async () => {
+    const provider = createStubProvider()
+    const springfield: GeoLocation = { name: 'Springfield', lat: 39.8, lon: -89.64, state: 'Illinois', country: 'US' }
+
+    const forecast = await fetchOptimisticForecastFor(springfield, { provider })
+
+    expect(provider.geocode).not.toHaveBeenCalled()
+    expect(provider.reverseGeocode).not.toHaveBeenCalled()
+    expect(provider.fetchForecast).toHaveBeenCalledWith({ lat: 39.8, lon: -89.64 }, 'metric', { signal: undefined })
+    expect(forecast.locationLabel).toBe('Springfield, IL')
+    expect(forecast.timings.geocodeMs).toBe(0)
+  })
+})
+
+describe('forecast pipeline', () => {
+  it('requests every series without waiting on the short-range forecast', async () => {
+    let releaseForecast: () => void = () => undefined
+    const stub = createStubProvider()
+    const provider = createStubProvider({
+      fetchForecast: vi.fn(() => new Promise<Awaited<ReturnType<WeatherProvider['fetchForecast']>>>((resolve) => {
+        releaseForecast = () => {
+          void stub.fetchForecast(louisville, 'metric').then(resolve)
+        }
+      })),
+    })
+
+    const pending = fetchOptimisticForecast('Louisville, KY', { provider })
+    await vi.waitFor(() => expect(provider.fetchForecast).toHaveBeenCalled())
+
+    expect(provider.fetchDailyForecast).toHaveBeenCalled()
+    expect(provider.fetchHourlyForecast).toHaveBeenCalled()
+    releaseForecast()
+    const forecast = await pending
+    expect(forecast.timings.dailyMs).not.toBeNull()
+    expect(forecast.timings.totalMs).toBeGreaterThanOrEqual(forecast.timings.forecastMs)
+  })
+
+  it('drops optional series that miss the latency budget', async () => {
+    const provider = createStubProvider({
+      fetchDailyForecast: vi.fn(() => new Promise<null>(() => undefined)),
+    })
+    const { fetchOptimisticForecast: fetchWithBudget } = createWeatherService(() => provider, { latencyBudgetMs: 5 })
+
+    const forecast = await fetchWithBudget('Louisville, KY')
+
+    expect(forecast.temperature.current).toBe(18)
+    expect(forecast.extendedOutlook?.days).toEqual([])
+    expect(forecast.extendedOutlook?.message).toContain('longer than usual')
+    expect(forecast.timings.dailyMs).toBeNull()
+    expect(forecast.timings.hourlyMs).not.toBeNull()
+  })
+
+  it('renders without optional series whose requests fail', async () => {
+    const provider = createStubProvider({
+      fetchDailyForecast: vi.fn(() => Promise.reject(new Error('NWS 500'))),
+      fetchHourlyForecast: vi.fn(() => Promise.reject(new Error('NWS 500'))),
+    })
+
+    const forecast = await fetchOptimisticForecastAt(louisville, { provider })
+
+    expect(forecast.temperature.current).toBe(18)
+    expect(forecast.extendedOutlook?.days).toEqual([])
+    expect(forecast.extendedOutlook?.message).toContain('unavailable')
+    expect(forecast.hourlyOutlook).toBeUndefined()
+  })
+})
+
+describe('OpenWeather provider adapter', () => {
+  it('shares a single One Call request between daily and hourly outlooks', async () => {
+    const fetchJson = vi.fn((url: string) => {
+      if (url.includes('/data/3.0/onecall')) {
+        return Promise.resolve({
+          lat: 1,
+          lon: 2,
+          timezone: 'UTC',
+          timezone_offset: 3_600,
+          daily: Array.from({ length: 10 }, (_, index) => createDailyEntry(1_700_000_000 + index * 86_400)),
+          hourly: [{ dt: 1_700_000_000, temp: 20, feels_like: 19 }],
+        })
+      }
+      return Promise.reject(new Error(`Unexpected request ${url}`))
+    })
+    const provider = createOpenWeatherProvider({
+      fetchJson: fetchJson as never,
+      getApiKey: () => 'test-key',
+    })
+
+    const [daily, hourly] = await Promise.all([
+      provider.fetchDailyForecast({ lat: 1, lon: 2 }, 'metric'),
+      provider.fetchHourlyForecast({ lat: 1, lon: 2 }, 'metric'),
+    ])
+
+    expect(fetchJson).toHaveBeenCalledTimes(1)
+    expect(daily?.entries).toHaveLength(10)
+    expect(daily?.timezoneOffsetSeconds).toBe(3_600)
+    expect(hourly?.entries).toHaveLength(1)
+  })
+
+  it('falls back to the legacy daily endpoint when One Call is unavailable', async () => {
+    const fetchJson = vi.fn((url: string) => {
+      if (url.includes('/data/2.5/forecast/daily')) {
+        return Promise.resolve({
+          city: { timezone: -18_000 },
+          list: [{ dt: 1_700_000_000, temp: { day: 10, min: 5, max: 12 }, weather: [], speed: 4 }],
+        })
+      }
+      return Promise.reject(new Error('One Call disabled'))
+    })
+    const provider = createOpenWeatherProvider({
+      fetchJson: fetchJson as never,
+      getApiKey: () => 'test-key',
+    })
+
+    const daily = await provider.fetchDailyForecast({ lat: 1, lon: 2 }, 'imperial')
+
+    expect(daily?.timezoneOffsetSeconds).toBe(-18_000)
+    expect(daily?.entries[0]?.wind_speed).toBe(4)
+  })
+
+  it('hedges a slow One Call with a speculative legacy daily request', async () => {
+    const requested: string[] = []
+    let releaseOneCall: () => void = () => undefined
+    const fetchJson = vi.fn((url: string) => {
+      requested.push(url)
+      if (url.includes('/data/3.0/onecall')) {
+        return new Promise((resolve) => {
+          releaseOneCall = () => resolve({ lat: 1, lon: 2, timezone: 'UTC', timezone_offset: 0, daily: [] })
+        })
+      }
+      return Promise.resolve({
+        city: { timezone: 0 },
+        list: [{ dt: 1_700_000_000, temp: { day: 10, min: 5, max: 12 }, weather: [], speed: 4 }],
+      })
+    })
+    const provider = createOpenWeatherProvider({
+      fetchJson: fetchJson as never,
+      getApiKey: () => 'test-key',
+      legacyHedgeDelayMs: 5,
+    })
+
+    const pending = provider.fetchDailyForecast({ lat: 1, lon: 2 }, 'metric')
+    await vi.waitFor(() => expect(requested.some((url) => url.includes('/forecast/daily'))).toBe(true))
+    releaseOneCall()
+
+    expect((await pending)?.entries).toHaveLength(1)
+    expect(fetchJson).toHaveBeenCalledTimes(2)
+  })
+
+  it('leaves the key to a proxy when given a base URL', async () => {
+    const fetchJson = vi.fn(() => Promise.resolve([louisville]))
+    const provider = createOpenWeatherProvider({
+      fetchJson: fetchJson as never,
+      baseUrl: '/api/openweather/',
+    })
+
+    await provider.geocode('Louisville')
+
+    expect(fetchJson).toHaveBeenCalledWith('/api/openweather/geo/1.0/direct?q=Louisville&limit=5', {
+      source: 'OpenWeather',
+      signal: undefined,
+    })
+  })
+
+  it('skips the legacy request when One Call answers quickly with every day', async () => {
+    const fetchJson = vi.fn(() => Promise.resolve({
+      lat: 1,
+      lon: 2,
+      timezone: 'UTC',
+      timezone_offset: 0,
+      daily: Array.from({ length: 10 }, (_, index) => createDailyEntry(1_700_000_000 + index * 86_400)),
+    }))
+    const provider = createOpenWeatherProvider({
+      fetchJson: fetchJson as never,
+      getApiKey: () => 'test-key',
+      legacyHedgeDelayMs: 5,
+    })
+
+    await provider.fetchDailyForecast({ lat: 1, lon: 2 }, 'metric')
+    await new Promise((resolve) => setTimeout(resolve, 20))
+
+    expect(fetchJson).toHaveBeenCalledTimes(1)
+  })
+})
@@ -2,15 +2,23 @@ import { defineConfig } from 'vitest/config'
 import react from '@vitejs/plugin-react'
 import path from 'node:path'
 import { fileURLToPath } from 'node:url'
+import { fixtureStorePlugin } from './vite/fixtureStorePlugin'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), fixtureStorePlugin({ directory: path.resolve(__dirname, './fixtures/recordings') })],
+  server: {
+    // `npm run proxy` serves the OpenWeather proxy locally for builds with VITE_OPENWEATHER_PROXY_URL=/api/openweather.
+    proxy: {
+      '/api/openweather': 'http://127.0.0.1:8787',
+    },
+  },
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      '@optimistic-weather/core': path.resolve(__dirname, './core/src'),
     },
   },
   test: {
@@ -0,0 +1,79 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { Plugin } from 'vite'
+
+const FIXTURE_ENDPOINT = '/__fixtures'
+const MAX_FILE_NAME_LENGTH = 180
+
+interface FixtureStorePluginOptions {
+  directory: string
+}
+
+interface RecordedFixture {
+  key: string
+  recordedAt: string
+  response: unknown
+}
+
+// Keys look like `api.openweathermap.org/geo/1.0/direct?limit=5&q=boulder`; keep them readable on disk.
+const toFileName = (key: string) =>
+  `${key.toLowerCase().replace(/[^a-z0-9.=-]+/g, '_').slice(0, MAX_FILE_NAME_LENGTH)}.json`
+
+const readBody = async (request: IncomingMessage) => {
+  const chunks: Buffer[] = []
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+const send = (response: ServerResponse, status: number, body: string) => {
+  response.statusCode = status
+  response.setHeader('Content-Type', status === 200 ? 'application/json' : 'text/plain')
+  response.end(body)
+}
+
+/**
+ * Dev-server endpoint behind `VITE_FIXTURE_MODE`: `PUT /__fixtures?key=…` records a response
+ * into the fixture directory and `GET /__fixtures?key=…` replays it.
+ */
+export const fixtureStorePlugin = ({ directory }: FixtureStorePluginOptions): Plugin => ({
+  name: 'optimistic-weather-fixture-store',
+  apply: 'serve',
+  configureServer(server) {
+    server.middlewares.use(FIXTURE_ENDPOINT, (request, response) => {
+      const key = new URL(request.url ?? '', 'http://localhost').searchParams.get('key')
+      if (!key) {
+        send(response, 400, 'Missing fixture key')
+        return
+      }
+      const file = path.join(directory, toFileName(key))
+
+      const handle = async () => {
+        if (request.method === 'PUT') {
+          const fixture: RecordedFixture = {
+            key,
+            recordedAt: new Date().toISOString(),
+            response: JSON.parse(await readBody(request)) as unknown,
+          }
+          await mkdir(directory, { recursive: true })
+          await writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`)
+          send(response, 204, '')
+          return
+        }
+
+        try {
+          const fixture = JSON.parse(await readFile(file, 'utf8')) as RecordedFixture
+          send(response, 200, JSON.stringify(fixture.response))
+        } catch {
+          send(response, 404, `No fixture recorded for ${key}`)
+        }
+      }
+
+      handle().catch((error: unknown) => {
+        send(response, 500, error instanceof Error ? error.message : 'Fixture store failure')
+      })
+    })
+  },
+})